@@ -0,0 +1,36 @@
+-- Add per-user calendar feed tokens for subscribable (webcal) ICS feeds
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- Only the SHA-256 hash of each token is stored; the plain token is shown once
+-- when it is created or rotated.
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL DEFAULT 'Saved events',
+  categories TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  sources TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  created_at TIMESTAMPTZ DEFAULT now(),
+  rotated_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_tokens_user_id ON calendar_feed_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_tokens_token_hash ON calendar_feed_tokens(token_hash);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own calendar feed tokens" ON calendar_feed_tokens;
+DROP POLICY IF EXISTS "Users can insert own calendar feed tokens" ON calendar_feed_tokens;
+DROP POLICY IF EXISTS "Users can update own calendar feed tokens" ON calendar_feed_tokens;
+
+CREATE POLICY "Users can view own calendar feed tokens" ON calendar_feed_tokens
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own calendar feed tokens" ON calendar_feed_tokens
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own calendar feed tokens" ON calendar_feed_tokens
+  FOR UPDATE USING (auth.uid() = user_id);
@@ -0,0 +1,19 @@
+-- Record why an event was archived; archived events are never hard-deleted
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- Requires add-event-archiving.sql (archived_at)
+ALTER TABLE events ADD COLUMN IF NOT EXISTS archived_reason TEXT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'events_archived_reason_check'
+    ) THEN
+        ALTER TABLE events ADD CONSTRAINT events_archived_reason_check
+            CHECK (archived_reason IN ('stale', 'past', 'source_removed', 'manual'));
+    END IF;
+END $$;
+
+-- Rows archived before reasons existed were archived by stale cleanup
+UPDATE events SET archived_reason = 'stale' WHERE archived_at IS NOT NULL AND archived_reason IS NULL;
@@ -0,0 +1,10 @@
+-- Archive stale events that users have saved instead of deleting them
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- Set by stale-event cleanup; archived events are kept for saved_events but
+-- hidden from event listings
+ALTER TABLE events ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_events_archived_at ON events(archived_at);
+CREATE INDEX IF NOT EXISTS idx_events_last_seen_at ON events(last_seen_at);
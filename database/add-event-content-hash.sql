@@ -0,0 +1,21 @@
+-- Store a hash of each event's ingested content so unchanged rows can be skipped
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- Ingestion upserts on (source, source_id) and only rewrites rows whose hash
+-- differs. Existing rows have no hash yet and are rewritten once on the next run.
+ALTER TABLE events ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- The upsert's ON CONFLICT target; setup.sql already declares it, this covers
+-- databases created before the constraint existed
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conrelid = 'events'::regclass
+      AND contype = 'u'
+      AND conname = 'events_source_source_id_key'
+  ) THEN
+    ALTER TABLE events ADD CONSTRAINT events_source_source_id_key UNIQUE (source, source_id);
+  END IF;
+END $$;
@@ -0,0 +1,15 @@
+-- Record how scraped event dates were read and flag doubtful ones for review
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- date_parse holds { rule, timeKnown, yearInferred, endInferred, confidence }
+-- from the scraper's date parser, e.g. "Mar 15" parsed with rule month_day,
+-- a guessed year and no time. Feeds with structured dates (RSS, iCal) leave
+-- it NULL.
+ALTER TABLE events ADD COLUMN IF NOT EXISTS date_parse JSONB;
+
+-- Set by ingestion when the date confidence is below LOW_DATE_CONFIDENCE
+-- (src/lib/date-macau.ts), including listings whose date could not be read
+ALTER TABLE events ADD COLUMN IF NOT EXISTS needs_review BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_events_needs_review ON events(needs_review) WHERE needs_review;
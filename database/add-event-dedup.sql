@@ -0,0 +1,14 @@
+-- Link cross-source duplicates of the same event to one canonical event
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- Duplicate rows keep their own (source, source_id) so ingestion can keep
+-- updating them, but point at the canonical row and are hidden from listings.
+-- The canonical row collects the URLs of every contributing source. Fields
+-- taken from its duplicates go in merged_fields and are shown over its own
+-- columns, so ingesting the canonical row's source does not undo the merge.
+ALTER TABLE events ADD COLUMN IF NOT EXISTS canonical_event_id UUID REFERENCES events(id) ON DELETE SET NULL;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS source_urls TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE events ADD COLUMN IF NOT EXISTS merged_fields JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_events_canonical_event_id ON events(canonical_event_id);
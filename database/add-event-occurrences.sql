@@ -0,0 +1,31 @@
+-- Add event_occurrences for events held on several separate dates
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- One row per date of a multi-date event, e.g. each night of a fireworks
+-- contest listed as "Sep 6, 13, 20, Oct 1 & 6". The parent event keeps
+-- start_time_utc/end_time_utc spanning all of them. Events held as one
+-- continuous run have no rows here. Ingestion replaces an event's rows
+-- whenever it writes the event.
+CREATE TABLE IF NOT EXISTS event_occurrences (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  start_time_utc TIMESTAMPTZ NOT NULL,
+  end_time_utc TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_occurrences_event_id ON event_occurrences(event_id);
+CREATE INDEX IF NOT EXISTS idx_event_occurrences_start_time ON event_occurrences(start_time_utc);
+
+ALTER TABLE event_occurrences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Event occurrences are publicly readable" ON event_occurrences;
+DROP POLICY IF EXISTS "Service role can manage event occurrences" ON event_occurrences;
+
+-- Occurrences are part of the public event data, so they are readable like events
+CREATE POLICY "Event occurrences are publicly readable" ON event_occurrences
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage event occurrences" ON event_occurrences
+  FOR ALL USING (auth.role() = 'service_role');
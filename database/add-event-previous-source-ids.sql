@@ -0,0 +1,26 @@
+-- Keep the source IDs an event was stored under before SHA-256 source IDs
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- Scraped events used to get a 32-bit hash of title, start time and venue as
+-- source_id. Scrapers now send a SHA-256 source_id keyed on the event's own
+-- page, plus the legacy ID. The first ingestion run that sees an event under
+-- its new ID finds the row stored under the legacy ID and rewrites that row's
+-- source_id instead of inserting a new one. The row keeps its id, so
+-- saved_events, event_occurrences and event_revisions stay attached. The
+-- legacy ID is appended here. Events no source lists any more keep their
+-- legacy source_id.
+--
+-- The AI and fallback scrapers used the first 16 base64 characters of title,
+-- start time and venue instead; they send that as their legacy ID, so their
+-- rows are re-keyed the same way.
+--
+-- Macau Daily stored every run under a new macau_daily_structured_<timestamp>_<index>
+-- ID, so there is no legacy ID to send. Its events send that prefix instead,
+-- and ingestion re-keys the most recently seen row with the same article URL
+-- and title; older copies are left to stale cleanup.
+ALTER TABLE events ADD COLUMN IF NOT EXISTS previous_source_ids TEXT[] NOT NULL DEFAULT '{}';
+
+-- Find the event a legacy ID now belongs to:
+--   SELECT * FROM events WHERE previous_source_ids @> ARRAY['galaxymacau.com-1x2y3z'];
+CREATE INDEX IF NOT EXISTS idx_events_previous_source_ids ON events USING GIN (previous_source_ids);
@@ -0,0 +1,31 @@
+-- Add event_revisions to record which fields changed when ingestion updates an event
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- One row per ingestion update that changed at least one field. `changes` maps
+-- each changed column to {"from": ..., "to": ...}; `ingestion_run_id` groups all
+-- revisions written by the same ingestion run.
+CREATE TABLE IF NOT EXISTS event_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  ingestion_run_id UUID,
+  source_id TEXT,
+  changed_fields TEXT[] NOT NULL,
+  changes JSONB NOT NULL DEFAULT '{}'::JSONB,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_revisions_event_id ON event_revisions(event_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_event_revisions_ingestion_run_id ON event_revisions(ingestion_run_id);
+
+ALTER TABLE event_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Event revisions are publicly readable" ON event_revisions;
+DROP POLICY IF EXISTS "Service role can insert event revisions" ON event_revisions;
+
+-- Revisions only describe public event data, so they are readable like events
+CREATE POLICY "Event revisions are publicly readable" ON event_revisions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can insert event revisions" ON event_revisions
+  FOR INSERT WITH CHECK (true);
@@ -0,0 +1,7 @@
+-- Record how many events failed schema validation per source run
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- Rejected events and their reason codes (missing_field, invalid_date, relative_url, ...)
+ALTER TABLE ingestion_run_sources ADD COLUMN IF NOT EXISTS rejected_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE ingestion_run_sources ADD COLUMN IF NOT EXISTS rejection_breakdown JSONB NOT NULL DEFAULT '{}'::JSONB;
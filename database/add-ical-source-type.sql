@@ -0,0 +1,19 @@
+-- Add the 'ical' source type for remote iCalendar (.ics) feeds
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+DO $$
+BEGIN
+    ALTER TABLE sources DROP CONSTRAINT IF EXISTS sources_type_check;
+    ALTER TABLE sources ADD CONSTRAINT sources_type_check
+        CHECK (type IN ('rss', 'newsapi', 'web_scraper', 'ical'));
+
+    ALTER TABLE events DROP CONSTRAINT IF EXISTS events_source_check;
+    ALTER TABLE events ADD CONSTRAINT events_source_check
+        CHECK (source IN ('rss', 'newsapi', 'web_scraper', 'ical'));
+END $$;
+
+-- Example: register a venue's public calendar feed
+-- INSERT INTO sources (type, name, url, active) VALUES
+--   ('ical', 'Example Venue Calendar', 'https://example.com/events.ics', true)
+-- ON CONFLICT (name) DO NOTHING;
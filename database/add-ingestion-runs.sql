@@ -0,0 +1,47 @@
+-- Add structured ingestion run records alongside the free-text ingestion_logs
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- One row per call to the ingestion pipeline (cron or manual trigger)
+CREATE TABLE IF NOT EXISTS ingestion_runs (
+  id UUID PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'partial', 'failed')),
+  source_filter TEXT[],
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  duration_ms INTEGER,
+  events_processed INTEGER NOT NULL DEFAULT 0,
+  events_added INTEGER NOT NULL DEFAULT 0,
+  events_updated INTEGER NOT NULL DEFAULT 0,
+  events_unchanged INTEGER NOT NULL DEFAULT 0,
+  events_merged INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0
+);
+
+-- One row per source processed within a run. error_breakdown counts errors by
+-- ScraperErrorType, e.g. {"TIMEOUT_ERROR": 2, "NETWORK_ERROR": 1}.
+CREATE TABLE IF NOT EXISTS ingestion_run_sources (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES ingestion_runs(id) ON DELETE CASCADE,
+  source_id TEXT REFERENCES sources(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  raw_count INTEGER NOT NULL DEFAULT 0,
+  normalized_count INTEGER NOT NULL DEFAULT 0,
+  added_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  used_browser_fallback BOOLEAN NOT NULL DEFAULT false,
+  error_breakdown JSONB NOT NULL DEFAULT '{}'::JSONB,
+  message TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_runs_started_at ON ingestion_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingestion_run_sources_run_id ON ingestion_run_sources(run_id);
+CREATE INDEX IF NOT EXISTS idx_ingestion_run_sources_source_id ON ingestion_run_sources(source_id, started_at DESC);
+
+-- Only the service role (ingestion and admin routes) reads or writes runs
+ALTER TABLE ingestion_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingestion_run_sources ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,23 @@
+-- Add per-source circuit breaker state so failing sources are backed off
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS breaker_state TEXT NOT NULL DEFAULT 'closed';
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS consecutive_empty_runs INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS breaker_opened_at TIMESTAMPTZ;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS breaker_next_probe_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'sources_breaker_state_check'
+    ) THEN
+        ALTER TABLE sources ADD CONSTRAINT sources_breaker_state_check
+            CHECK (breaker_state IN ('closed', 'open', 'half_open'));
+    END IF;
+END $$;
+
+-- Reset a quarantined source by hand:
+-- UPDATE sources SET breaker_state = 'closed', consecutive_failures = 0, consecutive_empty_runs = 0,
+--   breaker_opened_at = NULL, breaker_next_probe_at = NULL WHERE id = 'galaxy';
@@ -0,0 +1,42 @@
+-- Track per-source event count baselines and which source last ingested each event
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- Baseline (median of recent healthy runs) and whether the run fell well below it
+ALTER TABLE ingestion_run_sources ADD COLUMN IF NOT EXISTS baseline_count REAL;
+ALTER TABLE ingestion_run_sources ADD COLUMN IF NOT EXISTS anomalous BOOLEAN NOT NULL DEFAULT false;
+
+-- events.source is the source type and events.source_id the upstream event id,
+-- so record the sources row that last reported each event
+ALTER TABLE events ADD COLUMN IF NOT EXISTS ingestion_source_id TEXT REFERENCES sources(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_ingestion_source_id ON events(ingestion_source_id);
+
+-- Backfill events stored before ingestion_source_id existed. Scraped
+-- source_ids start with the site's host ("galaxymacau.com-1x2y3z") and Macau
+-- Daily used macau_daily_structured_<timestamp>; an event is assigned only
+-- when exactly one source's URL is on that host. Stale cleanup leaves events
+-- without a recorded source alone, so rows that stay NULL are never expired
+-- by age alone.
+WITH event_hosts AS (
+  SELECT id,
+    CASE
+      WHEN source_id LIKE 'macau_daily%' THEN 'macaodaily.com'
+      ELSE substring(source_id FROM '^([a-z0-9.-]+\.[a-z]{2,})-[0-9a-z]+$')
+    END AS host
+  FROM events
+  WHERE ingestion_source_id IS NULL AND source = 'web_scraper'
+),
+matches AS (
+  SELECT event_hosts.id AS event_id, MIN(sources.id) AS source_id
+  FROM event_hosts
+  JOIN sources ON sources.url ILIKE '%' || event_hosts.host || '%'
+  WHERE event_hosts.host IS NOT NULL
+  GROUP BY event_hosts.id
+  HAVING COUNT(*) = 1
+)
+UPDATE events
+SET ingestion_source_id = matches.source_id
+FROM matches
+WHERE events.id = matches.event_id;
+
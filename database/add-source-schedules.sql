@@ -0,0 +1,15 @@
+-- Add per-source ingestion schedules
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+-- Either an interval ("30m", "6h", "1d", "1w") or a five-field cron
+-- expression in Macau time ("0 9 * * 1"). NULL means once a day.
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS schedule TEXT;
+
+-- Resort entertainment pages change often; government calendars rarely
+UPDATE sources SET schedule = '6h' WHERE id IN ('londoner', 'venetian', 'galaxy', 'broadway') AND schedule IS NULL;
+UPDATE sources SET schedule = '1w' WHERE id = 'mice' AND schedule IS NULL;
+UPDATE sources SET schedule = '1d' WHERE id = 'mgto' AND schedule IS NULL;
+
+-- Verify
+SELECT id, name, schedule, active FROM sources ORDER BY id;
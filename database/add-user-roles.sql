@@ -0,0 +1,39 @@
+-- Add a role to users so admin pages and APIs can be restricted
+-- Run this script in your Supabase SQL Editor
+-- This script is idempotent and safe to run multiple times
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'users_role_check'
+    ) THEN
+        ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('user', 'admin'));
+    END IF;
+END $$;
+
+-- Users can insert and update their own profile, so stop them from creating
+-- or promoting an admin. OLD is NULL on INSERT, so new rows must start as 'user'.
+-- auth.role() is NULL outside API requests (e.g. the SQL Editor), which may set roles.
+CREATE OR REPLACE FUNCTION prevent_role_self_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() IS NOT NULL AND auth.role() <> 'service_role' THEN
+        IF TG_OP = 'INSERT' AND NEW.role <> 'user' THEN
+            RAISE EXCEPTION 'Only the service role can create admin users';
+        END IF;
+        IF TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role THEN
+            RAISE EXCEPTION 'Only the service role can change user roles';
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_users_role_self_update ON users;
+CREATE TRIGGER prevent_users_role_self_update BEFORE INSERT OR UPDATE ON users
+    FOR EACH ROW EXECUTE FUNCTION prevent_role_self_update();
+
+-- Promote an admin (replace the email):
+-- UPDATE users SET role = 'admin' WHERE email = 'you@example.com';
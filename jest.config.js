@@ -1,5 +1,8 @@
 const nextJest = require('next/jest')
 
+// Pin the timezone so scraper golden output does not depend on the machine
+process.env.TZ = 'UTC'
+
 const createJestConfig = nextJest({
   // Provide the path to your Next.js app to load next.config.js and .env files
   dir: './',
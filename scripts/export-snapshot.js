@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+
+/**
+ * Copy a recorded scraper response out of the snapshot archive into a test fixture
+ * Usage: npm run snapshot:export -- <url> <fixture-path> [--browser] [--dir <snapshot-dir>]
+ * Example: npm run snapshot:export -- https://www.galaxymacau.com/ticketing/event-list/ tests/fixtures/macau/galaxy-sample.html
+ *
+ * Record snapshots first by running ingestion with SCRAPER_SNAPSHOTS=record.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+function sha256(value) {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function exportSnapshot() {
+  const args = process.argv.slice(2);
+  const transport = args.includes('--browser') ? 'browser' : 'http';
+  const dirIndex = args.indexOf('--dir');
+  const snapshotDir = dirIndex >= 0 ? args[dirIndex + 1] : (process.env.SCRAPER_SNAPSHOT_DIR || '.scraper-snapshots');
+  const [url, fixturePath] = args.filter((arg, index) => !arg.startsWith('--') && (dirIndex < 0 || index !== dirIndex + 1));
+
+  if (!url || !fixturePath) {
+    console.log('Usage: npm run snapshot:export -- <url> <fixture-path> [--browser] [--dir <snapshot-dir>]');
+    process.exit(1);
+  }
+
+  // Same layout as SnapshotArchive in src/lib/scrapers/snapshot-archive.ts
+  const indexFile = path.join(snapshotDir, 'requests', transport, `${sha256(url)}.json`);
+  if (!fs.existsSync(indexFile)) {
+    console.error(`❌ No ${transport} snapshot recorded for ${url} in ${snapshotDir}`);
+    process.exit(1);
+  }
+
+  const entry = JSON.parse(fs.readFileSync(indexFile, 'utf-8'));
+  const body = fs.readFileSync(path.join(snapshotDir, 'bodies', entry.bodyHash), 'utf-8');
+
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(fixturePath, body);
+  console.log(`✅ Wrote ${fixturePath} (HTTP ${entry.status}, fetched ${entry.fetchedAt})`);
+}
+
+exportSnapshot();
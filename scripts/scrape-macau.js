@@ -20,31 +20,19 @@ async function runScraper() {
     console.log('3. Trigger ingestion via API: curl -X POST http://localhost:3000/api/cron/ingest-events -H "Authorization: Bearer your-cron-secret"');
     console.log('4. Check health: curl http://localhost:3000/api/health');
     console.log('');
+    console.log('To run offline against the HTML fixtures, start the server with:');
+    console.log('  SCRAPER_FIXTURES=tests/fixtures/macau/manifest.json npm run dev');
+    console.log('');
     
-    const sources = ['mgto', 'londoner', 'venetian', 'galaxy', 'mice', 'broadway'];
+    // Source ids live in the scraper registry (src/lib/scrapers/macau) and the
+    // sources table; ingestion reports any id it does not know
     const requestedSource = process.argv[2];
     
-    if (requestedSource && !sources.includes(requestedSource)) {
-      console.log('❌ Invalid source. Available sources:', sources.join(', '));
-      process.exit(1);
-    }
-    
     if (requestedSource) {
       console.log(`🎯 To test specific source: ${requestedSource}`);
-      console.log(`Add "?source=${requestedSource}" to your API calls for targeted testing`);
+      console.log(`Add "?sources=${requestedSource}" to your API calls for targeted testing`);
     } else {
-      console.log('📋 Available sources:');
-      sources.forEach(source => {
-        const urls = {
-          mgto: 'https://www.macaotourism.gov.mo/en/events/calendar',
-          londoner: 'https://www.londonermacao.com/macau-events-shows',
-          venetian: 'https://www.venetianmacao.com/entertainment.html',
-          galaxy: 'https://www.galaxymacau.com/ticketing/event-list/',
-          mice: 'https://www.mice.gov.mo/en/events.aspx',
-          broadway: 'https://www.broadwaymacau.com.mo/upcoming-events-and-concerts/'
-        };
-        console.log(`  • ${source}: ${urls[source]}`);
-      });
+      console.log('📋 Pass a source id (e.g. mgto) to test one source; see src/lib/scrapers/macau for the registered scrapers');
     }
     
     console.log('');
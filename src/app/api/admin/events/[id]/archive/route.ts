@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { authorizeAdminRequest } from '@/lib/admin-auth'
+import { archiveEvents } from '@/lib/event-archive'
+
+/**
+ * Archive an event by hand; unlike stale events it is not revived when
+ * ingestion sees it again
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!await authorizeAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const archived = await archiveEvents(createAdminClient(), [id], 'manual')
+
+    if (archived === 0) {
+      return NextResponse.json(
+        { error: 'Event not found or already archived' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, eventId: id })
+  } catch (error) {
+    console.error('Failed to archive event:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { authorizeAdminRequest } from '@/lib/admin-auth'
+import { restoreEvents } from '@/lib/event-archive'
+
+/**
+ * Restore an archived event so it shows up in event listings again
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!await authorizeAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const restored = await restoreEvents(createAdminClient(), [id])
+
+    if (restored.length === 0) {
+      return NextResponse.json(
+        { error: 'Archived event not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, eventId: id })
+  } catch (error) {
+    console.error('Failed to restore event:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeAdminRequest } from '@/lib/admin-auth'
+import { listSourceHealth } from '@/lib/ingestion-runs'
+
+/**
+ * Per-source health: latest run, count baseline and circuit breaker state
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!await authorizeAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const sources = await listSourceHealth()
+    const warnings = sources
+      .filter(source => source.active && !source.healthy)
+      .map(source => ({
+        sourceId: source.sourceId,
+        breakerState: source.breakerState,
+        lastRunStatus: source.lastRun?.status ?? null,
+        count: source.lastRun?.normalized_count ?? null,
+        baseline: source.lastRun?.baseline_count ?? null,
+        message: source.lastRun?.anomalous
+          ? `${source.name} returned ${source.lastRun.normalized_count} events, usually ~${Math.round(source.lastRun.baseline_count || 0)}`
+          : source.breakerState === 'open'
+            ? `${source.name} is quarantined by its circuit breaker`
+            : `${source.name} failed its last run: ${source.lastRun?.message || 'unknown error'}`
+      }))
+
+    return NextResponse.json({
+      healthy: warnings.length === 0,
+      warnings,
+      sources,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Failed to load source health:', error)
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
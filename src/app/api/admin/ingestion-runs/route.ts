@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeAdminRequest } from '@/lib/admin-auth'
+import { listIngestionRuns } from '@/lib/ingestion-runs'
+
+// GET /api/admin/ingestion-runs?limit=20&source=venetian
+export async function GET(request: NextRequest) {
+  try {
+    if (!await authorizeAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '20', 10)
+    const sourceId = searchParams.get('source') || undefined
+
+    const runs = await listIngestionRuns({
+      limit: isNaN(limit) ? undefined : limit,
+      sourceId
+    })
+
+    return NextResponse.json({ runs })
+
+  } catch (error) {
+    console.error('Failed to list ingestion runs:', error)
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { authorizeAdminRequest } from '@/lib/admin-auth'
+import { ingestEventsFromAllSources } from '@/lib/event-ingestion'
+
+/**
+ * Run ingestion for a single source now
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!await authorizeAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    const supabaseAdmin = createAdminClient()
+    const { data: source, error } = await supabaseAdmin
+      .from('sources')
+      .select('id, active')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching source:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch source' },
+        { status: 500 }
+      )
+    }
+
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Source not found' },
+        { status: 404 }
+      )
+    }
+
+    // Ingestion only picks up active sources
+    if (!source.active) {
+      return NextResponse.json(
+        { error: 'Activate the source before triggering ingestion' },
+        { status: 409 }
+      )
+    }
+
+    // An admin running a source by hand doubles as a circuit breaker probe
+    const result = await ingestEventsFromAllSources([id], { ignoreCircuitBreaker: true })
+    const status = result.success ? (result.errors.length > 0 ? 207 : 200) : 500
+
+    return NextResponse.json(result, { status })
+  } catch (error) {
+    console.error('Manual ingestion failed:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
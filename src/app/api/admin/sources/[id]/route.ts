@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { authorizeAdminRequest } from '@/lib/admin-auth'
+import { parseSourceUpdate } from '@/lib/admin-sources'
+import { archiveEvents } from '@/lib/event-archive'
+
+/**
+ * Edit a source, including activating or deactivating it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!await authorizeAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+
+    let body: unknown = null
+    try {
+      body = await request.json()
+    } catch {
+      // Reported as an invalid body below
+    }
+
+    const input = parseSourceUpdate(body)
+    if (input.error !== undefined) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      )
+    }
+    if (Object.keys(input.data).length === 0) {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = createAdminClient()
+    const { data, error } = await supabaseAdmin
+      .from('sources')
+      .update(input.data)
+      .eq('id', id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating source:', error)
+      return NextResponse.json(
+        { error: 'Failed to update source' },
+        { status: 500 }
+      )
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Source not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ source: data })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Remove a source: deactivate it and archive its events
+ * The row itself is kept so its ingestion history stays readable.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!await authorizeAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const supabaseAdmin = createAdminClient()
+
+    const { data: source, error } = await supabaseAdmin
+      .from('sources')
+      .update({ active: false })
+      .eq('id', id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error removing source:', error)
+      return NextResponse.json(
+        { error: 'Failed to remove source' },
+        { status: 500 }
+      )
+    }
+
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Source not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: events, error: eventsError } = await supabaseAdmin
+      .from('events')
+      .select('id')
+      .eq('ingestion_source_id', id)
+      .is('archived_at', null)
+
+    if (eventsError) {
+      console.error('Error fetching source events:', eventsError)
+      return NextResponse.json(
+        { error: 'Failed to archive source events' },
+        { status: 500 }
+      )
+    }
+
+    const archivedEvents = await archiveEvents(supabaseAdmin, (events || []).map(event => event.id), 'source_removed')
+
+    return NextResponse.json({ source, archivedEvents })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { authorizeAdminRequest } from '@/lib/admin-auth'
+import { listSourcesWithStatus, parseSourceCreate } from '@/lib/admin-sources'
+
+/**
+ * List every source, active or not, with its last ingestion status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!await authorizeAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const sources = await listSourcesWithStatus()
+    return NextResponse.json({ sources })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create a source
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!await authorizeAdminRequest(request)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    let body: unknown = null
+    try {
+      body = await request.json()
+    } catch {
+      // Reported as an invalid body below
+    }
+
+    const input = parseSourceCreate(body)
+    if (input.error !== undefined) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = createAdminClient()
+    const { data, error } = await supabaseAdmin
+      .from('sources')
+      .insert([input.data])
+      .select()
+      .single()
+
+    if (error) {
+      // Unique violation on the primary key
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `Source ${input.data.id} already exists` },
+          { status: 409 }
+        )
+      }
+      console.error('Error creating source:', error)
+      return NextResponse.json(
+        { error: 'Failed to create source' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ source: data }, { status: 201 })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,286 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { buildFeedUrls, generateFeedToken } from '@/lib/calendar-feed'
+
+const FEED_COLUMNS = 'id, name, categories, sources, created_at, rotated_at, last_used_at, revoked_at'
+
+async function getSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value, options }) =>
+            cookieStore.set(name, value, options)
+          )
+        },
+      },
+    }
+  )
+}
+
+// Fields are checked individually, so clients may send any JSON value in them
+interface CreateFeedBody {
+  name?: unknown
+  categories?: unknown
+  sources?: unknown
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return []
+  }
+  return value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map(item => item.trim())
+}
+
+/**
+ * List the signed-in user's calendar feeds (tokens are never returned here)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseClient()
+
+    // Get the current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('calendar_feed_tokens')
+      .select(FEED_COLUMNS)
+      .eq('user_id', user.id)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching calendar feeds:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch calendar feeds' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ feeds: data || [] })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create a calendar feed, optionally filtered by categories and sources
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseClient()
+
+    // Get the current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // An empty body creates an unfiltered feed
+    let body: CreateFeedBody = {}
+    const text = await request.text()
+    if (text.trim()) {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(text)
+      } catch {
+        parsed = undefined
+      }
+      if (!isPlainObject(parsed)) {
+        return NextResponse.json(
+          { error: 'Invalid request body' },
+          { status: 400 }
+        )
+      }
+      body = parsed
+    }
+
+    const { token, tokenHash } = generateFeedToken()
+
+    const { data, error } = await supabase
+      .from('calendar_feed_tokens')
+      .insert([
+        {
+          user_id: user.id,
+          token_hash: tokenHash,
+          name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : 'Saved events',
+          categories: parseList(body.categories),
+          sources: parseList(body.sources),
+        },
+      ])
+      .select(FEED_COLUMNS)
+
+    if (error) {
+      console.error('Error creating calendar feed:', error)
+      return NextResponse.json(
+        { error: 'Failed to create calendar feed' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { feed: data[0], ...buildFeedUrls(new URL(request.url).origin, token) },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Rotate a feed's token; the previous subscription URL stops working
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseClient()
+
+    // Get the current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      body = undefined
+    }
+    if (!isPlainObject(body)) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      )
+    }
+    const id = typeof body.id === 'string' ? body.id : undefined
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Feed ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { token, tokenHash } = generateFeedToken()
+
+    const { data, error } = await supabase
+      .from('calendar_feed_tokens')
+      .update({
+        token_hash: tokenHash,
+        rotated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .is('revoked_at', null)
+      .select(FEED_COLUMNS)
+
+    if (error) {
+      console.error('Error rotating calendar feed:', error)
+      return NextResponse.json(
+        { error: 'Failed to rotate calendar feed' },
+        { status: 500 }
+      )
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ feed: data[0], ...buildFeedUrls(new URL(request.url).origin, token) })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Revoke a feed; calendar clients subscribed to it will get 404s
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseClient()
+
+    // Get the current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Feed ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('calendar_feed_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('Error revoking calendar feed:', error)
+      return NextResponse.json(
+        { error: 'Failed to revoke calendar feed' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { buildSavedEventsCalendar, type SavedEventWithEvent } from '@/lib/ical-export'
+import { filterFeedEvents, hashFeedToken } from '@/lib/calendar-feed'
+
+/**
+ * Public ICS feed of a user's saved events, authorized by a secret token
+ *
+ * Calendar clients (Google, Apple) cannot send a Supabase cookie session, so the
+ * token in the URL is the only credential. Optional `categories` and `sources`
+ * query params narrow the feed further than the filters stored on the token.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const plainToken = token.replace(/\.ics$/i, '')
+
+    if (!plainToken) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const supabaseAdmin = createAdminClient()
+
+    const { data: feed, error: feedError } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .select('id, user_id, name, categories, sources')
+      .eq('token_hash', hashFeedToken(plainToken))
+      .is('revoked_at', null)
+      .maybeSingle()
+
+    if (feedError) {
+      console.error('Error looking up calendar feed:', feedError)
+      return NextResponse.json({ error: 'Failed to load calendar feed' }, { status: 500 })
+    }
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('saved_events')
+      .select(`
+        id,
+        note,
+        created_at,
+        events (*)
+      `)
+      .eq('user_id', feed.user_id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching saved events for feed:', error)
+      return NextResponse.json({ error: 'Failed to load calendar feed' }, { status: 500 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const savedEvents = filterFeedEvents(
+      filterFeedEvents((data || []) as unknown as SavedEventWithEvent[], {
+        categories: feed.categories,
+        sources: feed.sources
+      }),
+      {
+        categories: searchParams.get('categories')?.split(','),
+        sources: searchParams.get('sources')?.split(',')
+      }
+    )
+
+    // Best-effort usage tracking; a failure here should not break the feed
+    await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', feed.id)
+
+    const calendar = buildSavedEventsCalendar(savedEvents, { calendarName: feed.name })
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="saved-events.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+    })
+  } catch (error) {
+    console.error('Calendar feed error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
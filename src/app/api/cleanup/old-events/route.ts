@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient } from '@/lib/supabase'
+import { archiveEvents } from '@/lib/event-archive'
 
 /**
- * API route to clean up very old events from the database
- * This helps prevent the calendar from showing events from many months/years ago
+ * API route to archive very old events
+ * This helps prevent the calendar from showing events from many months/years ago.
+ * Events are archived rather than deleted so users' saved events stay intact.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -23,10 +25,11 @@ export async function POST(request: NextRequest) {
     
     console.log(`Starting cleanup of events older than ${cleanupThreshold.toISOString()}`)
 
-    // Delete old events
-    const { data, error, count } = await supabaseAdmin
+    // Archive old events
+    const { data, error } = await supabaseAdmin
       .from('events')
-      .delete({ count: 'exact' })
+      .select('id')
+      .is('archived_at', null)
       .lt('start_time_utc', cleanupThreshold.toISOString())
     
     if (error) {
@@ -37,8 +40,8 @@ export async function POST(request: NextRequest) {
       }, { status: 500 })
     }
 
-    const deletedCount = count || 0
-    console.log(`Successfully deleted ${deletedCount} old events`)
+    const archivedCount = await archiveEvents(supabaseAdmin, (data || []).map(event => event.id), 'past')
+    console.log(`Successfully archived ${archivedCount} old events`)
 
     // Also cleanup very old ingestion logs (keep last 30 days)
     const logThreshold = new Date()
@@ -58,7 +61,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: `Cleanup completed successfully`,
-      deletedEvents: deletedCount,
+      archivedEvents: archivedCount,
       deletedLogs: logCount || 0,
       thresholdDate: cleanupThreshold.toISOString()
     })
@@ -84,6 +87,7 @@ export async function GET(request: NextRequest) {
     const { count, error } = await supabaseAdmin
       .from('events')
       .select('*', { count: 'exact', head: true })
+      .is('archived_at', null)
       .lt('start_time_utc', cleanupThreshold.toISOString())
     
     if (error) {
@@ -93,7 +97,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       oldEventsCount: count || 0,
       thresholdDate: cleanupThreshold.toISOString(),
-      message: `Found ${count || 0} events older than 60 days that could be cleaned up`
+      message: `Found ${count || 0} events older than 60 days that could be archived`
     })
 
   } catch (error) {
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { ingestEventsFromAllSources, cleanupStaleEvents } from '@/lib/event-ingestion'
+import { ingestEventsFromAllSources, cleanupStaleEvents, getDueSourceIds, getUnhealthySourceIds, STALE_EVENT_DAYS } from '@/lib/event-ingestion'
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,24 +20,54 @@ export async function GET(request: NextRequest) {
     // Check for sources query parameter
     const url = new URL(request.url)
     const sourcesParam = url.searchParams.get('sources')
-    const sourceFilter = sourcesParam ? sourcesParam.split(',').map(s => s.trim()) : null
+    let sourceFilter = sourcesParam ? sourcesParam.split(',').map(s => s.trim()) : null
+
+    // Scheduled ticks only ingest sources whose schedule is due
+    if (!sourceFilter && url.searchParams.get('scheduled') === 'true') {
+      sourceFilter = await getDueSourceIds()
+      console.log(`Sources due on this tick: ${sourceFilter.join(', ') || 'none'}`)
+
+      if (sourceFilter.length === 0) {
+        return NextResponse.json({
+          success: true,
+          skipped: true,
+          message: 'No sources due',
+          timestamp: new Date().toISOString()
+        })
+      }
+    }
+
+    // Dry runs report what would be written without touching the database
+    const dryRun = url.searchParams.get('dryRun') === 'true'
 
     // Ingest events from specified sources or all sources
-    const result = await ingestEventsFromAllSources(sourceFilter)
+    const result = await ingestEventsFromAllSources(sourceFilter, { dryRun })
 
-    // Cleanup stale events (older than 30 days)
-    const cleanupCount = await cleanupStaleEvents(30)
+    // Archive stale events (not seen for 30 days), keeping events from sources
+    // whose run looked broken
+    const archivedCount = dryRun
+      ? result.wouldArchive.length
+      : await cleanupStaleEvents(STALE_EVENT_DAYS, getUnhealthySourceIds(result))
 
     const executionTime = Date.now() - startTime
 
     const response = {
       success: result.success,
+      runId: result.runId,
       executionTime: `${executionTime}ms`,
       eventsProcessed: result.eventsProcessed,
       eventsAdded: result.eventsAdded,
       eventsUpdated: result.eventsUpdated,
-      staleEventsRemoved: cleanupCount,
+      eventsUnchanged: result.eventsUnchanged,
+      eventsMerged: result.eventsMerged,
+      staleEventsArchived: archivedCount,
       errors: result.errors,
+      sources: result.sources,
+      circuitBreakers: result.circuitBreakers,
+      quarantinedSources: result.quarantinedSources,
+      warnings: result.warnings,
+      rejections: result.rejections,
+      ...(dryRun && { dryRun: true, preview: result.preview, wouldArchive: result.wouldArchive }),
       timestamp: new Date().toISOString()
     }
 
@@ -89,21 +119,34 @@ export async function POST(request: NextRequest) {
 
     // Ingest events from specified sources or all sources
     const sourceFilter = requestBody?.sources || null
-    const result = await ingestEventsFromAllSources(sourceFilter)
+    const dryRun = requestBody?.dryRun === true
+    const result = await ingestEventsFromAllSources(sourceFilter, { dryRun })
 
-    // Cleanup stale events (older than 30 days)
-    const cleanupCount = await cleanupStaleEvents(30)
+    // Archive stale events (not seen for 30 days), keeping events from sources
+    // whose run looked broken
+    const archivedCount = dryRun
+      ? result.wouldArchive.length
+      : await cleanupStaleEvents(STALE_EVENT_DAYS, getUnhealthySourceIds(result))
 
     const executionTime = Date.now() - startTime
 
     const response = {
       success: result.success,
+      runId: result.runId,
       executionTime: `${executionTime}ms`,
       eventsProcessed: result.eventsProcessed,
       eventsAdded: result.eventsAdded,
       eventsUpdated: result.eventsUpdated,
-      staleEventsRemoved: cleanupCount,
+      eventsUnchanged: result.eventsUnchanged,
+      eventsMerged: result.eventsMerged,
+      staleEventsArchived: archivedCount,
       errors: result.errors,
+      sources: result.sources,
+      circuitBreakers: result.circuitBreakers,
+      quarantinedSources: result.quarantinedSources,
+      warnings: result.warnings,
+      rejections: result.rejections,
+      ...(dryRun && { dryRun: true, preview: result.preview, wouldArchive: result.wouldArchive }),
       timestamp: new Date().toISOString()
     }
 
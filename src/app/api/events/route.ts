@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
+import { applyMergedFields } from '@/lib/event-dedup'
 
 export async function GET(request: NextRequest) {
   try {
@@ -12,6 +13,7 @@ export async function GET(request: NextRequest) {
     const endDate = searchParams.get('endDate')
     const limit = parseInt(searchParams.get('limit') || '50')
     const offset = parseInt(searchParams.get('offset') || '0')
+    const includeArchived = searchParams.get('includeArchived') === 'true'
 
     const cookieStore = await cookies()
     const supabase = createServerClient(
@@ -34,9 +36,15 @@ export async function GET(request: NextRequest) {
     let query = supabase
       .from('events')
       .select('*', { count: 'exact' })
+      .is('canonical_event_id', null) // Hide duplicates merged into a canonical event
       .order('start_time_utc', { ascending: true })
       .range(offset, offset + limit - 1)
 
+    // Archived events (stale, past, source removed) are hidden unless asked for
+    if (!includeArchived) {
+      query = query.is('archived_at', null)
+    }
+
     // Apply filters
     if (search) {
       query = query.or(`title.ilike.%${search}%,description.ilike.%${search}%`)
@@ -69,7 +77,7 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json({
-      events: data || [],
+      events: (data || []).map(applyMergedFields),
       total: count || 0,
       limit,
       offset,
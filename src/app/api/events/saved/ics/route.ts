@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { buildSavedEventsCalendar, type SavedEventWithEvent } from '@/lib/ical-export'
+
+async function getSupabaseClient() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value, options }) =>
+            cookieStore.set(name, value, options)
+          )
+        },
+      },
+    }
+  )
+}
+
+/**
+ * Export the signed-in user's saved events as an iCalendar (.ics) file
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await getSupabaseClient()
+
+    // Get the current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('saved_events')
+      .select(`
+        id,
+        note,
+        created_at,
+        events (*)
+      `)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching saved events for export:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch saved events' },
+        { status: 500 }
+      )
+    }
+
+    const calendar = buildSavedEventsCalendar((data || []) as unknown as SavedEventWithEvent[])
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="saved-events.ics"',
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
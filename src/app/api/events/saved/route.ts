@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
+import { getSavedEventStatus } from '@/lib/event-archive'
+import { applyMergedFields } from '@/lib/event-dedup'
 
 async function getSupabaseClient() {
   const cookieStore = await cookies()
@@ -53,7 +55,14 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    return NextResponse.json({ savedEvents: data || [] })
+    // Archived events stay in saved lists, marked as ended or removed
+    const savedEvents = (data || []).map((savedEvent: any) => ({
+      ...savedEvent,
+      events: savedEvent.events ? applyMergedFields(savedEvent.events) : savedEvent.events,
+      status: savedEvent.events ? getSavedEventStatus(savedEvent.events) : 'removed'
+    }))
+
+    return NextResponse.json({ savedEvents })
   } catch (error) {
     console.error('API Error:', error)
     return NextResponse.json(
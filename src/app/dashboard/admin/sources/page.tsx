@@ -0,0 +1,240 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { useAdminSources, useSaveSource, useTriggerIngestion, type SourceFormValues } from '@/hooks/use-admin-sources'
+import { SOURCE_TYPES, type SourceWithStatus } from '@/lib/admin-sources'
+import { Plus, Play, Pencil, Power } from 'lucide-react'
+
+const EMPTY_FORM: SourceFormValues = { id: '', type: 'web_scraper', name: '', url: '', schedule: '', active: true }
+
+export default function AdminSourcesPage() {
+  const { data: sources, isLoading, error } = useAdminSources()
+  const saveSource = useSaveSource()
+  const triggerIngestion = useTriggerIngestion()
+
+  // null = form closed; editingId null inside an open form = creating
+  const [form, setForm] = useState<SourceFormValues | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const openCreate = () => {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+  }
+
+  const openEdit = (source: SourceWithStatus) => {
+    setEditingId(source.id)
+    setForm({ type: source.type, name: source.name, url: source.url || '', schedule: source.schedule || '', active: source.active })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+
+    const { id, ...values } = form
+    try {
+      await saveSource.mutateAsync({ id: editingId || id || '', values, isNew: !editingId })
+      setNotice(editingId ? `Updated ${editingId}` : `Created ${id}`)
+      setForm(null)
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Failed to save source')
+    }
+  }
+
+  const toggleActive = async (source: SourceWithStatus) => {
+    try {
+      await saveSource.mutateAsync({ id: source.id, values: { active: !source.active }, isNew: false })
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Failed to update source')
+    }
+  }
+
+  const runIngestion = async (source: SourceWithStatus) => {
+    setNotice(`Ingesting ${source.name}...`)
+    try {
+      const result = await triggerIngestion.mutateAsync(source.id)
+      setNotice(
+        result.errors.length > 0
+          ? `${source.name}: ${result.errors.join('; ')}`
+          : `${source.name}: processed ${result.eventsProcessed} events`
+      )
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Ingestion failed')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Event Sources</h1>
+          <p className="text-muted-foreground">
+            Manage where events are ingested from
+          </p>
+        </div>
+
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Source
+        </Button>
+      </div>
+
+      {notice && (
+        <p className="text-sm text-muted-foreground">{notice}</p>
+      )}
+
+      {/* Create / edit form */}
+      {form && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {editingId ? `Edit ${editingId}` : 'New Source'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-2">
+              {!editingId && (
+                <Input
+                  placeholder="id (e.g. venetian)"
+                  value={form.id || ''}
+                  onChange={(e) => setForm({ ...form, id: e.target.value })}
+                  required
+                />
+              )}
+              <Input
+                placeholder="Name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+              />
+              <select
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as SourceFormValues['type'] })}
+              >
+                {SOURCE_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <Input
+                placeholder="URL"
+                value={form.url || ''}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+              />
+              <Input
+                placeholder="Schedule (e.g. 6h, 1w or 0 9 * * 1; default daily)"
+                value={form.schedule || ''}
+                onChange={(e) => setForm({ ...form, schedule: e.target.value })}
+              />
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.active}
+                  onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                />
+                Active
+              </label>
+              <div className="flex gap-2 md:col-span-2">
+                <Button type="submit" size="sm" disabled={saveSource.isPending}>
+                  Save
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setForm(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sources */}
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <p className="p-6 text-muted-foreground">Loading sources...</p>
+          ) : error ? (
+            <p className="p-6 text-destructive">
+              {error instanceof Error ? error.message : 'Failed to load sources'}
+            </p>
+          ) : (
+            <div className="divide-y">
+              {(sources || []).map(source => (
+                <div key={source.id} className="flex flex-col gap-3 p-4 md:flex-row md:items-center md:justify-between">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{source.name}</span>
+                      <Badge variant="outline">{source.type}</Badge>
+                      {!source.active && <Badge variant="secondary">Inactive</Badge>}
+                      {source.breaker_state === 'open' && (
+                        <Badge variant="destructive" title={`Next probe ${source.breaker_next_probe_at}`}>
+                          Degraded
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {source.id} · {source.schedule || 'daily'}{source.url ? ` · ${source.url}` : ''}
+                    </p>
+                    <LastIngestion source={source} />
+                  </div>
+
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => openEdit(source)}>
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => toggleActive(source)}
+                      disabled={saveSource.isPending}
+                    >
+                      <Power className="w-4 h-4 mr-2" />
+                      {source.active ? 'Deactivate' : 'Activate'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => runIngestion(source)}
+                      disabled={!source.active || triggerIngestion.isPending}
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      Run now
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function LastIngestion({ source }: { source: SourceWithStatus }) {
+  if (!source.lastIngestion) {
+    return <p className="text-xs text-muted-foreground">Never ingested</p>
+  }
+
+  const { status, message, createdAt } = source.lastIngestion
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <Badge variant={status === 'failed' ? 'destructive' : status === 'success' ? 'default' : 'secondary'}>
+        {status}
+      </Badge>
+      <span>
+        {new Date(createdAt).toLocaleString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit'
+        })}
+      </span>
+      {message && <span className="truncate">{message}</span>}
+    </div>
+  )
+}
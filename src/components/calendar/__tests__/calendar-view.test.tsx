@@ -40,6 +40,11 @@ jest.mock('../../../hooks/use-events', () => {
   }
 })
 
+// Mock useEventRevisions so the event modal does not create a Supabase client
+jest.mock('../../../hooks/use-event-revisions', () => ({
+  useEventRevisions: () => ({ data: [], isLoading: false })
+}))
+
 describe('CalendarView', () => {
   it('shows count of events only for the selected month', () => {
     render(<CalendarView selectedDate={new Date('2024-05-01')} onDateSelect={() => {}} />)
@@ -10,6 +10,7 @@ import { Button } from '@/components/ui/button'
 import { ChevronLeft, ChevronRight, Calendar } from 'lucide-react'
 import { useEvents } from '@/hooks/use-events'
 import { formatDate } from '@/lib/utils'
+import { expandOccurrences } from '@/lib/event-occurrences'
 import { 
   EventModal, 
   EventModalBody, 
@@ -35,7 +36,8 @@ function CalendarContent({ selectedDate, onDateSelect }: CalendarViewProps) {
   }, [onDateSelect])
 
   const handleEventClick = useCallback((arg: any) => {
-    const eventId = arg.event.id
+    // Every occurrence opens its parent event
+    const eventId = arg.event.extendedProps.eventId
     const event = events.find(e => e.id === eventId)
     
     if (event) {
@@ -72,16 +74,20 @@ function CalendarContent({ selectedDate, onDateSelect }: CalendarViewProps) {
     }
   }, [onDateSelect])
 
-  // Transform events data for FullCalendar
-  const calendarEvents = events.map(event => ({
-    id: event.id,
+  // One calendar entry per occurrence, so a multi-date event shows on each of its dates
+  const occurrences = expandOccurrences(events)
+  const calendarEvents = occurrences.map(({ key, event, startTime, endTime }) => ({
+    id: key,
+    groupId: event.id,
     title: event.title,
-    start: event.startTime,
-    end: event.endTime,
+    start: startTime,
+    end: endTime,
+    allDay: event.dateParse ? !event.dateParse.timeKnown : undefined, // no listed time; keep out of the time grid
     backgroundColor: event.isSaved ? '#3b82f6' : '#e5e7eb',
     borderColor: event.isSaved ? '#2563eb' : '#d1d5db',
     textColor: event.isSaved ? '#ffffff' : '#374151',
     extendedProps: {
+      eventId: event.id,
       description: event.description,
       city: event.city,
       categories: event.categories,
@@ -89,15 +95,19 @@ function CalendarContent({ selectedDate, onDateSelect }: CalendarViewProps) {
     }
   }))
 
-  // Count events occurring in the currently selected month
-  const eventsThisMonth = events.filter(event => {
-    if (!event.startTime) return false
-    const eventDate = new Date(event.startTime)
-    return (
-      eventDate.getMonth() === selectedDate.getMonth() &&
-      eventDate.getFullYear() === selectedDate.getFullYear()
-    )
-  })
+  // Count events with an occurrence in the currently selected month
+  const eventsThisMonth = new Set(
+    occurrences
+      .filter(({ startTime }) => {
+        if (!startTime) return false
+        const eventDate = new Date(startTime)
+        return (
+          eventDate.getMonth() === selectedDate.getMonth() &&
+          eventDate.getFullYear() === selectedDate.getFullYear()
+        )
+      })
+      .map(({ event }) => event.id)
+  )
 
   return (
     <Card className="p-6">
@@ -121,7 +131,7 @@ function CalendarContent({ selectedDate, onDateSelect }: CalendarViewProps) {
         </h2>
 
         <div className="text-sm text-muted-foreground">
-          {eventsThisMonth.length} events found
+          {eventsThisMonth.size} events found
         </div>
       </div>
 
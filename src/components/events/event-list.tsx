@@ -6,7 +6,8 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { useEvents } from '@/hooks/use-events'
 import { useSaveEvent } from '@/hooks/use-save-event'
-import { formatDate, formatDateRange } from '@/lib/utils'
+import { formatDateRange } from '@/lib/utils'
+import { expandOccurrences } from '@/lib/event-occurrences'
 import { 
   Heart, 
   MapPin, 
@@ -28,7 +29,9 @@ export function EventList({ compact = false, limit }: EventListProps) {
   const { mutate: saveEvent, isPending } = useSaveEvent()
   const [processingEvents, setProcessingEvents] = useState<Set<string>>(new Set())
 
-  const displayEvents = limit ? events.slice(0, limit) : events
+  // Multi-date events get one card per date, each linked to the same event
+  const occurrences = expandOccurrences(events)
+  const displayOccurrences = limit ? occurrences.slice(0, limit) : occurrences
 
   const handleSaveEvent = async (event: CalendarEvent) => {
     if (processingEvents.has(event.id)) return
@@ -86,8 +89,8 @@ export function EventList({ compact = false, limit }: EventListProps) {
 
   return (
     <div className="space-y-4">
-      {displayEvents.map((event) => (
-        <Card key={event.id} className="group hover:shadow-md transition-shadow">
+      {displayOccurrences.map(({ key, event, startTime, endTime, index, count }) => (
+        <Card key={key} className="group hover:shadow-md transition-shadow">
           <CardContent className={cn(
             "p-4",
             compact ? "p-3" : "p-6"
@@ -110,13 +113,13 @@ export function EventList({ compact = false, limit }: EventListProps) {
                     )}
 
                     <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground mb-3">
-                      {event.startTime && (
+                      {startTime && (
                         <div className="flex items-center gap-1">
                           <Clock className="w-4 h-4" />
-                          {event.endTime ? 
-                            formatDateRange(event.startTime, event.endTime) : 
-                            formatDate(event.startTime, 'long')
-                          }
+                          {formatDateRange(startTime, endTime, event.dateParse?.timeKnown ?? true)}
+                          {count > 1 && (
+                            <span className="text-xs">(date {index + 1} of {count})</span>
+                          )}
                         </div>
                       )}
                       
@@ -192,7 +195,7 @@ export function EventList({ compact = false, limit }: EventListProps) {
         </Card>
       ))}
 
-      {limit && events.length > limit && (
+      {limit && occurrences.length > limit && (
         <div className="text-center">
           <Button variant="outline">
             View All Events ({events.length})
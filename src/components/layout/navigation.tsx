@@ -13,7 +13,8 @@ import {
   Menu,
   X,
   LogOut,
-  Settings
+  Settings,
+  Shield
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -25,10 +26,15 @@ const navigation = [
   { name: 'Profile', href: '/dashboard/profile', icon: User },
 ]
 
+const adminNavigation = [
+  { name: 'Admin', href: '/dashboard/admin/sources', icon: Shield },
+]
+
 export function Navigation() {
   const [isOpen, setIsOpen] = useState(false)
   const pathname = usePathname()
   const { profile, signOut } = useAuth()
+  const items = profile?.role === 'admin' ? [...navigation, ...adminNavigation] : navigation
 
   const handleSignOut = async () => {
     await signOut()
@@ -46,7 +52,7 @@ export function Navigation() {
 
           {/* Desktop Navigation */}
           <div className="hidden md:flex items-center gap-6">
-            {navigation.map((item) => {
+            {items.map((item) => {
               const isActive = pathname === item.href
               return (
                 <Link
@@ -92,7 +98,7 @@ export function Navigation() {
         {isOpen && (
           <div className="md:hidden py-4 border-t">
             <div className="space-y-2">
-              {navigation.map((item) => {
+              {items.map((item) => {
                 const isActive = pathname === item.href
                 return (
                   <Link
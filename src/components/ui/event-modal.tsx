@@ -7,6 +7,8 @@ import { X, Calendar, MapPin, Clock, ChevronLeft, ChevronRight, ExternalLink, Ta
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { createEventImageGallery, validateImageUrl } from '@/lib/image-fallbacks'
+import { summarizeEventRevisions } from '@/lib/event-revisions'
+import { useEventRevisions } from '@/hooks/use-event-revisions'
 import type { CalendarEvent } from '@/types'
 
 interface EventModalContextType {
@@ -152,9 +154,12 @@ export const EventModalContent = ({
 }) => {
   const { eventData } = useEventModal()
   const [currentImageIndex, setCurrentImageIndex] = useState(0)
+  const { data: revisions = [] } = useEventRevisions(eventData?.id)
 
   if (!eventData) return null
 
+  const revisionSummary = summarizeEventRevisions(revisions)
+
   // Create intelligent image gallery with category-specific fallbacks
   const validatedImageUrl = validateImageUrl(eventData.imageUrl)
   const images = createEventImageGallery(
@@ -282,7 +287,33 @@ export const EventModalContent = ({
                   Saved
                 </Badge>
               )}
+              {eventData.archivedReason && (
+                <Badge variant="outline" className="ml-2">
+                  {eventData.archivedReason === 'past' ? 'Ended' : 'Removed'}
+                </Badge>
+              )}
             </div>
+
+            {/* Changes detected by ingestion */}
+            {(revisionSummary.rescheduled || revisionSummary.venueChanged) && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                {revisionSummary.rescheduled && (
+                  <Badge variant="destructive" className="text-xs">
+                    Rescheduled
+                  </Badge>
+                )}
+                {revisionSummary.venueChanged && (
+                  <Badge variant="destructive" className="text-xs">
+                    Venue changed
+                  </Badge>
+                )}
+                {revisionSummary.lastChangedAt && (
+                  <span className="text-xs text-muted-foreground self-center">
+                    Updated {formatDate(revisionSummary.lastChangedAt)}
+                  </span>
+                )}
+              </div>
+            )}
             
             {/* Categories */}
             {eventData.categories && eventData.categories.length > 0 && (
@@ -335,8 +366,12 @@ export const EventModalContent = ({
               <div>
                 <p className="text-sm text-muted-foreground">Time</p>
                 <p className="font-medium text-foreground">
-                  {formatTime(eventData.startTime)}
-                  {eventData.endTime && ` - ${formatTime(eventData.endTime)}`}
+                  {eventData.dateParse && !eventData.dateParse.timeKnown ? 'Time TBA' : (
+                    <>
+                      {formatTime(eventData.startTime)}
+                      {eventData.endTime && ` - ${formatTime(eventData.endTime)}`}
+                    </>
+                  )}
                 </p>
               </div>
             </div>
@@ -65,6 +65,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           name: (data as any).name || undefined,
           city: (data as any).city || undefined,
           country: (data as any).country || undefined,
+          role: (data as any).role || 'user',
           createdAt: (data as any).created_at,
           updatedAt: (data as any).updated_at,
         })
@@ -0,0 +1,68 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { SourceWithStatus } from '@/lib/admin-sources'
+
+export interface SourceFormValues {
+  id?: string
+  type: SourceWithStatus['type']
+  name: string
+  url: string | null
+  schedule: string | null
+  active: boolean
+}
+
+async function adminFetch<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  })
+  const body = await response.json().catch(() => ({}))
+
+  if (!response.ok && response.status !== 207) {
+    throw new Error(body.error || `Request failed with status ${response.status}`)
+  }
+  return body as T
+}
+
+export function useAdminSources() {
+  return useQuery({
+    queryKey: ['admin-sources'],
+    queryFn: async (): Promise<SourceWithStatus[]> => {
+      const { sources } = await adminFetch<{ sources: SourceWithStatus[] }>('/api/admin/sources')
+      return sources
+    },
+  })
+}
+
+export function useSaveSource() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, values, isNew }: { id: string; values: Partial<SourceFormValues>; isNew: boolean }) => {
+      return isNew
+        ? adminFetch('/api/admin/sources', { method: 'POST', body: JSON.stringify({ ...values, id }) })
+        : adminFetch(`/api/admin/sources/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(values) })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-sources'] })
+    },
+  })
+}
+
+export function useTriggerIngestion() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (sourceId: string) => {
+      return adminFetch<{ eventsProcessed: number; errors: string[] }>(
+        `/api/admin/sources/${encodeURIComponent(sourceId)}/ingest`,
+        { method: 'POST' }
+      )
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-sources'] })
+      queryClient.invalidateQueries({ queryKey: ['events'] })
+    },
+  })
+}
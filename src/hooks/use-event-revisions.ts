@@ -0,0 +1,33 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { EventRevision } from '@/types'
+
+export function useEventRevisions(eventId?: string) {
+  return useQuery({
+    queryKey: ['event-revisions', eventId],
+    queryFn: async (): Promise<EventRevision[]> => {
+      const { data, error } = await supabase
+        .from('event_revisions')
+        .select('*')
+        .eq('event_id', eventId!)
+        .order('created_at', { ascending: false })
+        .limit(20)
+
+      if (error) throw error
+
+      return (data || []).map(revision => ({
+        id: revision.id,
+        eventId: revision.event_id,
+        ingestionRunId: revision.ingestion_run_id || undefined,
+        sourceId: revision.source_id || undefined,
+        changedFields: revision.changed_fields || [],
+        changes: revision.changes || {},
+        createdAt: revision.created_at,
+      }))
+    },
+    enabled: !!eventId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
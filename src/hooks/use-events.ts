@@ -2,6 +2,8 @@
 
 import { useQuery } from '@tanstack/react-query'
 import { supabase } from '@/lib/supabase'
+import { fromOccurrenceRows } from '@/lib/event-occurrences'
+import { applyMergedFields } from '@/lib/event-dedup'
 import type { CalendarEvent } from '@/types'
 
 interface UseEventsOptions {
@@ -14,20 +16,28 @@ interface UseEventsOptions {
       end: Date
     }
   }
+  includeArchived?: boolean
 }
 
 export function useEvents(options: UseEventsOptions = {}) {
   return useQuery({
-    queryKey: ['events', options.filters],
+    queryKey: ['events', options.filters, options.includeArchived],
     queryFn: async (): Promise<CalendarEvent[]> => {
       let query = supabase
         .from('events')
         .select(`
           *,
-          saved_events!left(id, user_id)
+          saved_events!left(id, user_id),
+          event_occurrences(id, event_id, start_time_utc, end_time_utc)
         `)
+        .is('canonical_event_id', null) // Hide duplicates merged into a canonical event
         .order('start_time_utc', { ascending: true })
 
+      // Archived events (stale, past, source removed) are hidden unless asked for
+      if (!options.includeArchived) {
+        query = query.is('archived_at', null)
+      }
+
       // Apply filters
       if (options.filters?.searchQuery) {
         query = query.or(`title.ilike.%${options.filters.searchQuery}%,description.ilike.%${options.filters.searchQuery}%`)
@@ -64,7 +74,7 @@ export function useEvents(options: UseEventsOptions = {}) {
       if (error) throw error
 
       // Transform the data to include saved status
-      return data.map(event => ({
+      return data.map(applyMergedFields).map(event => ({
         id: event.id,
         source: event.source,
         sourceId: event.source_id,
@@ -85,6 +95,12 @@ export function useEvents(options: UseEventsOptions = {}) {
         organizerName: event.organizer_name,
         externalUrl: event.external_url,
         lastSeenAt: event.last_seen_at,
+        sourceUrls: event.source_urls || [],
+        archivedAt: event.archived_at || undefined,
+        archivedReason: event.archived_reason || undefined,
+        occurrences: fromOccurrenceRows(event.event_occurrences || []),
+        dateParse: event.date_parse || undefined,
+        needsReview: event.needs_review,
         isSaved: event.saved_events && event.saved_events.length > 0,
       }))
     },
@@ -0,0 +1,76 @@
+import { createServerClient } from '@supabase/ssr'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import type { NextRequest } from 'next/server'
+import type { Database } from '@/types/database'
+
+/**
+ * Admin pages and APIs; middleware checks the role before these are served
+ */
+export function isAdminPath(pathname: string): boolean {
+  return pathname.startsWith('/dashboard/admin') || pathname.startsWith('/api/admin')
+}
+
+/**
+ * Scheduled jobs call admin APIs with the cron secret instead of a session.
+ * Without a configured CRON_SECRET no request is treated as a cron job.
+ */
+export function hasCronSecret(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    return false
+  }
+
+  return request.headers.get('authorization') === `Bearer ${cronSecret}`
+}
+
+/**
+ * Look up the user's role with a client that carries their session
+ */
+export async function isAdminUser(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', userId)
+    .single()
+
+  return !error && data?.role === 'admin'
+}
+
+/**
+ * Route-level admin check, so admin APIs stay closed even if the middleware
+ * matcher changes
+ */
+export async function authorizeAdminRequest(request: NextRequest): Promise<boolean> {
+  if (hasCronSecret(request)) {
+    return true
+  }
+
+  const cookieStore = await cookies()
+  const supabase = createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value, options }) =>
+            cookieStore.set(name, value, options)
+          )
+        },
+      },
+    }
+  )
+
+  const { data: { user }, error } = await supabase.auth.getUser()
+  if (error || !user) {
+    return false
+  }
+
+  return isAdminUser(supabase, user.id)
+}
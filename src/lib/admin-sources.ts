@@ -0,0 +1,166 @@
+import { createAdminClient } from '@/lib/supabase'
+import { parseSchedule } from '@/lib/ingestion-schedule'
+import type { Database } from '@/types/database'
+
+type SourceRow = Database['public']['Tables']['sources']['Row']
+type SourceInsert = Database['public']['Tables']['sources']['Insert']
+type SourceUpdate = Database['public']['Tables']['sources']['Update']
+type IngestionLogRow = Database['public']['Tables']['ingestion_logs']['Row']
+
+export const SOURCE_TYPES: SourceRow['type'][] = ['rss', 'newsapi', 'web_scraper', 'ical']
+
+// Source ids double as scraper registry ids, so keep them URL and log friendly
+const SOURCE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{1,62}$/
+
+export interface SourceWithStatus extends SourceRow {
+  lastIngestion: {
+    status: IngestionLogRow['status']
+    message: string | null
+    createdAt: string
+  } | null
+}
+
+export type SourceInputResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string }
+
+/**
+ * Validate a create request body
+ */
+export function parseSourceCreate(body: any): SourceInputResult<SourceInsert> {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid request body' }
+  }
+  if (typeof body.id !== 'string' || !SOURCE_ID_PATTERN.test(body.id.trim())) {
+    return { error: 'id must be 2-63 lowercase letters, digits, "-" or "_"' }
+  }
+
+  const update = parseSourceUpdate(body)
+  if (update.error !== undefined) {
+    return { error: update.error }
+  }
+  if (!update.data.type || !update.data.name) {
+    return { error: 'type and name are required' }
+  }
+
+  return {
+    data: {
+      id: body.id.trim(),
+      type: update.data.type,
+      name: update.data.name,
+      url: update.data.url ?? null,
+      active: update.data.active ?? true,
+      schedule: update.data.schedule ?? null
+    }
+  }
+}
+
+/**
+ * Validate an edit request body; only fields present in the body are returned
+ */
+export function parseSourceUpdate(body: any): SourceInputResult<SourceUpdate> {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid request body' }
+  }
+
+  const update: SourceUpdate = {}
+
+  if (body.type !== undefined) {
+    if (!SOURCE_TYPES.includes(body.type)) {
+      return { error: `type must be one of ${SOURCE_TYPES.join(', ')}` }
+    }
+    update.type = body.type
+  }
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'name must be a non-empty string' }
+    }
+    update.name = body.name.trim()
+  }
+
+  if (body.url !== undefined) {
+    if (body.url === null || body.url === '') {
+      update.url = null
+    } else if (typeof body.url !== 'string' || !isHttpUrl(body.url.trim())) {
+      return { error: 'url must be an http(s) URL' }
+    } else {
+      update.url = body.url.trim()
+    }
+  }
+
+  if (body.schedule !== undefined) {
+    if (body.schedule === null || body.schedule === '') {
+      update.schedule = null
+    } else if (typeof body.schedule !== 'string' || !parseSchedule(body.schedule)) {
+      return { error: 'schedule must be an interval like "6h" or a five-field cron expression' }
+    } else {
+      update.schedule = body.schedule.trim()
+    }
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      return { error: 'active must be a boolean' }
+    }
+    update.active = body.active
+  }
+
+  return { data: update }
+}
+
+/**
+ * All sources with the most recent ingestion_logs entry for each
+ */
+export async function listSourcesWithStatus(): Promise<SourceWithStatus[]> {
+  const supabaseAdmin = createAdminClient()
+
+  const { data: sources, error } = await supabaseAdmin
+    .from('sources')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch sources: ${error.message}`)
+  }
+  if (!sources || sources.length === 0) {
+    return []
+  }
+
+  // Each run writes a few rows per source, so a bounded window of recent
+  // logs covers every source that has run lately
+  const { data: logs, error: logsError } = await supabaseAdmin
+    .from('ingestion_logs')
+    .select('*')
+    .in('source_id', sources.map(source => source.id))
+    .order('created_at', { ascending: false })
+    .limit(sources.length * 20)
+
+  if (logsError) {
+    throw new Error(`Failed to fetch ingestion logs: ${logsError.message}`)
+  }
+
+  const latestBySource = new Map<string, IngestionLogRow>()
+  for (const log of logs || []) {
+    if (log.source_id && !latestBySource.has(log.source_id)) {
+      latestBySource.set(log.source_id, log)
+    }
+  }
+
+  return sources.map(source => {
+    const log = latestBySource.get(source.id)
+    return {
+      ...source,
+      lastIngestion: log
+        ? { status: log.status, message: log.message, createdAt: log.created_at }
+        : null
+    }
+  })
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+import { buildFeedUrls, filterFeedEvents, generateFeedToken, hashFeedToken } from './calendar-feed'
+import type { SavedEventWithEvent } from './ical-export'
+
+function savedEvent(id: string, overrides: Partial<NonNullable<SavedEventWithEvent['events']>> = {}): SavedEventWithEvent {
+  return {
+    id: `saved-${id}`,
+    note: null,
+    created_at: '2025-09-01T00:00:00.000Z',
+    events: {
+      id,
+      source: 'web_scraper',
+      source_id: `galaxymacau.com-${id}`,
+      title: 'Jacky Cheung Concert',
+      description: null,
+      long_description: null,
+      start_time_utc: '2025-09-13T12:00:00.000Z',
+      end_time_utc: null,
+      timezone: 'Asia/Macau',
+      venue_name: null,
+      city: 'Macau',
+      country: 'China',
+      lat: null,
+      lng: null,
+      categories: [],
+      tags: [],
+      image_url: null,
+      organizer_name: null,
+      external_url: null,
+      last_seen_at: '2025-09-01T00:00:00.000Z',
+      canonical_event_id: null,
+      source_urls: [],
+      merged_fields: null,
+      content_hash: null,
+      ingestion_source_id: null,
+      archived_at: null,
+      archived_reason: null,
+      date_parse: null,
+      needs_review: false,
+      previous_source_ids: [],
+      ...overrides
+    }
+  }
+}
+
+describe('generateFeedToken', () => {
+  it('returns a url-safe token with its SHA-256 hash', () => {
+    const { token, tokenHash } = generateFeedToken()
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(tokenHash).toBe(hashFeedToken(token))
+    expect(tokenHash).not.toContain(token)
+  })
+
+  it('never repeats a token', () => {
+    expect(generateFeedToken().token).not.toBe(generateFeedToken().token)
+  })
+})
+
+describe('hashFeedToken', () => {
+  it('hashes tokens to hex SHA-256', () => {
+    expect(hashFeedToken('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+})
+
+describe('buildFeedUrls', () => {
+  it('builds https and webcal URLs for the token', () => {
+    expect(buildFeedUrls('https://example.com', 'tok')).toEqual({
+      feedUrl: 'https://example.com/api/calendar/tok.ics',
+      webcalUrl: 'webcal://example.com/api/calendar/tok.ics'
+    })
+  })
+})
+
+describe('filterFeedEvents', () => {
+  const events = [
+    savedEvent('concert', { categories: ['concert'], tags: ['galaxy'] }),
+    savedEvent('expo', { source: 'rss', categories: ['business'] }),
+    savedEvent('show', { categories: ['entertainment'], tags: ['sands'] }),
+    { ...savedEvent('deleted'), events: null }
+  ]
+
+  const ids = (filtered: SavedEventWithEvent[]) => filtered.map(saved => saved.events!.id)
+
+  it('keeps every saved event without filters, dropping deleted events', () => {
+    expect(ids(filterFeedEvents(events, {}))).toEqual(['concert', 'expo', 'show'])
+  })
+
+  it('keeps events in any of the listed categories', () => {
+    expect(ids(filterFeedEvents(events, { categories: ['concert', 'business'] }))).toEqual(['concert', 'expo'])
+  })
+
+  it('matches sources against the source type or a venue tag', () => {
+    expect(ids(filterFeedEvents(events, { sources: ['rss'] }))).toEqual(['expo'])
+    expect(ids(filterFeedEvents(events, { sources: ['galaxy', 'sands'] }))).toEqual(['concert', 'show'])
+  })
+
+  it('requires both filters to match when both are set', () => {
+    expect(ids(filterFeedEvents(events, { categories: ['concert'], sources: ['sands'] }))).toEqual([])
+  })
+
+  it('ignores empty filter values', () => {
+    expect(ids(filterFeedEvents(events, { categories: [''], sources: [] }))).toEqual(['concert', 'expo', 'show'])
+  })
+})
@@ -0,0 +1,62 @@
+import { createHash, randomBytes } from 'crypto'
+import type { SavedEventWithEvent } from '@/lib/ical-export'
+
+const FEED_PATH = '/api/calendar'
+
+export interface CalendarFeedFilters {
+  categories?: string[]
+  sources?: string[]
+}
+
+/**
+ * Generate a new secret feed token and the hash that is stored for it
+ */
+export function generateFeedToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url')
+  return { token, tokenHash: hashFeedToken(token) }
+}
+
+/**
+ * Hash a feed token for lookup; plain tokens are never stored
+ */
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Build the https and webcal URLs a calendar client can subscribe to
+ */
+export function buildFeedUrls(origin: string, token: string): { feedUrl: string; webcalUrl: string } {
+  const feedUrl = `${origin}${FEED_PATH}/${token}.ics`
+  return {
+    feedUrl,
+    webcalUrl: feedUrl.replace(/^https?:\/\//, 'webcal://')
+  }
+}
+
+/**
+ * Keep only saved events matching the feed's category and source filters
+ *
+ * A source filter matches either the event's `source` type (e.g. `rss`) or one
+ * of its tags, which is where Macau scrapers record their venue (e.g. `galaxy`).
+ */
+export function filterFeedEvents(savedEvents: SavedEventWithEvent[], filters: CalendarFeedFilters): SavedEventWithEvent[] {
+  const categories = filters.categories?.filter(Boolean) || []
+  const sources = filters.sources?.filter(Boolean) || []
+
+  return savedEvents.filter(({ events: event }) => {
+    if (!event) {
+      return false
+    }
+
+    if (categories.length > 0 && !event.categories?.some(category => categories.includes(category))) {
+      return false
+    }
+
+    if (sources.length > 0 && !sources.includes(event.source) && !event.tags?.some(tag => sources.includes(tag))) {
+      return false
+    }
+
+    return true
+  })
+}
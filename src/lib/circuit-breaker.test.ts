@@ -0,0 +1,57 @@
+import { checkBreaker, recordBreakerOutcome, type SourceBreaker } from './circuit-breaker'
+
+const closed: SourceBreaker = {
+  state: 'closed',
+  consecutiveFailures: 0,
+  consecutiveEmptyRuns: 0,
+  openedAt: null,
+  nextProbeAt: null
+}
+
+const now = new Date('2025-09-15T00:00:00.000Z')
+
+describe('recordBreakerOutcome', () => {
+  it('opens after three consecutive failures', () => {
+    let breaker = closed
+    breaker = recordBreakerOutcome(breaker, 'failure', now)
+    breaker = recordBreakerOutcome(breaker, 'failure', now)
+    expect(breaker.state).toBe('closed')
+
+    breaker = recordBreakerOutcome(breaker, 'failure', now)
+    expect(breaker).toEqual({
+      state: 'open',
+      consecutiveFailures: 3,
+      consecutiveEmptyRuns: 0,
+      openedAt: '2025-09-15T00:00:00.000Z',
+      nextProbeAt: '2025-09-15T06:00:00.000Z'
+    })
+  })
+
+  it('counts empty runs separately and resets on success', () => {
+    const breaker = recordBreakerOutcome({ ...closed, consecutiveEmptyRuns: 2 }, 'empty', now)
+    expect(breaker.state).toBe('open')
+    expect(recordBreakerOutcome(breaker, 'success', now)).toEqual(closed)
+  })
+
+  it('re-opens a failed probe with a doubled cooldown', () => {
+    const probe: SourceBreaker = { ...closed, state: 'half_open', consecutiveFailures: 3, openedAt: '2025-09-14T00:00:00.000Z' }
+    expect(recordBreakerOutcome(probe, 'failure', now)).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 4,
+      openedAt: '2025-09-14T00:00:00.000Z',
+      nextProbeAt: '2025-09-15T12:00:00.000Z'
+    })
+  })
+})
+
+describe('checkBreaker', () => {
+  it('skips open sources until the cooldown elapses, then probes', () => {
+    const open: SourceBreaker = { ...closed, state: 'open', consecutiveFailures: 3, nextProbeAt: '2025-09-15T06:00:00.000Z' }
+
+    expect(checkBreaker(open, now).allowed).toBe(false)
+
+    const later = checkBreaker(open, new Date('2025-09-15T06:00:00.000Z'))
+    expect(later.allowed).toBe(true)
+    expect(later.breaker.state).toBe('half_open')
+  })
+})
@@ -0,0 +1,101 @@
+import type { Database } from '@/types/database'
+
+type SourceRow = Database['public']['Tables']['sources']['Row']
+
+export type BreakerState = 'closed' | 'open' | 'half_open'
+
+export type SourceRunOutcome = 'success' | 'empty' | 'failure'
+
+/**
+ * Per-source circuit breaker, persisted on the sources row
+ *
+ * closed    - ingest normally
+ * open      - degraded; skipped until next_probe_at
+ * half_open - cooldown elapsed; the next run is a probe that either closes
+ *             the breaker or re-opens it with a longer cooldown
+ */
+export interface SourceBreaker {
+  state: BreakerState
+  consecutiveFailures: number
+  consecutiveEmptyRuns: number
+  openedAt: string | null
+  nextProbeAt: string | null
+}
+
+// Consecutive failed or empty runs before a source is quarantined
+export const FAILURE_THRESHOLD = 3
+export const EMPTY_RUN_THRESHOLD = 3
+
+const BASE_COOLDOWN_MS = 6 * 60 * 60 * 1000
+const MAX_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000
+
+export function breakerFromSource(source: Partial<SourceRow>): SourceBreaker {
+  return {
+    state: source.breaker_state || 'closed',
+    consecutiveFailures: source.consecutive_failures || 0,
+    consecutiveEmptyRuns: source.consecutive_empty_runs || 0,
+    openedAt: source.breaker_opened_at || null,
+    nextProbeAt: source.breaker_next_probe_at || null
+  }
+}
+
+export function breakerToSourceUpdate(breaker: SourceBreaker): Database['public']['Tables']['sources']['Update'] {
+  return {
+    breaker_state: breaker.state,
+    consecutive_failures: breaker.consecutiveFailures,
+    consecutive_empty_runs: breaker.consecutiveEmptyRuns,
+    breaker_opened_at: breaker.openedAt,
+    breaker_next_probe_at: breaker.nextProbeAt
+  }
+}
+
+/**
+ * Decide whether to ingest a source on this run
+ * Returns the breaker to use for the run: an open breaker whose cooldown has
+ * elapsed comes back half-open.
+ */
+export function checkBreaker(breaker: SourceBreaker, now: Date = new Date()): { allowed: boolean; breaker: SourceBreaker } {
+  if (breaker.state !== 'open') {
+    return { allowed: true, breaker }
+  }
+
+  if (breaker.nextProbeAt && Date.parse(breaker.nextProbeAt) <= now.getTime()) {
+    return { allowed: true, breaker: { ...breaker, state: 'half_open' } }
+  }
+
+  return { allowed: false, breaker }
+}
+
+/**
+ * Apply the outcome of a run to the breaker
+ */
+export function recordBreakerOutcome(
+  breaker: SourceBreaker,
+  outcome: SourceRunOutcome,
+  now: Date = new Date()
+): SourceBreaker {
+  if (outcome === 'success') {
+    return { state: 'closed', consecutiveFailures: 0, consecutiveEmptyRuns: 0, openedAt: null, nextProbeAt: null }
+  }
+
+  const consecutiveFailures = outcome === 'failure' ? breaker.consecutiveFailures + 1 : 0
+  const consecutiveEmptyRuns = outcome === 'empty' ? breaker.consecutiveEmptyRuns + 1 : 0
+  const overFailures = consecutiveFailures - FAILURE_THRESHOLD
+  const overEmptyRuns = consecutiveEmptyRuns - EMPTY_RUN_THRESHOLD
+
+  // A failed probe always re-opens, even if the failure type changed
+  if (overFailures < 0 && overEmptyRuns < 0 && breaker.state !== 'half_open') {
+    return { ...breaker, state: 'closed', consecutiveFailures, consecutiveEmptyRuns }
+  }
+
+  // Each failed probe doubles the cooldown
+  const cooldownMs = Math.min(BASE_COOLDOWN_MS * Math.pow(2, Math.max(overFailures, overEmptyRuns, 0)), MAX_COOLDOWN_MS)
+
+  return {
+    state: 'open',
+    consecutiveFailures,
+    consecutiveEmptyRuns,
+    openedAt: breaker.state === 'closed' ? now.toISOString() : breaker.openedAt || now.toISOString(),
+    nextProbeAt: new Date(now.getTime() + cooldownMs).toISOString()
+  }
+}
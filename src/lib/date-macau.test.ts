@@ -0,0 +1,275 @@
+import { canonicalizeEventUrl, createLegacySourceId, createSourceId, describeDateParse, formatMacauDateTime, getMacauNow, parseMacauDate, LOW_DATE_CONFIDENCE } from './date-macau'
+
+// Friday 1 August 2025, noon in Macau
+const REFERENCE = new Date('2025-08-01T04:00:00.000Z')
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterAll(() => {
+  jest.restoreAllMocks()
+})
+
+describe('parseMacauDate', () => {
+  it('parses "15 March 2024" as midnight in Macau', () => {
+    expect(parseMacauDate('15 March 2024', REFERENCE)).toMatchObject({
+      start: '2024-03-14T16:00:00.000Z',
+      end: '2024-03-14T18:00:00.000Z'
+    })
+  })
+
+  it('parses a range "27–28 September 2024" to the end of the last day', () => {
+    expect(parseMacauDate('27–28 September 2024', REFERENCE)).toMatchObject({
+      start: '2024-09-26T16:00:00.000Z',
+      end: '2024-09-28T16:00:00.000Z'
+    })
+  })
+
+  it('parses "March 15, 2024"', () => {
+    expect(parseMacauDate('March 15, 2024', REFERENCE).start).toBe('2024-03-14T16:00:00.000Z')
+  })
+
+  it('converts a Macau time to UTC', () => {
+    expect(parseMacauDate('15 March 2024, 8:00 PM', REFERENCE).start).toBe('2024-03-15T12:00:00.000Z')
+  })
+
+  it('ignores a day of week in parentheses', () => {
+    expect(parseMacauDate('15 March 2024 (Saturday)', REFERENCE).start).toBe('2024-03-14T16:00:00.000Z')
+  })
+
+  it('reads relative dates against the reference date', () => {
+    expect(parseMacauDate('Today', REFERENCE).start).toBe('2025-07-31T16:00:00.000Z')
+    expect(parseMacauDate('Tomorrow', REFERENCE).start).toBe('2025-08-01T16:00:00.000Z')
+  })
+
+  it('infers the year from the reference date', () => {
+    expect(parseMacauDate('Sep 27', REFERENCE).start).toBe('2025-09-26T16:00:00.000Z')
+    expect(parseMacauDate('Sep 27', new Date('2026-01-10T00:00:00.000Z')).start).toBe('2026-09-26T16:00:00.000Z')
+    expect(parseMacauDate('9月13日', new Date('2025-08-28T00:00:00+08:00')).start).toBe('2025-09-12T16:00:00.000Z')
+  })
+
+  it('returns null for text without a date', () => {
+    expect(parseMacauDate('invalid date string', REFERENCE).start).toBeNull()
+    expect(parseMacauDate('', REFERENCE).start).toBeNull()
+  })
+})
+
+describe('parseMacauDate parse info', () => {
+  it('trusts a full date with a time', () => {
+    expect(parseMacauDate('15 March 2026, 8:00 PM', REFERENCE).info).toEqual({
+      rule: 'day_month_year',
+      timeKnown: true,
+      yearInferred: false,
+      endInferred: true,
+      confidence: 1
+    })
+  })
+
+  it('marks a date without a time as time unknown', () => {
+    const { info } = parseMacauDate('2025-09-13', REFERENCE)
+
+    expect(info.rule).toBe('iso_date')
+    expect(info.timeKnown).toBe(false)
+    expect(info.confidence).toBe(0.9)
+  })
+
+  it('lowers confidence when the year is guessed', () => {
+    const { info } = parseMacauDate('Sep 27', REFERENCE)
+
+    expect(info).toMatchObject({ rule: 'month_day', yearInferred: true, confidence: 0.7 })
+    expect(info.confidence).toBeGreaterThanOrEqual(LOW_DATE_CONFIDENCE)
+  })
+
+  it('flags a date moved to next year as low confidence', () => {
+    const parsed = parseMacauDate('Mar 15', REFERENCE)
+
+    expect(parsed.start).toBe('2026-03-14T16:00:00.000Z')
+    expect(parsed.info.confidence).toBe(0.5)
+    expect(parsed.info.confidence).toBeLessThan(LOW_DATE_CONFIDENCE)
+  })
+
+  it('names the rule of MGTO ranges and lists', () => {
+    expect(parseMacauDate('Sep 5-28', REFERENCE).info.rule).toBe('month_day_range')
+    expect(parseMacauDate('Sep 6, 13, 20, Oct 1 & 6', REFERENCE).info.rule).toBe('month_day_list')
+  })
+
+  it('reports zero confidence when nothing could be read', () => {
+    expect(parseMacauDate('Coming soon', REFERENCE)).toEqual({ start: null, info: describeDateParse('none') })
+    expect(describeDateParse('none').confidence).toBe(0)
+  })
+})
+
+describe('parseMacauDate in Chinese and Portuguese', () => {
+  it('reads a full Chinese date', () => {
+    const parsed = parseMacauDate('2025年9月13日', REFERENCE)
+
+    expect(parsed.start).toBe('2025-09-12T16:00:00.000Z')
+    expect(parsed.end).toBe('2025-09-13T16:00:00.000Z')
+    expect(parsed.info).toMatchObject({ rule: 'zh_date', yearInferred: false, timeKnown: false })
+  })
+
+  it('reads a Chinese date inside a headline, with full-width digits and a time', () => {
+    const parsed = parseMacauDate('青年書法比賽１０月１２日晚上8時於塔石體育館舉行', REFERENCE)
+
+    expect(parsed.start).toBe('2025-10-12T12:00:00.000Z')
+    expect(parsed.end).toBe('2025-10-12T14:00:00.000Z')
+    expect(parsed.info).toMatchObject({ rule: 'zh_date', timeKnown: true, yearInferred: true })
+  })
+
+  it('reads traditional and simplified ranges', () => {
+    expect(parseMacauDate('9月6日至28日', REFERENCE)).toMatchObject({
+      start: '2025-09-05T16:00:00.000Z',
+      end: '2025-09-28T16:00:00.000Z',
+      info: { rule: 'zh_date_range' }
+    })
+    expect(parseMacauDate('2025年12月20日至1月5日', REFERENCE).end).toBe('2026-01-05T16:00:00.000Z')
+    expect(parseMacauDate('9月6日（星期六）起至10月5日', REFERENCE).start).toBe('2025-09-05T16:00:00.000Z')
+    expect(parseMacauDate('9月6日到10月5日 下午3时半', REFERENCE).start).toBe('2025-09-06T07:30:00.000Z')
+  })
+
+  it('expands a weekly recurrence within a range into occurrences', () => {
+    const parsed = parseMacauDate('9月6日至28日每逢星期六晚上9時', REFERENCE)
+
+    expect(parsed.occurrences?.map(occurrence => occurrence.start)).toEqual([
+      '2025-09-06T13:00:00.000Z',
+      '2025-09-13T13:00:00.000Z',
+      '2025-09-20T13:00:00.000Z',
+      '2025-09-27T13:00:00.000Z'
+    ])
+    expect(parsed.info.rule).toBe('weekly_range')
+  })
+
+  it('resolves an open weekly recurrence to the next matching day', () => {
+    const parsed = parseMacauDate('每逢星期六、日', REFERENCE)
+
+    expect(parsed.start).toBe('2025-08-01T16:00:00.000Z')
+    expect(parsed.info).toMatchObject({ rule: 'weekly', confidence: 0.6 })
+  })
+
+  it('resolves relative weekdays and closing dates against the reference date', () => {
+    expect(parseMacauDate('下週六', REFERENCE).start).toBe('2025-08-08T16:00:00.000Z')
+    expect(parseMacauDate('展期至9月13日', REFERENCE)).toMatchObject({
+      start: '2025-07-31T16:00:00.000Z',
+      end: '2025-09-13T16:00:00.000Z',
+      info: { rule: 'zh_until' }
+    })
+  })
+
+  it('reads Portuguese dates and ranges', () => {
+    expect(parseMacauDate('13 de Setembro de 2025', REFERENCE)).toMatchObject({
+      start: '2025-09-12T16:00:00.000Z',
+      info: { rule: 'pt_date', yearInferred: false }
+    })
+    expect(parseMacauDate('6 a 28 de Setembro, às 20h00', REFERENCE)).toMatchObject({
+      start: '2025-09-06T12:00:00.000Z',
+      end: '2025-09-28T16:00:00.000Z',
+      info: { rule: 'pt_date_range', timeKnown: true }
+    })
+    expect(parseMacauDate('28 de Março a 5 de Abril de 2026', REFERENCE).end).toBe('2026-04-05T16:00:00.000Z')
+  })
+
+  it('expands Portuguese weekday recurrences within a range', () => {
+    const parsed = parseMacauDate('De 1 a 15 de Agosto, aos sábados e domingos', REFERENCE)
+
+    expect(parsed.occurrences).toHaveLength(4)
+    expect(parsed.info.rule).toBe('weekly_range')
+  })
+})
+
+describe('createSourceId', () => {
+  const show = {
+    hostDomain: 'galaxymacau.com',
+    title: 'Jacky Cheung 60+ Tour',
+    startDate: '2025-09-12T12:00:00.000Z',
+    venue: 'Galaxy Arena',
+    url: 'https://www.galaxymacau.com/ticketing/event/jacky-cheung/',
+    pageUrl: 'https://www.galaxymacau.com/ticketing/event-list/'
+  }
+
+  it('is a SHA-256 based ID under the host domain', () => {
+    expect(createSourceId(show)).toMatch(/^galaxymacau\.com-[0-9a-f]{16}$/)
+    expect(createSourceId(show)).toBe(createSourceId({ ...show }))
+  })
+
+  it('keeps the ID of an event with its own page when its title or time of day changes', () => {
+    expect(createSourceId({ ...show, title: 'Jacky Cheung 60+ World Tour', startDate: '2025-09-12T13:30:00.000Z' }))
+      .toBe(createSourceId(show))
+  })
+
+  it('keeps dated performances that share one event page apart', () => {
+    const performances = ['2025-09-12T12:00:00.000Z', '2025-09-13T12:00:00.000Z', '2025-09-14T07:00:00.000Z']
+      .map(startDate => createSourceId({ ...show, startDate }))
+
+    expect(new Set(performances).size).toBe(3)
+  })
+
+  it('matches different spellings of the same page URL', () => {
+    expect(createSourceId({ ...show, url: 'http://galaxymacau.com/ticketing/event/jacky-cheung?utm_source=newsletter#tickets' }))
+      .toBe(createSourceId(show))
+    expect(createSourceId({ ...show, url: 'https://www.galaxymacau.com/ticketing/event/other-show/' }))
+      .not.toBe(createSourceId(show))
+  })
+
+  it('falls back to title, day and venue when the URL is the listing or the site root', () => {
+    const listed = { ...show, url: show.pageUrl }
+
+    expect(createSourceId(listed)).not.toBe(createSourceId({ ...listed, title: 'Another Show' }))
+    expect(createSourceId({ ...listed, url: 'https://www.galaxymacau.com/' })).toBe(createSourceId(listed))
+  })
+
+  it('ignores case, punctuation and the time of day without a page URL', () => {
+    const listed = { hostDomain: 'example.com', title: 'Test Event', startDate: '2024-03-15T10:00:00Z', venue: 'Test Venue' }
+
+    expect(createSourceId({ ...listed, title: 'test event!!!' })).toBe(createSourceId(listed))
+    expect(createSourceId({ ...listed, startDate: '2024-03-15T12:30:00Z' })).toBe(createSourceId(listed))
+    expect(createSourceId({ ...listed, startDate: '2024-03-16T10:00:00Z' })).not.toBe(createSourceId(listed))
+  })
+
+  it('tells Chinese titles apart', () => {
+    const headline = { hostDomain: 'macaodaily.com', title: '澳門國際音樂節', startDate: '2025-10-03T16:00:00.000Z' }
+
+    expect(createSourceId({ ...headline, title: '青年書法比賽' })).not.toBe(createSourceId(headline))
+    expect(createLegacySourceId({ ...headline, title: '青年書法比賽' })).toBe(createLegacySourceId(headline))
+  })
+})
+
+describe('createLegacySourceId', () => {
+  it('reproduces the 32-bit IDs stored before SHA-256 source IDs', () => {
+    expect(createLegacySourceId({
+      hostDomain: 'example.com',
+      title: 'Test Event',
+      startDate: '2024-03-15T10:00:00Z',
+      venue: 'Test Venue',
+      url: 'https://example.com/events/test-event'
+    })).toBe('example.com-fvm845')
+  })
+})
+
+describe('canonicalizeEventUrl', () => {
+  it('drops the scheme, www, fragment, tracking parameters and trailing slash', () => {
+    expect(canonicalizeEventUrl('https://www.MICE.gov.mo/en/event.aspx?id=42&utm_medium=email&lang=en#map'))
+      .toBe('mice.gov.mo/en/event.aspx?id=42&lang=en')
+    expect(canonicalizeEventUrl('http://mice.gov.mo/en/event.aspx?lang=en&id=42'))
+      .toBe('mice.gov.mo/en/event.aspx?id=42&lang=en')
+  })
+
+  it('rejects anything but an http(s) URL', () => {
+    expect(canonicalizeEventUrl('javascript:void(0)')).toBeNull()
+    expect(canonicalizeEventUrl('/events/42')).toBeNull()
+  })
+})
+
+describe('getMacauNow', () => {
+  it('returns the current time as a UTC ISO string', () => {
+    jest.useFakeTimers({ now: REFERENCE })
+    expect(getMacauNow()).toBe('2025-08-01T04:00:00.000Z')
+    jest.useRealTimers()
+  })
+})
+
+describe('formatMacauDateTime', () => {
+  it('formats a UTC time in Macau time', () => {
+    expect(formatMacauDateTime('2024-03-15T10:00:00.000Z')).toBe('15 March 2024, 18:00 MYT')
+  })
+})
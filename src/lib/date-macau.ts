@@ -1,35 +1,117 @@
+import { createHash } from 'crypto'
 import { DateTime } from 'luxon'
+import type { DateParseInfo, DateParseRule } from '@/types'
 
 const MACAU_TIMEZONE = 'Asia/Macau'
 
+// Below this, ingestion flags the event for review
+export const LOW_DATE_CONFIDENCE = 0.6
+
+// Rules that resolve a date against the reference date ("tomorrow", "每逢星期六", "展期至9月13日")
+// are less certain than an explicit date
+const RULE_CONFIDENCE: Partial<Record<DateParseRule, number>> = {
+  relative: 0.7,
+  weekly: 0.7,
+  zh_until: 0.7,
+  none: 0
+}
+
+const CHINESE_WEEKDAYS: Record<string, number> = { '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '日': 7, '天': 7 }
+
+// Keys are lowercase without accents ("março" -> "marco")
+const PORTUGUESE_MONTHS: Record<string, number> = {
+  janeiro: 1, fevereiro: 2, marco: 3, abril: 4, maio: 5, junho: 6,
+  julho: 7, agosto: 8, setembro: 9, outubro: 10, novembro: 11, dezembro: 12
+}
+
+const PORTUGUESE_WEEKDAYS: Record<string, number> = {
+  segunda: 1, terca: 2, quarta: 3, quinta: 4, sexta: 5, sabado: 6, domingo: 7
+}
+
+// "2025年9月13日", "9月13日", "9月13號"; groups: year, month, day
+const CHINESE_DATE = '(?:(\\d{4})\\s*年\\s*)?(\\d{1,2})\\s*月\\s*(\\d{1,2})\\s*[日號号]'
+// "至28日", "起至10月5日", "到2026年1月3日"; groups: year, month, day
+const CHINESE_RANGE_END = '\\s*起?\\s*(?:至|到|[-－–—~～])\\s*(?:(?:(\\d{4})\\s*年\\s*)?(\\d{1,2})\\s*月\\s*)?(\\d{1,2})\\s*[日號号]'
+// "星期六", "週六", "周六", "禮拜六", "礼拜六"
+const CHINESE_WEEKDAY_PREFIX = '(?:星期|週|周|禮拜|礼拜)'
+const PORTUGUESE_WEEKDAY = `(?:${Object.keys(PORTUGUESE_WEEKDAYS).join('|')})s?(?:-feiras?)?`
+
+export interface ParsedOccurrence {
+  start: string
+  end: string
+}
+
 export interface ParsedDateRange {
   start: string | null
   end?: string | null
+  // Each separate date when the text lists several, e.g. "Sep 6, 13, 20, Oct 1 & 6";
+  // absent for a single date or a continuous range. start/end span all of them.
+  occurrences?: ParsedOccurrence[]
+  info: DateParseInfo
+}
+
+/**
+ * How a date was read, with a confidence score
+ *
+ * Inferring the year costs 0.2, and a further 0.2 when the listed date had
+ * passed so it was moved to next year; a missing time costs 0.1. The default
+ * duration or end-of-day padding is recorded but not penalised.
+ */
+export function describeDateParse(rule: DateParseRule, flags: {
+  timeKnown?: boolean
+  yearInferred?: boolean
+  yearRolledOver?: boolean
+  endInferred?: boolean
+} = {}): DateParseInfo {
+  let confidence = RULE_CONFIDENCE[rule] ?? 1
+  if (confidence > 0) {
+    if (flags.yearInferred) confidence -= 0.2
+    if (flags.yearRolledOver) confidence -= 0.2
+    if (!flags.timeKnown) confidence -= 0.1
+  }
+
+  return {
+    rule,
+    timeKnown: !!flags.timeKnown,
+    yearInferred: !!flags.yearInferred,
+    endInferred: !!flags.endInferred,
+    confidence: Math.max(0, Math.round(confidence * 100) / 100)
+  }
+}
+
+function unparsed(): ParsedDateRange {
+  return { start: null, info: describeDateParse('none') }
 }
 
 /**
  * Parse Macau date strings and convert to UTC ISO strings
- * Handles various formats common in Macau event listings
+ * Handles various formats common in Macau event listings, in English,
+ * Chinese (traditional and simplified) and Portuguese
+ *
+ * @param referenceDate - when the text was published or scraped; missing
+ *   years and relative dates ("tomorrow", "下週六") are resolved against it
  */
-export function parseMacauDate(text: string): ParsedDateRange {
+export function parseMacauDate(text: string, referenceDate: Date = new Date()): ParsedDateRange {
   if (!text?.trim()) {
-    return { start: null }
+    return unparsed()
   }
 
   // Clean the text - remove extra whitespace and common prefixes
   const cleanText = text
     .replace(/^\s*(date|time|when):\s*/i, '')
-    .replace(/\s*\([^)]*\)/g, '') // Remove day-of-week in parentheses like "(Saturday)"
+    .replace(/\s*[(（][^)）]*[)）]/g, '') // Remove day-of-week in parentheses like "(Saturday)" or "（星期六）"
+    .replace(/[０-９：]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xFEE0)) // Full-width digits and colon
     .trim()
 
   console.log(`🗓️  Parsing Macau date: "${cleanText}"`)
+  const now = DateTime.fromJSDate(referenceDate).setZone(MACAU_TIMEZONE)
 
   try {
     // MGTO Special Case 1: Handle "Sep 5-28" format (abbreviated month + day range)
     const mgtoRangeMatch = cleanText.match(/^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+(\d{1,2})-(\d{1,2})$/i)
     if (mgtoRangeMatch) {
       const [, month, startDay, endDay] = mgtoRangeMatch
-      const currentYear = DateTime.now().year
+      const currentYear = now.year
       const nextYear = currentYear + 1
       
       // Try current year first, then next year if date is too far in the past
@@ -37,7 +119,8 @@ export function parseMacauDate(text: string): ParsedDateRange {
       let endDate = DateTime.fromFormat(`${month} ${endDay} ${currentYear}`, 'MMM d yyyy', { zone: MACAU_TIMEZONE })
       
       // If start date is more than 60 days in the past, use next year
-      if (startDate.isValid && startDate < DateTime.now().minus({ days: 60 })) {
+      const yearRolledOver = startDate.isValid && startDate < now.minus({ days: 60 })
+      if (yearRolledOver) {
         startDate = DateTime.fromFormat(`${month} ${startDay} ${nextYear}`, 'MMM d yyyy', { zone: MACAU_TIMEZONE })
         endDate = DateTime.fromFormat(`${month} ${endDay} ${nextYear}`, 'MMM d yyyy', { zone: MACAU_TIMEZONE })
       }
@@ -46,16 +129,18 @@ export function parseMacauDate(text: string): ParsedDateRange {
         console.log(`✅ MGTO range parsed: ${startDate.toISODate()} to ${endDate.toISODate()}`)
         return {
           start: startDate.toUTC().toISO(),
-          end: endDate.plus({ days: 1 }).toUTC().toISO() // End of day
+          end: endDate.plus({ days: 1 }).toUTC().toISO(), // End of day
+          info: describeDateParse('month_day_range', { yearInferred: true, yearRolledOver })
         }
       }
     }
 
     // MGTO Special Case 2: Handle complex multi-date format "Sep 6, 13, 20, Oct 1 & 6"
-    const mgtoMultiDateMatch = cleanText.match(/^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+([\d\s,&]+)(?:\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+([\d\s,&]+))?/i)
+    // Day lists end on a digit so the separator before the second month is not swallowed
+    const mgtoMultiDateMatch = cleanText.match(/^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+([\d\s,&]*\d)(?:[\s,]+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+([\d\s,&]*\d))?/i)
     if (mgtoMultiDateMatch) {
       const [, firstMonth, firstDays, secondMonth, secondDays] = mgtoMultiDateMatch
-      const currentYear = DateTime.now().year
+      const currentYear = now.year
       const nextYear = currentYear + 1
       
       // Extract all day numbers from both months
@@ -76,6 +161,8 @@ export function parseMacauDate(text: string): ParsedDateRange {
       }
       
       if (allDays.length > 0) {
+        let yearRolledOver = false
+
         // Use the first date as start, last date as end
         const sortedDates = allDays
           .map(({month, day}) => {
@@ -83,8 +170,9 @@ export function parseMacauDate(text: string): ParsedDateRange {
             let date = DateTime.fromFormat(`${month} ${day} ${currentYear}`, 'MMM d yyyy', { zone: MACAU_TIMEZONE })
             
             // If date is more than 60 days in the past, use next year
-            if (date.isValid && date < DateTime.now().minus({ days: 60 })) {
+            if (date.isValid && date < now.minus({ days: 60 })) {
               date = DateTime.fromFormat(`${month} ${day} ${nextYear}`, 'MMM d yyyy', { zone: MACAU_TIMEZONE })
+              yearRolledOver = true
             }
             
             return date
@@ -99,11 +187,25 @@ export function parseMacauDate(text: string): ParsedDateRange {
           console.log(`✅ MGTO multi-date parsed: ${sortedDates.length} dates from ${startDate.toISODate()} to ${endDate.toISODate()}`)
           return {
             start: startDate.toUTC().toISO(),
-            end: endDate.plus({ days: 1 }).toUTC().toISO() // End of day
+            end: endDate.plus({ days: 1 }).toUTC().toISO(), // End of day
+            info: describeDateParse(sortedDates.length > 1 ? 'month_day_list' : 'month_day', { yearInferred: true, yearRolledOver }),
+            ...(sortedDates.length > 1 && {
+              occurrences: sortedDates.map(date => ({
+                start: date.toUTC().toISO()!,
+                end: date.plus({ days: 1 }).toUTC().toISO()!
+              }))
+            })
           }
         }
       }
     }
+
+    // Chinese and Portuguese dates, ranges and weekly recurrences
+    const localized = parseLocalizedDate(cleanText, now)
+    if (localized) {
+      return localized
+    }
+
     // Handle date ranges like "27–28 September 2025" or "27-28 September 2025"
     const rangeMatch = cleanText.match(/(\d{1,2})[–-](\d{1,2})\s+(\w+)\s+(\d{4})/i)
     if (rangeMatch) {
@@ -114,19 +216,24 @@ export function parseMacauDate(text: string): ParsedDateRange {
       if (startDate.isValid && endDate.isValid) {
         return {
           start: startDate.toUTC().toISO(),
-          end: endDate.plus({ days: 1 }).toUTC().toISO() // End of day
+          end: endDate.plus({ days: 1 }).toUTC().toISO(), // End of day
+          info: describeDateParse('day_range')
         }
       }
     }
 
     // Handle single dates like "15 March 2025" or "March 15, 2025"
     let singleDate: DateTime | null = null
+    let singleRule: DateParseRule = 'none'
+    let yearInferred = false
+    let yearRolledOver = false
 
     // Try format: "15 March 2025"
     const dmyMatch = cleanText.match(/(\d{1,2})\s+(\w+)\s+(\d{4})/i)
     if (dmyMatch) {
       const [, day, month, year] = dmyMatch
       singleDate = DateTime.fromFormat(`${day} ${month} ${year}`, 'd MMMM yyyy', { zone: MACAU_TIMEZONE })
+      singleRule = 'day_month_year'
     }
 
     // Try format: "March 15, 2025"
@@ -135,6 +242,7 @@ export function parseMacauDate(text: string): ParsedDateRange {
       if (mdyMatch) {
         const [, month, day, year] = mdyMatch
         singleDate = DateTime.fromFormat(`${month} ${day} ${year}`, 'MMMM d yyyy', { zone: MACAU_TIMEZONE })
+        singleRule = 'month_day_year'
       }
     }
 
@@ -143,7 +251,9 @@ export function parseMacauDate(text: string): ParsedDateRange {
       const dmMatch = cleanText.match(/(\d{1,2})\s+(\w+)(?!\s+\d{4})/i)
       if (dmMatch) {
         const [, day, month] = dmMatch
-        const currentYear = DateTime.now().year
+        const currentYear = now.year
+        singleRule = 'day_month'
+        yearInferred = true
         
         // Try both full month name and short month name formats
         singleDate = DateTime.fromFormat(`${day} ${month} ${currentYear}`, 'd MMMM yyyy', { zone: MACAU_TIMEZONE })
@@ -154,7 +264,8 @@ export function parseMacauDate(text: string): ParsedDateRange {
         }
         
         // If the date would be more than 30 days in the past, assume it's next year
-        if (singleDate.isValid && singleDate < DateTime.now().minus({ days: 30 })) {
+        if (singleDate.isValid && singleDate < now.minus({ days: 30 })) {
+          yearRolledOver = true
           singleDate = DateTime.fromFormat(`${day} ${month} ${currentYear + 1}`, 'd MMM yyyy', { zone: MACAU_TIMEZONE })
           
           // If short format failed, try full format for next year
@@ -170,7 +281,10 @@ export function parseMacauDate(text: string): ParsedDateRange {
       const mdMatch = cleanText.match(/(\w+)\s+(\d{1,2})(?!,?\s+\d{4})/i)
       if (mdMatch) {
         const [, month, day] = mdMatch
-        const currentYear = DateTime.now().year
+        const currentYear = now.year
+        singleRule = 'month_day'
+        yearInferred = true
+        yearRolledOver = false
         
         // Try full month name first
         singleDate = DateTime.fromFormat(`${month} ${day} ${currentYear}`, 'MMMM d yyyy', { zone: MACAU_TIMEZONE })
@@ -181,7 +295,8 @@ export function parseMacauDate(text: string): ParsedDateRange {
         }
         
         // If the date would be more than 30 days in the past, assume it's next year
-        if (singleDate.isValid && singleDate < DateTime.now().minus({ days: 30 })) {
+        if (singleDate.isValid && singleDate < now.minus({ days: 30 })) {
+          yearRolledOver = true
           singleDate = DateTime.fromFormat(`${month} ${day} ${currentYear + 1}`, 'MMM d yyyy', { zone: MACAU_TIMEZONE })
           
           // If short format failed, try full format for next year
@@ -197,45 +312,42 @@ export function parseMacauDate(text: string): ParsedDateRange {
       const isoMatch = cleanText.match(/(\d{4})-(\d{1,2})-(\d{1,2})/)
       if (isoMatch) {
         singleDate = DateTime.fromISO(isoMatch[0], { zone: MACAU_TIMEZONE })
+        singleRule = 'iso_date'
       } else {
         const ddmmyyyy = cleanText.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/)
         if (ddmmyyyy) {
           const [, day, month, year] = ddmmyyyy
           singleDate = DateTime.fromFormat(`${day}/${month}/${year}`, 'd/M/yyyy', { zone: MACAU_TIMEZONE })
+          singleRule = 'numeric_date'
         }
       }
+      yearInferred = false
+      yearRolledOver = false
     }
 
     // Try to parse with time if present
-    const timeMatch = cleanText.match(/(\d{1,2}):(\d{2})\s*(am|pm)?/i)
-    if (singleDate?.isValid && timeMatch) {
-      const [, hours, minutes, ampm] = timeMatch
-      let hour24 = parseInt(hours)
-      
-      if (ampm?.toLowerCase() === 'pm' && hour24 !== 12) {
-        hour24 += 12
-      } else if (ampm?.toLowerCase() === 'am' && hour24 === 12) {
-        hour24 = 0
-      }
-      
-      singleDate = singleDate.set({ hour: hour24, minute: parseInt(minutes) })
+    const time = parseTimeOfDay(cleanText)
+    if (singleDate?.isValid && time) {
+      singleDate = singleDate.set(time)
     }
 
     if (singleDate?.isValid) {
       return {
         start: singleDate.toUTC().toISO(),
-        end: singleDate.plus({ hours: 2 }).toUTC().toISO() // Default 2-hour duration
+        end: singleDate.plus({ hours: 2 }).toUTC().toISO(), // Default 2-hour duration
+        info: describeDateParse(singleRule, { timeKnown: !!time, yearInferred, yearRolledOver, endInferred: true })
       }
     }
 
     // Fallback: try relative dates like "Today", "Tomorrow"
-    const today = DateTime.now().setZone(MACAU_TIMEZONE).startOf('day')
+    const today = now.startOf('day')
     const lowerText = cleanText.toLowerCase()
     
     if (lowerText.includes('today')) {
       return {
         start: today.toUTC().toISO(),
-        end: today.plus({ hours: 2 }).toUTC().toISO()
+        end: today.plus({ hours: 2 }).toUTC().toISO(),
+        info: describeDateParse('relative', { endInferred: true })
       }
     }
     
@@ -243,19 +355,282 @@ export function parseMacauDate(text: string): ParsedDateRange {
       const tomorrow = today.plus({ days: 1 })
       return {
         start: tomorrow.toUTC().toISO(),
-        end: tomorrow.plus({ hours: 2 }).toUTC().toISO()
+        end: tomorrow.plus({ hours: 2 }).toUTC().toISO(),
+        info: describeDateParse('relative', { endInferred: true })
       }
     }
 
     // If we can't parse anything, return null
-    return { start: null }
+    return unparsed()
 
   } catch (error) {
     console.warn('Failed to parse Macau date:', cleanText, error)
-    return { start: null }
+    return unparsed()
   }
 }
 
+// Calendar days named by the text, before times and recurrences are applied
+interface DaySpan {
+  start: DateTime   // start of the first day, Macau time
+  end?: DateTime    // start of the last day, inclusive; absent for a single day
+  rule: DateParseRule
+  yearInferred: boolean
+  yearRolledOver: boolean
+}
+
+interface TimeOfDay {
+  hour: number
+  minute: number
+}
+
+/**
+ * Chinese and Portuguese dates: "2025年9月13日", "9月6日至28日", "每逢星期六",
+ * "13 de Setembro de 2025", "6 a 28 de Setembro", "aos sábados"
+ * A weekday recurrence within a range becomes one occurrence per matching day.
+ */
+function parseLocalizedDate(text: string, now: DateTime): ParsedDateRange | null {
+  const folded = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+  const weekdays = matchChineseWeekdays(text) || matchPortugueseWeekdays(folded)
+  const span = matchChineseDates(text, now) || matchPortugueseDates(folded, now) || (!weekdays ? matchChineseRelativeWeekday(text, now) : null)
+  if (!span && !weekdays) {
+    return null
+  }
+
+  const time = parseTimeOfDay(text)
+  const flags = { timeKnown: !!time, yearInferred: span?.yearInferred, yearRolledOver: span?.yearRolledOver }
+  let days: DateTime[] = []
+
+  if (weekdays && span?.end) {
+    for (let day = span.start; day <= span.end; day = day.plus({ days: 1 })) {
+      if (weekdays.includes(day.weekday)) days.push(day)
+    }
+  } else if (weekdays) {
+    let day = span?.start || now.startOf('day')
+    while (!weekdays.includes(day.weekday)) day = day.plus({ days: 1 })
+    days = [day]
+  }
+
+  // A continuous run, or a recurrence that never falls inside its range
+  if (span?.end && days.length === 0) {
+    return {
+      start: (time ? span.start.set(time) : span.start).toUTC().toISO(),
+      end: span.end.plus({ days: 1 }).toUTC().toISO(), // End of day
+      info: describeDateParse(span.rule, flags)
+    }
+  }
+
+  const rule: DateParseRule = !weekdays ? span!.rule : span?.end ? 'weekly_range' : 'weekly'
+  if (days.length === 0) {
+    days = [span!.start]
+  }
+  const info = describeDateParse(rule, { ...flags, endInferred: !!time || !span?.end })
+  const occurrences = days.map(day => {
+    const start = time ? day.set(time) : day
+    return {
+      start: start.toUTC().toISO()!,
+      end: (time ? start.plus({ hours: 2 }) : day.plus({ days: 1 })).toUTC().toISO()! // Default 2-hour duration or whole day
+    }
+  })
+
+  return {
+    start: occurrences[0].start,
+    end: occurrences[occurrences.length - 1].end,
+    info,
+    ...(occurrences.length > 1 && { occurrences })
+  }
+}
+
+/**
+ * Day in Macau time; without a year, the reference year unless that is more
+ * than 30 days before the reference date, as for English dates
+ */
+function resolveDay(now: DateTime, month: number, day: number, year?: number): Omit<DaySpan, 'rule'> | null {
+  if (year) {
+    const date = DateTime.fromObject({ year, month, day }, { zone: MACAU_TIMEZONE })
+    return date.isValid ? { start: date, yearInferred: false, yearRolledOver: false } : null
+  }
+
+  let date = DateTime.fromObject({ year: now.year, month, day }, { zone: MACAU_TIMEZONE })
+  if (!date.isValid) {
+    return null
+  }
+  const yearRolledOver = date < now.minus({ days: 30 })
+  if (yearRolledOver) {
+    date = date.plus({ years: 1 })
+  }
+  return { start: date, yearInferred: true, yearRolledOver }
+}
+
+/**
+ * Last day of a range; an end without a year that falls before the start is in the following year
+ */
+function resolveRangeEnd(start: DateTime, month: number, day: number, year?: number): DateTime | null {
+  let end = DateTime.fromObject({ year: year || start.year, month, day }, { zone: MACAU_TIMEZONE })
+  if (!end.isValid) {
+    return null
+  }
+  if (!year && end < start) {
+    end = end.plus({ years: 1 })
+  }
+  return end >= start ? end : null
+}
+
+function matchChineseDates(text: string, now: DateTime): DaySpan | null {
+  const range = text.match(new RegExp(CHINESE_DATE + CHINESE_RANGE_END))
+  if (range) {
+    const [, startYear, startMonth, startDay, endYear, endMonth, endDay] = range
+    const start = resolveDay(now, parseInt(startMonth), parseInt(startDay), startYear ? parseInt(startYear) : undefined)
+    const end = start && resolveRangeEnd(
+      start.start,
+      endMonth ? parseInt(endMonth) : start.start.month,
+      parseInt(endDay),
+      endYear ? parseInt(endYear) : undefined
+    )
+    if (start && end) {
+      return { ...start, end, rule: 'zh_date_range' }
+    }
+  }
+
+  // "展期至9月13日": runs from the reference date until the given day
+  const until = text.match(new RegExp(`(?:^|[^日號号\\d])(?:至|到)\\s*${CHINESE_DATE}`))
+  if (until && !text.match(new RegExp(CHINESE_DATE + '.*?(?:至|到)'))) {
+    const [, year, month, day] = until
+    const end = resolveDay(now, parseInt(month), parseInt(day), year ? parseInt(year) : undefined)
+    const today = now.startOf('day')
+    if (end && end.start >= today) {
+      return { start: today, end: end.start, rule: 'zh_until', yearInferred: end.yearInferred, yearRolledOver: end.yearRolledOver }
+    }
+  }
+
+  const single = text.match(new RegExp(CHINESE_DATE))
+  if (single) {
+    const [, year, month, day] = single
+    const start = resolveDay(now, parseInt(month), parseInt(day), year ? parseInt(year) : undefined)
+    if (start) {
+      return { ...start, rule: 'zh_date' }
+    }
+  }
+
+  return null
+}
+
+/**
+ * "本週六" (this week's Saturday), "下週六" (next week's), or a bare "週六" for the next one
+ */
+function matchChineseRelativeWeekday(text: string, now: DateTime): DaySpan | null {
+  const match = text.match(new RegExp(`(本|今|這|这|下)?${CHINESE_WEEKDAY_PREFIX}([一二三四五六日天])`))
+  if (!match) {
+    return null
+  }
+
+  const [, which, weekdayChar] = match
+  const today = now.startOf('day')
+  let day = today.set({ weekday: CHINESE_WEEKDAYS[weekdayChar] as 1 | 2 | 3 | 4 | 5 | 6 | 7 })
+  if (which === '下') {
+    day = day.plus({ weeks: 1 })
+  } else if (!which && day < today) {
+    day = day.plus({ weeks: 1 })
+  }
+  return { start: day, rule: 'relative', yearInferred: false, yearRolledOver: false }
+}
+
+/**
+ * "每逢星期六", "逢週六、日", "每周三及五"
+ */
+function matchChineseWeekdays(text: string): number[] | null {
+  const match = text.match(new RegExp(`(?:每逢|逢|每)\\s*${CHINESE_WEEKDAY_PREFIX}([一二三四五六日天](?:\\s*[、及和與与,，]\\s*${CHINESE_WEEKDAY_PREFIX}?[一二三四五六日天])*)`))
+  if (!match) {
+    return null
+  }
+  return Array.from(match[1].matchAll(/[一二三四五六日天]/g), ([char]) => CHINESE_WEEKDAYS[char])
+}
+
+/**
+ * "13 de setembro de 2025", "6 a 28 de setembro", "28 de setembro a 5 de outubro de 2025"
+ * Expects lowercase text without accents.
+ */
+function matchPortugueseDates(folded: string, now: DateTime): DaySpan | null {
+  const monthName = (name?: string) => (name ? PORTUGUESE_MONTHS[name] : undefined)
+
+  const range = folded.match(/(\d{1,2})º?(?:\s+de\s+([a-z]+))?(?:\s+de\s+(\d{4}))?(?:\s+(?:a|ate)\s+|\s*[-–]\s*)(\d{1,2})º?\s+de\s+([a-z]+)(?:\s+de\s+(\d{4}))?/)
+  if (range) {
+    const [, startDay, startMonthName, startYear, endDay, endMonthName, endYear] = range
+    const endMonth = monthName(endMonthName)
+    const startMonth = startMonthName ? monthName(startMonthName) : endMonth
+    const year = startYear || endYear
+    const start = startMonth && endMonth ? resolveDay(now, startMonth, parseInt(startDay), year ? parseInt(year) : undefined) : null
+    const end = start && resolveRangeEnd(start.start, endMonth!, parseInt(endDay), endYear && endYear !== startYear ? parseInt(endYear) : undefined)
+    if (start && end) {
+      return { ...start, end, rule: 'pt_date_range' }
+    }
+  }
+
+  const single = folded.match(/(\d{1,2})º?\s+de\s+([a-z]+)(?:\s+de\s+(\d{4}))?/)
+  const month = monthName(single?.[2])
+  if (single && month) {
+    const start = resolveDay(now, month, parseInt(single[1]), single[3] ? parseInt(single[3]) : undefined)
+    if (start) {
+      return { ...start, rule: 'pt_date' }
+    }
+  }
+
+  return null
+}
+
+/**
+ * "aos sábados", "todas as sextas-feiras", "todos os sábados e domingos"
+ * Expects lowercase text without accents.
+ */
+function matchPortugueseWeekdays(folded: string): number[] | null {
+  const match = folded.match(new RegExp(`\\b(?:todos os|todas as|aos)\\s+(${PORTUGUESE_WEEKDAY}(?:\\s*(?:,|e)\\s*${PORTUGUESE_WEEKDAY})*)`))
+  if (!match) {
+    return null
+  }
+  return Array.from(match[1].matchAll(new RegExp(Object.keys(PORTUGUESE_WEEKDAYS).join('|'), 'g')), ([name]) => PORTUGUESE_WEEKDAYS[name])
+}
+
+/**
+ * Time of day in English, Chinese or Portuguese: "8:00 PM", "20:00",
+ * "晚上8時", "下午3時半", "晚上7點30分", "20h30"
+ */
+function parseTimeOfDay(text: string): TimeOfDay | null {
+  const period = '(凌晨|早上|上午|中午|下午|傍晚|晚上|晚間|晚间|夜間|夜间|晚)?\\s*'
+  const clock = text.match(new RegExp(`${period}(\\d{1,2}):(\\d{2})\\s*(am|pm)?`, 'i'))
+  const chinese = text.match(new RegExp(`${period}(\\d{1,2})\\s*[時时點点](?:\\s*(\\d{1,2})\\s*分|(半))?`))
+  const portuguese = text.match(/\b(\d{1,2})h(\d{2})?\b/i)
+
+  let hour: number
+  let minute: number
+  let meridiem: string | undefined
+  if (clock) {
+    const [, chinesePeriod, hours, minutes, ampm] = clock
+    hour = parseInt(hours)
+    minute = parseInt(minutes)
+    meridiem = ampm?.toLowerCase() || chinesePeriod
+  } else if (chinese) {
+    const [, chinesePeriod, hours, minutes, half] = chinese
+    hour = parseInt(hours)
+    minute = half ? 30 : parseInt(minutes || '0')
+    meridiem = chinesePeriod
+  } else if (portuguese) {
+    hour = parseInt(portuguese[1])
+    minute = parseInt(portuguese[2] || '0')
+  } else {
+    return null
+  }
+
+  if (meridiem === '中午') {
+    // 中午12時 is noon, 中午1時 is 1pm
+    if (hour < 6) hour += 12
+  } else if (meridiem && /^(pm|下午|傍晚|晚|夜)/.test(meridiem)) {
+    if (hour < 12) hour += 12
+  } else if (meridiem && /^(am|凌晨|早上|上午)/.test(meridiem)) {
+    if (hour === 12) hour = 0
+  }
+
+  return hour < 24 && minute < 60 ? { hour, minute } : null
+}
+
 /**
  * Get current time in Macau timezone as UTC ISO string
  */
@@ -272,19 +647,105 @@ export function formatMacauDateTime(utcIsoString: string): string {
 }
 
 /**
- * Create a stable hash-based source ID for events
+ * What identifies a scraped event across runs
+ */
+export interface SourceIdentity {
+  hostDomain: string
+  title: string
+  startDate: string | null
+  venue?: string
+  url?: string        // the event's own page, when the listing links to one
+  pageUrl?: string    // the listing it was scraped from; a url equal to it is not the event's page
+}
+
+// Query parameters that vary between visits to the same page
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|_ga)$/i
+
+/**
+ * Reduce an event page URL to the form that identifies it
+ * Scheme, "www.", the fragment, tracking parameters, parameter order and a
+ * trailing slash are dropped. Returns null for anything but an http(s) URL.
+ */
+export function canonicalizeEventUrl(url: string): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return null
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return null
+  }
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !TRACKING_PARAMS.test(name))
+    .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)
+  const query = new URLSearchParams(params).toString()
+  const path = parsed.pathname.replace(/\/{2,}/g, '/').replace(/\/$/, '')
+
+  return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${path}${query ? `?${query}` : ''}`
+}
+
+/**
+ * Create a stable source ID for a scraped event
+ *
+ * An event with its own page is identified by that page's canonical URL and
+ * the Macau calendar day it starts on, so fixing a typo in its title keeps the
+ * same ID while several dated performances sharing one event or ticket page
+ * stay apart. Otherwise
+ * the ID comes from the title, the Macau calendar day it starts on and the
+ * venue; a time added to a date-only listing keeps the ID, a retitled event
+ * does not. Both are SHA-256 based, in the form "galaxymacau.com-<16 hex>".
  */
-export function createSourceId(title: string, startDate: string | null, venue: string = '', hostDomain: string): string {
-  const normalizedTitle = title.toLowerCase().replace(/[^\w\s]/g, '').trim()
-  const hashInput = `${normalizedTitle}-${startDate || 'no-date'}-${venue.toLowerCase()}-${hostDomain}`
-  
-  // Simple hash function (for production, consider using crypto.subtle or a proper hashing library)
+export function createSourceId(identity: SourceIdentity): string {
+  const eventUrl = identity.url ? canonicalizeEventUrl(identity.url) : null
+  const pageUrl = identity.pageUrl ? canonicalizeEventUrl(identity.pageUrl) : null
+  // Listings without a link fall back to the listing or the site root
+  const isOwnPage = eventUrl !== null && eventUrl !== pageUrl && eventUrl.includes('/')
+
+  const key = isOwnPage
+    ? `url:${eventUrl}|${toMacauDay(identity.startDate)}`
+    : `event:${identity.hostDomain}|${normalizeIdentityText(identity.title)}|${toMacauDay(identity.startDate)}|${normalizeIdentityText(identity.venue || '')}`
+
+  return `${identity.hostDomain}-${createHash('sha256').update(key).digest('hex').slice(0, 16)}`
+}
+
+/**
+ * The ID createSourceId gave an event before IDs were SHA-256 based
+ * Ingestion uses it to find rows stored under the old ID and re-key them, so
+ * their saved_events survive. It hashes to 32 bits and strips every
+ * non-ASCII character, so Chinese titles collided.
+ */
+export function createLegacySourceId(identity: SourceIdentity): string {
+  const normalizedTitle = identity.title.toLowerCase().replace(/[^\w\s]/g, '').trim()
+  const hashInput = `${normalizedTitle}-${identity.startDate || 'no-date'}-${(identity.venue || '').toLowerCase()}-${identity.hostDomain}`
+
   let hash = 0
   for (let i = 0; i < hashInput.length; i++) {
     const char = hashInput.charCodeAt(i)
     hash = ((hash << 5) - hash) + char
     hash = hash & hash // Convert to 32-bit integer
   }
-  
-  return `${hostDomain}-${Math.abs(hash).toString(36)}`
-}
\ No newline at end of file
+
+  return `${identity.hostDomain}-${Math.abs(hash).toString(36)}`
+}
+
+/**
+ * Lowercase letters and digits of any script, with punctuation and spacing
+ * collapsed to single spaces
+ */
+function normalizeIdentityText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^0-9a-z\u00c0-\u024f\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]+/g, ' ')
+    .trim()
+}
+
+function toMacauDay(startDate: string | null): string {
+  if (!startDate) {
+    return 'no-date'
+  }
+  const start = DateTime.fromISO(startDate, { zone: 'utc' })
+  return start.isValid ? start.setZone(MACAU_TIMEZONE).toISODate()! : startDate
+}
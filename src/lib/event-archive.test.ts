@@ -0,0 +1,24 @@
+import { getSavedEventStatus } from './event-archive'
+
+const now = new Date('2025-09-15T00:00:00.000Z')
+
+describe('getSavedEventStatus', () => {
+  const event = {
+    archived_at: null,
+    archived_reason: null,
+    start_time_utc: '2025-09-20T12:00:00.000Z',
+    end_time_utc: null
+  }
+
+  it('shows live events by date', () => {
+    expect(getSavedEventStatus(event, now)).toBe('upcoming')
+    expect(getSavedEventStatus({ ...event, start_time_utc: '2025-09-10T12:00:00.000Z' }, now)).toBe('ended')
+  })
+
+  it('shows archived events as ended or removed by reason', () => {
+    const archivedAt = '2025-09-14T00:00:00.000Z'
+    expect(getSavedEventStatus({ ...event, archived_at: archivedAt, archived_reason: 'past' }, now)).toBe('ended')
+    expect(getSavedEventStatus({ ...event, archived_at: archivedAt, archived_reason: 'stale' }, now)).toBe('removed')
+    expect(getSavedEventStatus({ ...event, archived_at: archivedAt, archived_reason: 'source_removed' }, now)).toBe('removed')
+  })
+})
@@ -0,0 +1,118 @@
+import type { Database } from '@/types/database'
+
+type EventRow = Database['public']['Tables']['events']['Row']
+
+export type ArchiveReason = NonNullable<EventRow['archived_reason']>
+
+export const ARCHIVE_REASONS: ArchiveReason[] = ['stale', 'past', 'source_removed', 'manual']
+
+// Archived because ingestion stopped seeing them, so seeing them again revives them.
+// Past and manually archived events stay archived.
+const REVIVABLE_REASONS: ArchiveReason[] = ['stale', 'source_removed']
+
+// Ids per .in() filter, keeping request URLs well under server limits
+const ARCHIVE_CHUNK_SIZE = 200
+
+export type SavedEventStatus = 'upcoming' | 'ended' | 'removed'
+
+/**
+ * How a saved event should be presented in the user's saved list
+ */
+export function getSavedEventStatus(
+  event: Pick<EventRow, 'archived_at' | 'archived_reason' | 'start_time_utc' | 'end_time_utc'>,
+  now: Date = new Date()
+): SavedEventStatus {
+  if (event.archived_at && event.archived_reason !== 'past') {
+    return 'removed'
+  }
+
+  const end = event.end_time_utc || event.start_time_utc
+  if (event.archived_at || (end && Date.parse(end) < now.getTime())) {
+    return 'ended'
+  }
+  return 'upcoming'
+}
+
+/**
+ * Archive events, keeping the rows so saved_events stay intact
+ * Already archived events keep their original reason. Duplicates linked to
+ * an archived event are unlinked so they show again; the next duplicate
+ * merge picks a new canonical among them.
+ */
+export async function archiveEvents(supabaseAdmin: any, eventIds: string[], reason: ArchiveReason): Promise<number> {
+  let archived = 0
+  const archivedAt = new Date().toISOString()
+
+  for (let i = 0; i < eventIds.length; i += ARCHIVE_CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('events')
+      .update({ archived_at: archivedAt, archived_reason: reason })
+      .in('id', eventIds.slice(i, i + ARCHIVE_CHUNK_SIZE))
+      .is('archived_at', null)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to archive events: ${error.message}`)
+    }
+    archived += (data || []).length
+    await unlinkDuplicates(supabaseAdmin, (data || []).map((row: { id: string }) => row.id))
+  }
+
+  return archived
+}
+
+/**
+ * Clear canonical_event_id on live rows that point at the given events
+ */
+export async function unlinkDuplicates(supabaseAdmin: any, canonicalIds: string[]): Promise<void> {
+  if (canonicalIds.length === 0) {
+    return
+  }
+
+  const { error } = await supabaseAdmin
+    .from('events')
+    .update({ canonical_event_id: null })
+    .in('canonical_event_id', canonicalIds)
+    .is('archived_at', null)
+
+  if (error) {
+    throw new Error(`Failed to unlink duplicates of archived events: ${error.message}`)
+  }
+}
+
+/**
+ * Restore archived events, returning the ids that were restored
+ */
+export async function restoreEvents(supabaseAdmin: any, eventIds: string[]): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('events')
+    .update({ archived_at: null, archived_reason: null })
+    .in('id', eventIds)
+    .not('archived_at', 'is', null)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to restore events: ${error.message}`)
+  }
+  return (data || []).map((row: { id: string }) => row.id)
+}
+
+/**
+ * Revive events that ingestion has seen again after they were archived as
+ * stale or because their source was removed
+ */
+export async function reviveSeenEvents(supabaseAdmin: any, eventIds: string[]): Promise<void> {
+  if (eventIds.length === 0) {
+    return
+  }
+
+  const { error } = await supabaseAdmin
+    .from('events')
+    .update({ archived_at: null, archived_reason: null })
+    .in('id', eventIds)
+    .in('archived_reason', REVIVABLE_REASONS)
+
+  if (error) {
+    console.warn(`Failed to revive ${eventIds.length} re-seen events:`, error.message)
+  }
+}
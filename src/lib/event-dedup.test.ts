@@ -0,0 +1,172 @@
+import { applyMergedFields, findDuplicateClusters, matchEvents, isLikelyDuplicate, mergeDuplicateFields, normalizeEventTitle } from './event-dedup'
+import type { Database } from '@/types/database'
+
+type EventRow = Database['public']['Tables']['events']['Row']
+
+function row(overrides: Partial<EventRow>): EventRow {
+  return {
+    id: 'id',
+    source: 'web_scraper',
+    source_id: 'source-id',
+    title: 'Untitled',
+    description: null,
+    long_description: null,
+    start_time_utc: '2025-09-13T12:00:00.000Z',
+    end_time_utc: null,
+    timezone: 'Asia/Macau',
+    venue_name: null,
+    city: 'Macau',
+    country: 'China',
+    lat: null,
+    lng: null,
+    categories: [],
+    tags: [],
+    image_url: null,
+    organizer_name: null,
+    external_url: null,
+    last_seen_at: '2025-09-01T00:00:00.000Z',
+    canonical_event_id: null,
+    source_urls: [],
+    merged_fields: null,
+    content_hash: null,
+    ingestion_source_id: null,
+    archived_at: null,
+    archived_reason: null,
+    date_parse: null,
+    needs_review: false,
+    previous_source_ids: [],
+    ...overrides
+  }
+}
+
+describe('normalizeEventTitle', () => {
+  it('drops punctuation, years and filler words and simplifies Chinese', () => {
+    expect(normalizeEventTitle('JACKY CHEUNG 60+ Tour 2025 – Live in Macau!')).toBe('jacky cheung 60')
+    expect(normalizeEventTitle('澳門國際煙花比賽匯演')).toBe(normalizeEventTitle('澳门国际烟花比赛匯演'))
+  })
+})
+
+describe('matchEvents', () => {
+  it('matches bilingual titles on either language', () => {
+    const match = matchEvents(
+      row({ title: '張學友 Jacky Cheung 60+ Tour', venue_name: 'Cotai Arena' }),
+      row({ title: 'Jacky Cheung 60+ Tour 2025', venue_name: 'Cotai Arena, The Venetian Macao', start_time_utc: '2025-09-13T11:30:00.000Z' })
+    )
+
+    expect(match.titleSimilarity).toBe(1)
+    expect(match.venueSimilarity).toBe(1)
+    expect(isLikelyDuplicate(match)).toBe(true)
+  })
+
+  it('does not match the same show on different days', () => {
+    const match = matchEvents(
+      row({ title: 'Swan Lake' }),
+      row({ title: 'Swan Lake', start_time_utc: '2025-09-14T12:00:00.000Z' })
+    )
+
+    expect(match.timeOverlap).toBe(false)
+    expect(isLikelyDuplicate(match)).toBe(false)
+  })
+})
+
+describe('findDuplicateClusters', () => {
+  it('keeps an existing canonical event and adds new duplicates to it', () => {
+    const canonical = row({ id: 'a', ingestion_source_id: 'mgto', title: 'Macau Food Festival', venue_name: 'Sai Van Lake Square' })
+    const linked = row({ id: 'b', ingestion_source_id: 'mice', title: 'Food Festival', canonical_event_id: 'a' })
+    const incoming = row({ id: 'c', ingestion_source_id: 'macau-daily', title: 'Macau Food Festival 2025', venue_name: 'Sai Van Lake Square', image_url: 'https://img/c.jpg' })
+    const unrelated = row({ id: 'd', ingestion_source_id: 'galaxy', title: 'Grand Prix' })
+
+    const clusters = findDuplicateClusters([incoming, unrelated, linked, canonical])
+
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0].canonical.id).toBe('a')
+    expect(clusters[0].duplicates.map(event => event.id).sort()).toEqual(['b', 'c'])
+  })
+
+  it('never merges two listings from the same source', () => {
+    const matinee = row({ id: 'a', ingestion_source_id: 'galaxy', title: 'Swan Lake', venue_name: 'Galaxy Arena' })
+    const evening = row({ id: 'b', ingestion_source_id: 'galaxy', title: 'Swan Lake', venue_name: 'Galaxy Arena', start_time_utc: '2025-09-13T13:00:00.000Z' })
+    const listing = row({ id: 'c', ingestion_source_id: 'mgto', title: 'Swan Lake', venue_name: 'Galaxy Arena' })
+
+    const clusters = findDuplicateClusters([matinee, evening, listing])
+
+    expect(clusters).toHaveLength(1)
+    expect([clusters[0].canonical, ...clusters[0].duplicates].map(event => event.id).sort()).toEqual(['a', 'c'])
+  })
+
+  it('tells rows without a configured source apart by source type', () => {
+    const clusters = findDuplicateClusters([
+      row({ id: 'a', source: 'rss', title: 'Swan Lake' }),
+      row({ id: 'b', source: 'rss', title: 'Swan Lake' })
+    ])
+
+    expect(clusters).toEqual([])
+  })
+})
+
+describe('mergeDuplicateFields', () => {
+  it('fills gaps from duplicates and collects every source URL', () => {
+    const canonical = row({ id: 'a', description: 'Short', external_url: 'https://mgto/a' })
+    const duplicate = row({
+      id: 'b',
+      description: 'Other',
+      long_description: 'A much longer description',
+      image_url: 'https://img/b.jpg',
+      end_time_utc: '2025-09-13T14:00:00.000Z',
+      external_url: 'https://venetian/b'
+    })
+
+    expect(mergeDuplicateFields(canonical, [duplicate])).toEqual({
+      end_time_utc: '2025-09-13T14:00:00.000Z',
+      image_url: 'https://img/b.jpg',
+      long_description: 'A much longer description',
+      source_urls: ['https://mgto/a', 'https://venetian/b']
+    })
+  })
+
+  it('takes the longest description and venue and the most confident times', () => {
+    const canonical = row({
+      id: 'a',
+      description: 'Fireworks',
+      venue_name: 'Macau Tower',
+      start_time_utc: '2025-09-06T16:00:00.000Z',
+      end_time_utc: '2025-09-06T18:00:00.000Z',
+      date_parse: { rule: 'zh_date', timeKnown: false, yearInferred: true, endInferred: true, confidence: 0.7 },
+      organizer_name: 'Macau Daily'
+    })
+    const duplicate = row({
+      id: 'b',
+      description: 'International fireworks display contest, two teams a night',
+      venue_name: 'Macau Tower Convention & Entertainment Centre',
+      start_time_utc: '2025-09-06T13:00:00.000Z',
+      end_time_utc: '2025-09-06T14:00:00.000Z',
+      date_parse: { rule: 'schema_org', timeKnown: true, yearInferred: false, endInferred: false, confidence: 1 },
+      organizer_name: 'MGTO'
+    })
+
+    expect(mergeDuplicateFields(canonical, [duplicate])).toEqual({
+      description: 'International fireworks display contest, two teams a night',
+      venue_name: 'Macau Tower Convention & Entertainment Centre',
+      start_time_utc: '2025-09-06T13:00:00.000Z',
+      end_time_utc: '2025-09-06T14:00:00.000Z',
+      date_parse: duplicate.date_parse
+    })
+  })
+})
+
+describe('applyMergedFields', () => {
+  it('shows merged values over the row\'s own columns', () => {
+    const canonical = row({
+      id: 'a',
+      description: 'Fireworks',
+      venue_name: 'Macau Tower',
+      merged_fields: { description: 'International fireworks display contest' }
+    })
+
+    expect(applyMergedFields(canonical)).toMatchObject({
+      description: 'International fireworks display contest',
+      venue_name: 'Macau Tower'
+    })
+    expect(applyMergedFields(row({ id: 'b', description: 'Own' })).description).toBe('Own')
+  })
+})
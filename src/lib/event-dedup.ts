@@ -0,0 +1,367 @@
+import type { Database, MergedEventFields } from '@/types/database'
+
+type EventRow = Database['public']['Tables']['events']['Row']
+type EventUpdate = Database['public']['Tables']['events']['Update']
+
+export interface EventMatch {
+  titleSimilarity: number
+  venueSimilarity: number | null // null when either side has no venue
+  timeOverlap: boolean
+}
+
+export interface DuplicateCluster {
+  canonical: EventRow
+  duplicates: EventRow[]
+}
+
+// Events without an end time are assumed to last this long when checking overlap
+const DEFAULT_DURATION_MS = 3 * 60 * 60 * 1000
+// Listings for the same show often disagree on door vs. show time
+const TIME_TOLERANCE_MS = 2 * 60 * 60 * 1000
+
+// Common Traditional -> Simplified characters in Macau event titles, so
+// zh-Hant and zh-Hans listings of the same event compare equal
+const TRADITIONAL_TO_SIMPLIFIED: Record<string, string> = {
+  '門': '门', '會': '会', '節': '节', '樂': '乐', '藝': '艺', '術': '术', '劇': '剧',
+  '覽': '览', '館': '馆', '國': '国', '際': '际', '華': '华', '電': '电', '場': '场',
+  '號': '号', '慶': '庆', '燈': '灯', '歡': '欢', '東': '东', '來': '来', '們': '们',
+  '與': '与', '為': '为', '聲': '声', '體': '体', '學': '学', '經': '经', '車': '车',
+  '賽': '赛', '舉': '举', '辦': '办', '團': '团', '創': '创', '蓮': '莲', '灣': '湾',
+  '龍': '龙', '鳳': '凤', '書': '书', '畫': '画', '時': '时', '間': '间', '週': '周',
+  '個': '个', '萬': '万', '師': '师', '動': '动', '風': '风', '發': '发', '現': '现',
+  '實': '实', '戲': '戏', '話': '话', '愛': '爱', '夢': '梦', '鄉': '乡', '陽': '阳',
+  '賞': '赏', '煙': '烟', '奧': '奥', '運': '运', '紀': '纪', '親': '亲',
+  '線': '线', '輪': '轮', '魚': '鱼', '鳥': '鸟', '雙': '双', '島': '岛', '氹': '凼'
+}
+
+// Words that say nothing about which event a title refers to
+const TITLE_STOP_WORDS = new Set([
+  'the', 'a', 'an', 'of', 'at', 'in', 'and', 'live', 'macau', 'macao', 'show', 'concert',
+  'tour', 'presents', 'present', 'world', 'edition'
+])
+
+const VENUE_STOP_WORDS = new Set(['the', 'macau', 'macao', 'at', 'of', 'hotel', 'resort', 'cotai'])
+
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/
+// Anything other than Latin (incl. accented) letters, digits and CJK
+const NON_WORD_PATTERN = /[^a-z0-9\u00c0-\u024f\u3400-\u9fff\uf900-\ufaff\s]/g
+
+/**
+ * Normalize a title for matching: NFKC, lower case, Simplified Chinese,
+ * no punctuation, years or stop words
+ */
+export function normalizeEventTitle(title: string): string {
+  return toSimplified(title.normalize('NFKC').toLowerCase())
+    .replace(/\b(19|20)\d{2}\b/g, ' ')
+    .replace(NON_WORD_PATTERN, ' ')
+    .split(/\s+/)
+    .filter(word => word && !TITLE_STOP_WORDS.has(word))
+    .join(' ')
+}
+
+/**
+ * Compare two events on title, time window and venue
+ */
+export function matchEvents(a: Partial<EventRow>, b: Partial<EventRow>): EventMatch {
+  return {
+    titleSimilarity: titleSimilarity(a.title || '', b.title || ''),
+    venueSimilarity: a.venue_name && b.venue_name ? venueSimilarity(a.venue_name, b.venue_name) : null,
+    timeOverlap: timeWindowsOverlap(a, b)
+  }
+}
+
+/**
+ * Decide whether two rows describe the same real-world event
+ */
+export function isLikelyDuplicate(match: EventMatch): boolean {
+  if (!match.timeOverlap) {
+    return false
+  }
+  if (match.titleSimilarity >= 0.8) {
+    return match.venueSimilarity === null || match.venueSimilarity >= 0.2
+  }
+  return match.titleSimilarity >= 0.5 && match.venueSimilarity !== null && match.venueSimilarity >= 0.5
+}
+
+/**
+ * Group events that describe the same real-world event
+ *
+ * Rows already linked to a canonical event keep that canonical. A cluster
+ * never joins two rows from the same source, since one source listing an event
+ * twice means two performances rather than a duplicate. Only clusters with at
+ * least one duplicate are returned.
+ */
+export function findDuplicateClusters(events: EventRow[]): DuplicateCluster[] {
+  const byId = new Map(events.map(event => [event.id, event]))
+  const parent = new Map(events.map(event => [event.id, event.id]))
+
+  const find = (id: string): string => {
+    let root = id
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!
+    }
+    parent.set(id, root)
+    return root
+  }
+  // Sources present in each cluster, keyed by its root
+  const sources = new Map(events.map(event => [event.id, new Set([sourceKey(event)])]))
+  const union = (a: string, b: string) => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) {
+      parent.set(rootB, rootA)
+      sources.get(rootB)!.forEach(source => sources.get(rootA)!.add(source))
+    }
+  }
+  const shareSource = (a: string, b: string) => {
+    const sourcesB = sources.get(find(b))!
+    return Array.from(sources.get(find(a))!).some(source => sourcesB.has(source))
+  }
+
+  // Existing links
+  for (const event of events) {
+    if (event.canonical_event_id && byId.has(event.canonical_event_id)) {
+      union(event.canonical_event_id, event.id)
+    }
+  }
+
+  // Pairwise comparison within a sliding time window
+  const timed = events
+    .filter(event => event.start_time_utc)
+    .sort((a, b) => Date.parse(a.start_time_utc!) - Date.parse(b.start_time_utc!))
+
+  for (let i = 0; i < timed.length; i++) {
+    const windowEnd = eventEnd(timed[i]) + TIME_TOLERANCE_MS
+    for (let j = i + 1; j < timed.length && Date.parse(timed[j].start_time_utc!) <= windowEnd; j++) {
+      if (
+        find(timed[i].id) !== find(timed[j].id) &&
+        !shareSource(timed[i].id, timed[j].id) &&
+        isLikelyDuplicate(matchEvents(timed[i], timed[j]))
+      ) {
+        union(timed[i].id, timed[j].id)
+      }
+    }
+  }
+
+  const groups = new Map<string, EventRow[]>()
+  for (const event of events) {
+    const root = find(event.id)
+    groups.set(root, [...(groups.get(root) || []), event])
+  }
+
+  const clusters: DuplicateCluster[] = []
+  groups.forEach(members => {
+    if (members.length < 2) {
+      return
+    }
+    const canonical = pickCanonical(members)
+    clusters.push({ canonical, duplicates: members.filter(member => member.id !== canonical.id) })
+  })
+
+  return clusters
+}
+
+/**
+ * Take the best value of each field from the canonical event and its
+ * duplicates, and collect every contributing source URL
+ *
+ * Descriptions and venues take the longest text, times come from the most
+ * confident date parse, and other fields keep the canonical value unless it
+ * is empty. Returns only the columns that need updating.
+ */
+export function mergeDuplicateFields(canonical: EventRow, duplicates: EventRow[]): EventUpdate {
+  const update: EventUpdate = {}
+  const members = [canonical, ...[...duplicates].sort((a, b) => completenessScore(b) - completenessScore(a))]
+  const set = <K extends keyof EventUpdate>(field: K, value: EventUpdate[K]) => {
+    if (value !== canonical[field as keyof EventRow]) {
+      update[field] = value
+    }
+  }
+
+  for (const field of ['description', 'long_description', 'venue_name'] as const) {
+    const longest = members
+      .map(event => event[field] || '')
+      .reduce((best, text) => (text.trim().length > best.trim().length ? text : best), '')
+    if (longest) {
+      set(field, longest)
+    }
+  }
+
+  // Sort is stable, so the canonical event wins ties
+  const timing = [...members].sort((a, b) =>
+    dateConfidence(b) - dateConfidence(a) ||
+    Number(!!b.end_time_utc) - Number(!!a.end_time_utc)
+  )[0]
+  if (timing !== canonical) {
+    set('start_time_utc', timing.start_time_utc)
+    set('end_time_utc', timing.end_time_utc)
+    set('date_parse', timing.date_parse)
+  }
+
+  // Coordinates only make sense as a pair
+  const located = members.find(event => event.lat !== null && event.lng !== null)
+  if (located && located !== canonical) {
+    set('lat', located.lat)
+    set('lng', located.lng)
+  }
+
+  for (const field of ['image_url', 'organizer_name', 'external_url'] as const) {
+    const donor = members.find(event => !isEmpty(event[field]))
+    if (donor) {
+      set(field, donor[field])
+    }
+  }
+
+  const sourceUrls = unique([
+    ...(canonical.source_urls || []),
+    canonical.external_url,
+    ...duplicates.flatMap(duplicate => [...(duplicate.source_urls || []), duplicate.external_url])
+  ])
+  if (sourceUrls.join('\n') !== (canonical.source_urls || []).join('\n')) {
+    update.source_urls = sourceUrls
+  }
+
+  return update
+}
+
+/**
+ * A row with the values duplicate merging chose shown over its own columns
+ */
+export function applyMergedFields<T extends { merged_fields?: MergedEventFields | null }>(row: T): T {
+  return row.merged_fields ? { ...row, ...row.merged_fields } : row
+}
+
+function pickCanonical(members: EventRow[]): EventRow {
+  const existing = members.find(member =>
+    !member.canonical_event_id && members.some(other => other.canonical_event_id === member.id)
+  )
+  if (existing) {
+    return existing
+  }
+
+  return [...members].sort((a, b) =>
+    completenessScore(b) - completenessScore(a) ||
+    Date.parse(a.last_seen_at) - Date.parse(b.last_seen_at) ||
+    a.id.localeCompare(b.id)
+  )[0]
+}
+
+// Rows from configured sources are told apart by source; others by source type
+function sourceKey(event: EventRow): string {
+  return event.ingestion_source_id ? `source:${event.ingestion_source_id}` : `type:${event.source}`
+}
+
+// Rows without a date parse came from structured dates (feeds, JSON-LD)
+function dateConfidence(event: EventRow): number {
+  return event.date_parse ? event.date_parse.confidence : 1
+}
+
+function completenessScore(event: EventRow): number {
+  return [
+    event.description,
+    event.long_description,
+    event.end_time_utc,
+    event.venue_name,
+    event.image_url,
+    event.organizer_name,
+    event.external_url
+  ].filter(value => !isEmpty(value)).length + Math.min((event.long_description || '').length / 1000, 1)
+}
+
+function titleSimilarity(a: string, b: string): number {
+  const left = normalizeEventTitle(a)
+  const right = normalizeEventTitle(b)
+  if (!left || !right) {
+    return 0
+  }
+  if (left === right) {
+    return 1
+  }
+
+  // Bilingual titles ("張學友 Jacky Cheung 60+") should match either half,
+  // so compare the Chinese and Latin parts separately and keep the best
+  const scores = [
+    jaccard(cjkBigrams(left), cjkBigrams(right)),
+    jaccard(latinWords(left), latinWords(right))
+  ]
+  return Math.max(...scores)
+}
+
+function venueSimilarity(a: string, b: string): number {
+  const tokens = (value: string) => new Set(
+    toSimplified(value.normalize('NFKC').toLowerCase())
+      .replace(NON_WORD_PATTERN, ' ')
+      .split(/\s+/)
+      .filter(word => word && !VENUE_STOP_WORDS.has(word))
+  )
+  const left = new Set([...tokens(a), ...cjkBigrams(a)])
+  const right = new Set([...tokens(b), ...cjkBigrams(b)])
+  if (left.size === 0 || right.size === 0) {
+    return 0
+  }
+
+  // "Cotai Arena" vs "Cotai Arena, The Venetian Macao" is the same venue
+  let shared = 0
+  left.forEach(token => {
+    if (right.has(token)) {
+      shared++
+    }
+  })
+  return shared / Math.min(left.size, right.size)
+}
+
+function timeWindowsOverlap(a: Partial<EventRow>, b: Partial<EventRow>): boolean {
+  if (!a.start_time_utc || !b.start_time_utc) {
+    return false
+  }
+  const startA = Date.parse(a.start_time_utc)
+  const startB = Date.parse(b.start_time_utc)
+  return startA <= eventEnd(b) + TIME_TOLERANCE_MS && startB <= eventEnd(a) + TIME_TOLERANCE_MS
+}
+
+function eventEnd(event: Partial<EventRow>): number {
+  const start = Date.parse(event.start_time_utc!)
+  const end = event.end_time_utc ? Date.parse(event.end_time_utc) : NaN
+  return isNaN(end) || end < start ? start + DEFAULT_DURATION_MS : end
+}
+
+function cjkBigrams(text: string): Set<string> {
+  const characters = Array.from(toSimplified(text)).filter(character => CJK_PATTERN.test(character))
+  const bigrams = new Set<string>()
+  if (characters.length === 1) {
+    bigrams.add(characters[0])
+  }
+  for (let i = 0; i < characters.length - 1; i++) {
+    bigrams.add(characters[i] + characters[i + 1])
+  }
+  return bigrams
+}
+
+function latinWords(text: string): Set<string> {
+  return new Set(text.split(/\s+/).filter(word => word && !CJK_PATTERN.test(word)))
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0
+  }
+  let shared = 0
+  a.forEach(item => {
+    if (b.has(item)) {
+      shared++
+    }
+  })
+  return shared / (a.size + b.size - shared)
+}
+
+function toSimplified(text: string): string {
+  return Array.from(text).map(character => TRADITIONAL_TO_SIMPLIFIED[character] || character).join('')
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '')
+}
+
+function unique(values: Array<string | null | undefined>): string[] {
+  return values.filter((value, index): value is string => !!value && values.indexOf(value) === index)
+}
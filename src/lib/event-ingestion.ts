@@ -1,30 +1,128 @@
+import { createHash, randomUUID } from 'crypto'
 import { createAdminClient } from '@/lib/supabase'
 import { parseRSSFeed } from '@/lib/rss-parser'
+import { parseICalFeed } from '@/lib/ical-parser'
 import { fetchNewsAPIEvents } from '@/lib/newsapi-client'
 import { scrapeEventsFromWebsite } from '@/lib/web-scraper'
 import { scrapeMacauDailyStructuredEvents } from '@/lib/macau-daily-structured-scraper'
 import { macauCoordinator } from '@/lib/scrapers/macau-coordinator'
-import type { Event } from '@/types'
+import { isRegisteredScraper } from '@/lib/scrapers/registry'
+import { diffEventFields, type EventFieldChanges } from '@/lib/event-revisions'
+import { findDuplicateClusters, mergeDuplicateFields } from '@/lib/event-dedup'
+import { pickLegacyRow } from '@/lib/legacy-event-match'
+import { startIngestionRun, recordSourceRun, finishIngestionRun, getLastSourceRunTimes, getRecentSourceCounts, type SourceRunRecord } from '@/lib/ingestion-runs'
+import { detectCountDrop, type SourceHealthWarning } from '@/lib/source-health'
+import { archiveEvents, reviveSeenEvents, unlinkDuplicates } from '@/lib/event-archive'
+import { replaceEventOccurrences } from '@/lib/event-occurrences'
+import { isSourceDue } from '@/lib/ingestion-schedule'
+import { LOW_DATE_CONFIDENCE } from '@/lib/date-macau'
+import { breakerFromSource, breakerToSourceUpdate, checkBreaker, recordBreakerOutcome, type SourceBreaker } from '@/lib/circuit-breaker'
+import { ScraperError } from '@/lib/scrapers/types'
+import { configureScraperSnapshots, snapshotOptionsFromEnv } from '@/lib/scrapers/snapshot-archive'
+import { validateEvent, countRejections, formatRejection, type EventRejection } from '@/lib/scrapers/validation'
+import type { Event, EventOccurrence } from '@/types'
+import type { Database, MergedEventFields } from '@/types/database'
+
+type EventInsert = Database['public']['Tables']['events']['Insert']
+type EventRow = Database['public']['Tables']['events']['Row']
+type EventUpdate = Database['public']['Tables']['events']['Update']
+
+interface IngestionRowError {
+  sourceId: string          // sources table id
+  eventSourceId?: string    // the event's source_id, when it has one
+  title?: string
+  message: string
+}
 
 interface IngestionResult {
   success: boolean
+  runId: string
   eventsProcessed: number
   eventsAdded: number
   eventsUpdated: number
+  eventsUnchanged: number
+  eventsMerged: number
   errors: string[]
+  rowErrors: IngestionRowError[]
+  rejections: EventRejection[]  // events dropped by schema validation
+  sources: SourceRunRecord[]
+  circuitBreakers: Record<string, SourceBreaker>  // keyed by source id, after this run
+  quarantinedSources: string[]                    // skipped because their breaker is open
+  warnings: SourceHealthWarning[]
+  dryRun: boolean
+  preview: SourcePreview[]  // only filled in dry runs
+  wouldArchive: StaleEventPreview[]  // dry runs: everything stale cleanup would archive after this run
 }
 
-export async function ingestEventsFromAllSources(sourceFilter?: string[] | null): Promise<IngestionResult> {
+interface StaleEventPreview {
+  id: string
+  title: string
+  lastSeenAt: string
+  sourceId: string  // ingestion_source_id
+}
+
+/**
+ * What a dry run would have written for one source
+ */
+interface SourcePreview {
+  sourceId: string
+  wouldInsert: EventInsert[]
+  wouldUpdate: Array<{ id: string; row: EventInsert; changes: EventFieldChanges }>
+  wouldArchive: Array<{ id: string; title: string; lastSeenAt: string }>
+  unchanged: number
+  warnings: string[]
+}
+
+interface IngestionOptions {
+  // Manual triggers from the admin page run even while the breaker is open
+  ignoreCircuitBreaker?: boolean
+  // Fetch and diff everything but write nothing to Supabase
+  dryRun?: boolean
+}
+
+// Events not seen for this long are archived by cleanupStaleEvents
+export const STALE_EVENT_DAYS = 30
+
+// Rows per upsert round trip
+const UPSERT_CHUNK_SIZE = 100
+
+// Duplicate merging looks at events starting up to this far ahead
+const DUPLICATE_MERGE_WINDOW_DAYS = 90
+// Rows per page when loading events for duplicate merging
+const DUPLICATE_MERGE_PAGE_SIZE = 1000
+
+export async function ingestEventsFromAllSources(
+  sourceFilter?: string[] | null,
+  options: IngestionOptions = {}
+): Promise<IngestionResult> {
   const results: IngestionResult = {
     success: true,
+    runId: randomUUID(),
     eventsProcessed: 0,
     eventsAdded: 0,
     eventsUpdated: 0,
-    errors: []
+    eventsUnchanged: 0,
+    eventsMerged: 0,
+    errors: [],
+    rowErrors: [],
+    rejections: [],
+    sources: [],
+    circuitBreakers: {},
+    quarantinedSources: [],
+    warnings: [],
+    dryRun: !!options.dryRun,
+    preview: [],
+    wouldArchive: []
   }
+  const runStartedAt = Date.now()
+  let supabaseAdmin: ReturnType<typeof createAdminClient> | null = null
 
   try {
-    const supabaseAdmin = createAdminClient()
+    supabaseAdmin = createAdminClient()
+    configureScraperSnapshots(snapshotOptionsFromEnv(process.env, supabaseAdmin.storage))
+    if (!options.dryRun) {
+      await startIngestionRun(supabaseAdmin, results.runId, sourceFilter)
+    }
 
     // Get active sources, optionally filtered by sourceFilter
     let query = supabaseAdmin
@@ -45,38 +143,97 @@ export async function ingestEventsFromAllSources(sourceFilter?: string[] | null)
       return results
     }
 
+    // Ids that match no active source would otherwise be dropped silently
+    const unknownSourceIds = (sourceFilter || [])
+      .filter(id => !(sources || []).some((source: { id: string }) => source.id === id))
+    if (unknownSourceIds.length > 0) {
+      results.errors.push(`Unknown or inactive sources: ${unknownSourceIds.join(', ')}`)
+    }
+
     if (!sources || sources.length === 0) {
       results.errors.push('No active sources found')
       return results
     }
 
+    // Events this run saw; a dry run does not touch their last_seen_at
+    const seenEventIds = new Set<string>()
+
     // Process each source
     for (const source of sources) {
-      await logIngestionStart(supabaseAdmin, source.id)
+      const check = checkBreaker(breakerFromSource(source))
+      results.circuitBreakers[source.id] = check.breaker
+
+      if (!check.allowed && !options.ignoreCircuitBreaker) {
+        console.log(`⏸️ Skipping ${source.id}: circuit breaker open until ${check.breaker.nextProbeAt}`)
+        results.quarantinedSources.push(source.id)
+        continue
+      }
+
+      if (!options.dryRun) {
+        await logIngestionStart(supabaseAdmin, source.id)
+      }
+
+      const sourceStartedAt = Date.now()
+      const preview: SourcePreview | null = options.dryRun
+        ? { sourceId: source.id, wouldInsert: [], wouldUpdate: [], wouldArchive: [], unchanged: 0, warnings: [] }
+        : null
+      const record: SourceRunRecord = {
+        sourceId: source.id,
+        status: 'success',
+        startedAt: new Date(sourceStartedAt).toISOString(),
+        durationMs: 0,
+        rawCount: 0,
+        normalizedCount: 0,
+        added: 0,
+        updated: 0,
+        skipped: 0,
+        errorCount: 0,
+        usedBrowserFallback: false,
+        errorBreakdown: {},
+        baselineCount: null,
+        anomalous: false,
+        rejectedCount: 0,
+        rejectionBreakdown: {}
+      }
 
       try {
         let events: Partial<Event>[] = []
+        let rawCount: number | null = null
+        const rejections: EventRejection[] = []
 
         if (source.type === 'rss' && source.url) {
           events = await parseRSSFeed(source.url, source.name)
         } else if (source.type === 'newsapi') {
           events = await fetchNewsAPIEvents()
+        } else if (source.type === 'ical' && source.url) {
+          events = await parseICalFeed(source.url, source.name)
         } else if (source.type === 'web_scraper') {
           // Handle different web scraper types
           if (source.url?.includes('macaodaily.com')) {
             // Existing Macau Daily scraper
-            events = (await scrapeMacauDailyStructuredEvents()).events
-          } else if (['mgto', 'londoner', 'venetian', 'galaxy', 'mice', 'broadway'].includes(source.id)) {
-            // New Macau scrapers
+            const result = await scrapeMacauDailyStructuredEvents()
+            if (!result.success) {
+              throw new Error(result.errors.join('; '))
+            }
+            events = result.events
+          } else if (isRegisteredScraper(source.id)) {
+            // Registered Macau scrapers
             try {
-              const rawEvents = await macauCoordinator.fetchEventsFromSource(
-                source.id as 'mgto' | 'londoner' | 'venetian' | 'galaxy' | 'mice' | 'broadway'
-              )
-              events = macauCoordinator.normalizeEvents(rawEvents)
+              const rawEvents = await macauCoordinator.fetchEventsFromSource(source.id)
+              rawCount = rawEvents.length
+              const normalized = macauCoordinator.normalizeEventsWithRejections(rawEvents)
+              events = normalized.events
+              rejections.push(...normalized.rejections.map(rejection => ({ ...rejection, sourceId: source.id })))
               console.log(`${source.id}: Normalized ${rawEvents.length} raw events to ${events.length} events`)
             } catch (error) {
               console.error(`Error with Macau scraper ${source.id}:`, error)
               throw error
+            } finally {
+              const stats = macauCoordinator.getRunStats(source.id)
+              if (stats) {
+                record.usedBrowserFallback = stats.usedBrowser
+                record.errorBreakdown = { ...stats.errorsByType }
+              }
             }
           } else if (source.url) {
             // Fallback to generic web scraper for other sources
@@ -102,35 +259,145 @@ export async function ingestEventsFromAllSources(sourceFilter?: string[] | null)
           }
         }
 
+        // Feeds and other scrapers return already-normalized events
+        record.rawCount = rawCount ?? events.length
+
+        // Nothing reaches the database without passing the Event schema
+        events = events.filter(event => {
+          const validation = validateEvent(event)
+          if (validation.reasons !== undefined) {
+            rejections.push({
+              sourceId: source.id,
+              stage: 'normalized',
+              eventSourceId: event.sourceId || undefined,
+              title: event.title || undefined,
+              reasons: validation.reasons
+            })
+          }
+          return validation.reasons === undefined
+        })
+
+        record.normalizedCount = events.length
+        record.rejectedCount = rejections.length
+        record.rejectionBreakdown = countRejections(rejections)
+        results.rejections.push(...rejections)
+        preview?.warnings.push(...rejections.map(formatRejection))
+        if (rejections.length > 0) {
+          console.warn(`${source.id}: rejected ${rejections.length} events`, record.rejectionBreakdown)
+        }
+
         if (events.length === 0) {
-          await logIngestionResult(supabaseAdmin, source.id, 'success', 'No events found')
+          record.message = 'No events found'
+          if (!options.dryRun) {
+            await logIngestionResult(supabaseAdmin, source.id, 'success', 'No events found')
+          }
           continue
         }
 
-        // Process events in batches
-        const batchSize = 10
-        for (let i = 0; i < events.length; i += batchSize) {
-          const batch = events.slice(i, i + batchSize)
-          const batchResult = await processBatch(supabaseAdmin, batch)
-          
+        // Upsert events in chunks
+        for (let i = 0; i < events.length; i += UPSERT_CHUNK_SIZE) {
+          const batch = events.slice(i, i + UPSERT_CHUNK_SIZE)
+          const context = { runId: results.runId, sourceId: source.id }
+          const plan = await planBatch(supabaseAdmin, batch, context)
+          const batchResult = preview
+            ? previewBatchPlan(plan, preview)
+            : await applyBatchPlan(supabaseAdmin, plan, context)
+
+          plan.unchangedIds.forEach(id => seenEventIds.add(id))
+          plan.updates.forEach(update => seenEventIds.add(update.existing.id))
+
           results.eventsProcessed += batchResult.processed
           results.eventsAdded += batchResult.added
           results.eventsUpdated += batchResult.updated
-          results.errors.push(...batchResult.errors)
+          results.eventsUnchanged += batchResult.unchanged
+          record.added += batchResult.added
+          record.updated += batchResult.updated
+          record.skipped += batchResult.unchanged
+          record.errorCount += batchResult.rowErrors.length
+          results.rowErrors.push(...batchResult.rowErrors)
+          results.errors.push(...batchResult.rowErrors.map(rowError =>
+            rowError.title ? `${rowError.message}: ${rowError.title}` : rowError.message
+          ))
         }
 
-        await logIngestionResult(
-          supabaseAdmin,
-          source.id, 
-          'success', 
-          `Processed ${events.length} events`
-        )
+        record.message = `Processed ${events.length} events`
+        if (!options.dryRun) {
+          await logIngestionResult(
+            supabaseAdmin,
+            source.id, 
+            'success', 
+            `Processed ${events.length} events`
+          )
+        }
 
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error'
         results.success = false
         results.errors.push(`Source ${source.name}: ${errorMessage}`)
-        await logIngestionResult(supabaseAdmin, source.id, 'failed', errorMessage)
+        if (!options.dryRun) {
+          await logIngestionResult(supabaseAdmin, source.id, 'failed', errorMessage)
+        }
+
+        // Scraper request errors are already counted by type; count anything else once
+        const errorType = error instanceof ScraperError ? error.type : 'UNKNOWN'
+        if (!record.errorBreakdown[errorType]) {
+          record.errorBreakdown[errorType] = 1
+        }
+        record.status = 'failed'
+        record.message = errorMessage
+      } finally {
+        record.durationMs = Date.now() - sourceStartedAt
+        record.errorCount += Object.values(record.errorBreakdown).reduce((sum, count) => sum + count, 0)
+
+        // A "successful" run with far fewer events than usual usually means the site changed
+        if (record.status === 'success') {
+          const anomaly = detectCountDrop(record.normalizedCount, await getRecentSourceCounts(supabaseAdmin, source.id))
+          if (anomaly) {
+            record.baselineCount = anomaly.baseline
+            record.anomalous = true
+            results.warnings.push({
+              sourceId: source.id,
+              count: anomaly.count,
+              baseline: anomaly.baseline,
+              message: `${source.name} returned ${anomaly.count} events, usually ~${Math.round(anomaly.baseline)}`
+            })
+          }
+        }
+
+        results.sources.push(record)
+
+        const outcome = record.status === 'failed' ? 'failure' : record.normalizedCount === 0 ? 'empty' : 'success'
+        const breaker = recordBreakerOutcome(check.breaker, outcome)
+        results.circuitBreakers[source.id] = breaker
+
+        if (preview) {
+          results.preview.push(preview)
+        } else {
+          await recordSourceRun(supabaseAdmin, results.runId, record)
+          await saveSourceBreaker(supabaseAdmin, source.id, breaker)
+        }
+      }
+    }
+
+    if (options.dryRun) {
+      try {
+        results.wouldArchive = await previewStaleCleanup(supabaseAdmin, results, seenEventIds)
+        for (const preview of results.preview) {
+          preview.wouldArchive = results.wouldArchive
+            .filter(event => event.sourceId === preview.sourceId)
+            .map(({ id, title, lastSeenAt }) => ({ id, title, lastSeenAt }))
+        }
+      } catch (error) {
+        results.errors.push(`Stale event preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    // Link the same event reported by several sources to one canonical row
+    if (!options.dryRun) {
+      try {
+        results.eventsMerged = await mergeDuplicateEvents(supabaseAdmin)
+      } catch (error) {
+        results.errors.push(`Duplicate merge failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
       }
     }
 
@@ -139,111 +406,699 @@ export async function ingestEventsFromAllSources(sourceFilter?: string[] | null)
     results.success = false
     results.errors.push(`Ingestion failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
     return results
+  } finally {
+    if (supabaseAdmin && !options.dryRun) {
+      const failedSources = results.sources.filter(source => source.status === 'failed').length
+      await finishIngestionRun(supabaseAdmin, results.runId, {
+        status: !results.success && failedSources === results.sources.length
+          ? 'failed'
+          : results.errors.length > 0 ? 'partial' : 'success',
+        startedAt: runStartedAt,
+        eventsProcessed: results.eventsProcessed,
+        eventsAdded: results.eventsAdded,
+        eventsUpdated: results.eventsUpdated,
+        eventsUnchanged: results.eventsUnchanged,
+        eventsMerged: results.eventsMerged,
+        errorCount: results.errors.length
+      })
+    }
   }
 }
 
-async function processBatch(supabaseAdmin: any, events: Partial<Event>[]): Promise<{
+interface PlannedWrite {
+  event: Partial<Event>
+  row: EventInsert
+  existing?: any
+  changes?: EventFieldChanges  // field-level diff against the existing row
+}
+
+/**
+ * What writing one chunk of events would do; computed without writing
+ */
+interface BatchPlan {
+  inserts: PlannedWrite[]
+  updates: PlannedWrite[]
+  unchangedIds: string[]
+  archivedSeenIds: string[]  // archived rows the source reported again
+  rekeys: EventRekey[]       // rows stored under an event's legacy source_id or ID prefix
+  rowErrors: IngestionRowError[]
+}
+
+interface EventRekey {
+  id: string
+  sourceId: string
+  previousSourceIds: string[]
+}
+
+interface BatchResult {
   processed: number
   added: number
   updated: number
-  errors: string[]
-}> {
-  const result = {
+  unchanged: number
+  rowErrors: IngestionRowError[]
+}
+
+function rowErrorFor(sourceId: string, event: Partial<Event>, message: string): IngestionRowError {
+  return {
+    sourceId,
+    eventSourceId: event.sourceId,
+    title: event.title,
+    message
+  }
+}
+
+/**
+ * Work out which events in a chunk are new, changed or unchanged
+ *
+ * Existing rows are loaded in one query to tell inserts from updates and to
+ * diff fields for revisions. Nothing is written, so dry runs use this too.
+ */
+async function planBatch(
+  supabaseAdmin: any,
+  events: Partial<Event>[],
+  context: { runId: string; sourceId: string }
+): Promise<BatchPlan> {
+  const plan: BatchPlan = {
+    inserts: [],
+    updates: [],
+    unchangedIds: [],
+    archivedSeenIds: [],
+    rekeys: [],
+    rowErrors: []
+  }
+
+  // Build rows, keeping the last occurrence of any repeated source_id
+  const rowsByKey = new Map<string, { event: Partial<Event>; row: EventInsert }>()
+  for (const event of events) {
+    if (!event.sourceId || !event.title || !event.source) {
+      plan.rowErrors.push(rowErrorFor(context.sourceId, event, 'Event missing required fields'))
+      continue
+    }
+    const key = `${event.source}:${event.sourceId}`
+    if (rowsByKey.has(key)) {
+      plan.rowErrors.push(rowErrorFor(context.sourceId, rowsByKey.get(key)!.event, 'Duplicate event skipped'))
+    }
+    rowsByKey.set(key, { event, row: buildEventRow(event, context.sourceId) })
+  }
+
+  if (rowsByKey.size === 0) {
+    return plan
+  }
+
+  const entries = Array.from(rowsByKey.values())
+  const { data: existingRows, error: selectError } = await supabaseAdmin
+    .from('events')
+    .select('*')
+    .in('source_id', entries.map(entry => entry.row.source_id))
+
+  if (selectError) {
+    plan.rowErrors.push(...entries.map(entry =>
+      rowErrorFor(context.sourceId, entry.event, `Failed to load existing event: ${selectError.message}`)
+    ))
+    return plan
+  }
+
+  const existingByKey = new Map<string, any>(
+    (existingRows || []).map((existing: any) => [`${existing.source}:${existing.source_id}`, existing])
+  )
+
+  // Events not yet stored under their SHA-256 source_id may be stored under
+  // the legacy one; that row is re-keyed so its id, and saved_events, survive
+  const legacyIds = entries
+    .filter(entry => entry.event.legacySourceId && !existingByKey.has(`${entry.row.source}:${entry.row.source_id}`))
+    .map(entry => entry.event.legacySourceId!)
+  const legacyByKey = new Map<string, any>()
+  if (legacyIds.length > 0) {
+    const { data: legacyRows, error: legacyError } = await supabaseAdmin
+      .from('events')
+      .select('*')
+      .in('source_id', legacyIds)
+
+    if (legacyError) {
+      plan.rowErrors.push(...entries.map(entry =>
+        rowErrorFor(context.sourceId, entry.event, `Failed to load existing event: ${legacyError.message}`)
+      ))
+      return plan
+    }
+    for (const legacy of legacyRows || []) {
+      legacyByKey.set(`${legacy.source}:${legacy.source_id}`, legacy)
+    }
+  }
+
+  // Scrapers that used throwaway IDs before can only be matched on URL and title
+  const prefixed = entries.filter(entry =>
+    entry.event.legacySourceIdPrefix &&
+    entry.event.externalUrl &&
+    !existingByKey.has(`${entry.row.source}:${entry.row.source_id}`)
+  )
+  const prefixCandidates: EventRow[] = []
+  for (const prefix of Array.from(new Set(prefixed.map(entry => entry.event.legacySourceIdPrefix!)))) {
+    const { data: candidateRows, error: candidateError } = await supabaseAdmin
+      .from('events')
+      .select('*')
+      .like('source_id', `${prefix}%`)
+      .in('external_url', Array.from(new Set(prefixed.map(entry => entry.event.externalUrl!))))
+
+    if (candidateError) {
+      plan.rowErrors.push(...entries.map(entry =>
+        rowErrorFor(context.sourceId, entry.event, `Failed to load existing event: ${candidateError.message}`)
+      ))
+      return plan
+    }
+    prefixCandidates.push(...(candidateRows || []))
+  }
+
+  const rekeyedIds = new Set<string>()
+  for (const { event, row } of entries) {
+    let existing = existingByKey.get(`${row.source}:${row.source_id}`)
+    let legacy = existing ? undefined : legacyByKey.get(`${row.source}:${event.legacySourceId}`)
+    if (!existing && !legacy && event.legacySourceIdPrefix) {
+      legacy = pickLegacyRow(
+        event,
+        prefixCandidates.filter(candidate =>
+          candidate.source === row.source && candidate.source_id.startsWith(event.legacySourceIdPrefix!)
+        ),
+        rekeyedIds
+      )
+    }
+    // Legacy IDs collided, so only the first event claims a legacy row
+    if (legacy && !rekeyedIds.has(legacy.id)) {
+      existing = legacy
+      rekeyedIds.add(legacy.id)
+      plan.rekeys.push({
+        id: legacy.id,
+        sourceId: row.source_id,
+        previousSourceIds: [...(legacy.previous_source_ids || []), legacy.source_id]
+      })
+    }
+    if (existing?.archived_at) {
+      plan.archivedSeenIds.push(existing.id)
+    }
+    if (!existing) {
+      plan.inserts.push({ event, row })
+    } else if (existing.content_hash === row.content_hash) {
+      plan.unchangedIds.push(existing.id)
+    } else {
+      const changes = diffEventFields(existing, withoutUnsetFields(event, row))
+      plan.updates.push({ event, row, existing, changes })
+    }
+  }
+
+  return plan
+}
+
+/**
+ * Write a planned chunk with a single upsert on (source, source_id)
+ * Rows whose content hash is unchanged are not rewritten; only their
+ * last_seen_at is bumped.
+ */
+async function applyBatchPlan(
+  supabaseAdmin: any,
+  plan: BatchPlan,
+  context: { runId: string; sourceId: string }
+): Promise<BatchResult> {
+  const result: BatchResult = {
     processed: 0,
     added: 0,
     updated: 0,
-    errors: []
+    unchanged: 0,
+    rowErrors: [...plan.rowErrors]
   }
+  const now = new Date().toISOString()
 
-  for (const event of events) {
-    try {
-      if (!event.sourceId || !event.title) {
-        result.errors.push('Event missing required fields')
+  // Unchanged rows still count as seen for stale-event cleanup
+  if (plan.unchangedIds.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('events')
+      .update({ last_seen_at: now, ingestion_source_id: context.sourceId })
+      .in('id', plan.unchangedIds)
+
+    if (error) {
+      console.warn(`Failed to refresh last_seen_at for ${plan.unchangedIds.length} unchanged events:`, error.message)
+    }
+  }
+  result.unchanged += plan.unchangedIds.length
+  result.processed += plan.unchangedIds.length
+
+  await reviveSeenEvents(supabaseAdmin, plan.archivedSeenIds)
+
+  // A row that kept its legacy source_id would be duplicated by the upsert
+  const failedRekeys = await rekeyEventRows(supabaseAdmin, plan.rekeys)
+  const toWrite = [...plan.inserts, ...plan.updates].filter(item => {
+    const rekeyError = item.existing && failedRekeys.get(item.existing.id)
+    if (rekeyError) {
+      result.rowErrors.push(rowErrorFor(context.sourceId, item.event, `Failed to re-key event: ${rekeyError}`))
+    }
+    return !rekeyError
+  })
+  if (toWrite.length === 0) {
+    return result
+  }
+
+  const written = await upsertEventRows(supabaseAdmin, toWrite.map(item => ({ ...item.row, last_seen_at: now })))
+
+  const revisions: Array<{ eventId: string; changes: EventFieldChanges }> = []
+  const writtenItems: PlannedWrite[] = []
+  toWrite.forEach((item, index) => {
+    const outcome = written[index]
+    if (outcome.error) {
+      result.rowErrors.push(rowErrorFor(context.sourceId, item.event, outcome.error))
+      return
+    }
+
+    writtenItems.push(item)
+    result.processed++
+    if (item.existing) {
+      result.updated++
+      if (item.changes && Object.keys(item.changes).length > 0) {
+        revisions.push({ eventId: item.existing.id, changes: item.changes })
+      }
+    } else {
+      result.added++
+    }
+  })
+
+  if (revisions.length > 0) {
+    await recordEventRevisions(supabaseAdmin, revisions, context)
+  }
+
+  try {
+    await syncEventOccurrences(supabaseAdmin, writtenItems)
+  } catch (error) {
+    console.warn(`Failed to save occurrences for ${context.sourceId}:`, error instanceof Error ? error.message : error)
+  }
+
+  return result
+}
+
+/**
+ * Move rows from their legacy source_id to the SHA-256 one, remembering the
+ * old IDs in previous_source_ids
+ * Returns the error message of each row that could not be moved.
+ */
+async function rekeyEventRows(supabaseAdmin: any, rekeys: EventRekey[]): Promise<Map<string, string>> {
+  const failed = new Map<string, string>()
+
+  for (const rekey of rekeys) {
+    const { error } = await supabaseAdmin
+      .from('events')
+      .update({ source_id: rekey.sourceId, previous_source_ids: rekey.previousSourceIds })
+      .eq('id', rekey.id)
+
+    if (error) {
+      failed.set(rekey.id, error.message)
+    }
+  }
+
+  return failed
+}
+
+/**
+ * Store the occurrences of written events, clearing those of updated events
+ * that no longer list separate dates
+ * New events are looked up by source_id, since the upsert returns no ids.
+ */
+async function syncEventOccurrences(supabaseAdmin: any, items: PlannedWrite[]): Promise<void> {
+  const occurrencesByEventId = new Map<string, EventOccurrence[]>()
+  const newEvents = new Map<string, EventOccurrence[]>()
+
+  for (const item of items) {
+    const occurrences = item.event.occurrences || []
+    if (item.existing) {
+      occurrencesByEventId.set(item.existing.id, occurrences)
+    } else if (occurrences.length > 0) {
+      newEvents.set(`${item.row.source}:${item.row.source_id}`, occurrences)
+    }
+  }
+
+  if (newEvents.size > 0) {
+    const { data, error } = await supabaseAdmin
+      .from('events')
+      .select('id, source, source_id')
+      .in('source_id', Array.from(newEvents.keys()).map(key => key.slice(key.indexOf(':') + 1)))
+
+    if (error) {
+      throw new Error(`Failed to look up new events: ${error.message}`)
+    }
+    for (const row of data || []) {
+      const occurrences = newEvents.get(`${row.source}:${row.source_id}`)
+      if (occurrences) {
+        occurrencesByEventId.set(row.id, occurrences)
+      }
+    }
+  }
+
+  await replaceEventOccurrences(supabaseAdmin, occurrencesByEventId)
+}
+
+/**
+ * Record what applying a plan would do, in the same shape applyBatchPlan reports
+ */
+function previewBatchPlan(plan: BatchPlan, preview: SourcePreview): BatchResult {
+  preview.wouldInsert.push(...plan.inserts.map(insert => insert.row))
+  preview.wouldUpdate.push(...plan.updates.map(update => ({
+    id: update.existing.id,
+    row: update.row,
+    changes: update.changes || {}
+  })))
+  preview.unchanged += plan.unchangedIds.length
+  preview.warnings.push(
+    ...plan.rowErrors.map(rowError => rowError.title ? `${rowError.message}: ${rowError.title}` : rowError.message),
+    ...[...plan.inserts, ...plan.updates].flatMap(item =>
+      validateEventRow(item.row).map(warning => `${item.row.title}: ${warning}`)
+    )
+  )
+
+  return {
+    processed: plan.inserts.length + plan.updates.length + plan.unchangedIds.length,
+    added: plan.inserts.length,
+    updated: plan.updates.length,
+    unchanged: plan.unchangedIds.length,
+    rowErrors: plan.rowErrors
+  }
+}
+
+/**
+ * Problems worth a look before a scraper change ships; none of these block a write
+ */
+function validateEventRow(row: EventInsert): string[] {
+  const warnings: string[] = []
+  const start = row.start_time_utc ? Date.parse(row.start_time_utc) : NaN
+  const end = row.end_time_utc ? Date.parse(row.end_time_utc) : NaN
+
+  if (!row.start_time_utc) {
+    warnings.push('no start time')
+  } else if (isNaN(start)) {
+    warnings.push(`unparseable start time "${row.start_time_utc}"`)
+  }
+  if (!isNaN(start) && !isNaN(end) && end < start) {
+    warnings.push('ends before it starts')
+  }
+  if (row.needs_review && row.date_parse) {
+    warnings.push(`low date confidence ${row.date_parse.confidence} (${row.date_parse.rule})`)
+  }
+  if (!row.venue_name) {
+    warnings.push('no venue')
+  }
+  if (!row.external_url) {
+    warnings.push('no event URL')
+  }
+  return warnings
+}
+
+/**
+ * What cleanupStaleEvents would archive once this dry run's sources had
+ * recorded their runs; events the run saw are left out, since a real run
+ * would have refreshed their last_seen_at
+ */
+async function previewStaleCleanup(
+  supabaseAdmin: any,
+  results: IngestionResult,
+  seenEventIds: Set<string>
+): Promise<StaleEventPreview[]> {
+  const lastHealthyRuns = await getCleanupHealthyRuns(supabaseAdmin, getUnhealthySourceIds(results))
+  for (const record of results.sources) {
+    if (lastHealthyRuns.has(record.sourceId) && record.status === 'success' && !record.anomalous) {
+      lastHealthyRuns.set(record.sourceId, new Date(record.startedAt))
+    }
+  }
+
+  const staleEvents = await findStaleEvents(supabaseAdmin, lastHealthyRuns, STALE_EVENT_DAYS)
+  return staleEvents
+    .filter(event => !seenEventIds.has(event.id))
+    .map(event => ({
+      id: event.id,
+      title: event.title,
+      lastSeenAt: event.last_seen_at,
+      sourceId: event.ingestion_source_id
+    }))
+}
+
+/**
+ * Upsert rows in one request, retrying row by row if the chunk fails so a
+ * single bad row cannot block the rest
+ */
+async function upsertEventRows(supabaseAdmin: any, rows: EventInsert[]): Promise<Array<{ error?: string }>> {
+  const { error } = await supabaseAdmin
+    .from('events')
+    .upsert(rows, { onConflict: 'source,source_id' })
+
+  if (!error) {
+    return rows.map(() => ({}))
+  }
+
+  if (rows.length === 1) {
+    return [{ error: `Failed to upsert event: ${error.message}` }]
+  }
+
+  console.warn(`Chunk upsert of ${rows.length} events failed, retrying individually:`, error.message)
+  const outcomes: Array<{ error?: string }> = []
+  for (const row of rows) {
+    outcomes.push(...await upsertEventRows(supabaseAdmin, [row]))
+  }
+  return outcomes
+}
+
+/**
+ * Map an ingested event to an events row, including its content hash
+ */
+function buildEventRow(event: Partial<Event>, ingestionSourceId: string): EventInsert {
+  const row: EventInsert = {
+    source: event.source!,
+    source_id: event.sourceId!,
+    title: event.title!,
+    description: event.description ?? null,
+    long_description: event.longDescription ?? null,
+    start_time_utc: event.startTime ?? null,
+    end_time_utc: event.endTime ?? null,
+    timezone: event.timezone ?? null,
+    venue_name: event.venueName ?? null,
+    city: event.city ?? null,
+    country: event.country ?? null,
+    lat: event.lat ?? null,
+    lng: event.lng ?? null,
+    categories: event.categories || ['local_events'],
+    tags: event.tags || [],
+    image_url: event.imageUrl ?? null,
+    organizer_name: event.organizerName ?? null,
+    external_url: event.externalUrl ?? null,
+    last_seen_at: event.lastSeenAt || new Date().toISOString(),
+    ingestion_source_id: ingestionSourceId
+  }
+
+  // Only scraped events carry date_parse; other rows keep their existing hash
+  if (event.dateParse) {
+    row.date_parse = event.dateParse
+    row.needs_review = event.dateParse.confidence < LOW_DATE_CONFIDENCE
+  }
+
+  return { ...row, content_hash: hashEventContent(row, event.occurrences) }
+}
+
+/**
+ * Hash the content columns of a row; last_seen_at and ingestion_source_id are
+ * bookkeeping, excluded so a re-seen event with identical content hashes the same
+ * Occurrences count as content only when present, so single-run events keep
+ * the hash they had before occurrences existed.
+ */
+function hashEventContent(row: EventInsert, occurrences?: EventOccurrence[]): string {
+  const content: Record<string, unknown> = { ...row }
+  delete content.last_seen_at
+  delete content.ingestion_source_id
+  delete content.content_hash
+  if (occurrences?.length) {
+    content.occurrences = occurrences.map(occurrence => [occurrence.startTime, occurrence.endTime ?? null])
+  }
+
+  const normalized = Object.keys(content)
+    .sort()
+    .map(key => [key, content[key]])
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex')
+}
+
+/**
+ * Drop columns the source did not provide so revisions only report fields
+ * the source actually reported
+ */
+function withoutUnsetFields(event: Partial<Event>, row: EventInsert): EventInsert {
+  const provided: Record<string, unknown> = { ...row }
+  const optionalFields: Array<[keyof Partial<Event>, keyof EventInsert]> = [
+    ['description', 'description'],
+    ['longDescription', 'long_description'],
+    ['endTime', 'end_time_utc'],
+    ['venueName', 'venue_name'],
+    ['imageUrl', 'image_url'],
+    ['organizerName', 'organizer_name'],
+    ['externalUrl', 'external_url']
+  ]
+  for (const [eventField, column] of optionalFields) {
+    if (event[eventField] === undefined) {
+      delete provided[column]
+    }
+  }
+  return provided as EventInsert
+}
+
+/**
+ * Find cross-source duplicates among events in the next few months, link them to a canonical
+ * event and fill the canonical event's gaps from the duplicates
+ * Returns the number of rows newly linked to a canonical event.
+ */
+async function mergeDuplicateEvents(supabaseAdmin: any): Promise<number> {
+  const since = new Date()
+  since.setDate(since.getDate() - 1)
+  const until = new Date()
+  until.setDate(until.getDate() + DUPLICATE_MERGE_WINDOW_DAYS)
+
+  const events: EventRow[] = []
+  for (let offset = 0; ; offset += DUPLICATE_MERGE_PAGE_SIZE) {
+    const { data: page, error } = await supabaseAdmin
+      .from('events')
+      .select('*')
+      .is('archived_at', null)
+      .gte('start_time_utc', since.toISOString())
+      .lte('start_time_utc', until.toISOString())
+      .order('start_time_utc', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + DUPLICATE_MERGE_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load events for duplicate merge: ${error.message}`)
+    }
+
+    events.push(...(page || []))
+    if (!page || page.length < DUPLICATE_MERGE_PAGE_SIZE) {
+      break
+    }
+  }
+
+  // Rows linked to a canonical that was archived before archiving unlinked
+  // duplicates would stay hidden; unlink them so they cluster afresh
+  const loadedIds = new Set(events.map(event => event.id))
+  const outsideCanonicalIds = Array.from(new Set(events
+    .map(event => event.canonical_event_id)
+    .filter((id): id is string => !!id && !loadedIds.has(id))))
+  if (outsideCanonicalIds.length > 0) {
+    const { data: archivedCanonicals, error } = await supabaseAdmin
+      .from('events')
+      .select('id')
+      .in('id', outsideCanonicalIds)
+      .not('archived_at', 'is', null)
+
+    if (error) {
+      throw new Error(`Failed to load canonical events for duplicate merge: ${error.message}`)
+    }
+    const archivedIds = new Set<string>((archivedCanonicals || []).map((row: { id: string }) => row.id))
+    await unlinkDuplicates(supabaseAdmin, Array.from(archivedIds))
+    for (const event of events) {
+      if (event.canonical_event_id && archivedIds.has(event.canonical_event_id)) {
+        event.canonical_event_id = null
+      }
+    }
+  }
+
+  let linked = 0
+  const clusters = findDuplicateClusters(events)
+  for (const { canonical, duplicates } of clusters) {
+    // Merged values go in their own column; the canonical row's source owns the rest
+    const { source_urls: sourceUrls, ...merged } = mergeDuplicateFields(canonical, duplicates)
+    const mergedFields = Object.keys(merged).length > 0 ? merged as MergedEventFields : null
+    const update: EventUpdate = sourceUrls ? { source_urls: sourceUrls } : {}
+    if (!sameMergedFields(canonical.merged_fields, mergedFields)) {
+      update.merged_fields = mergedFields
+    }
+    if (canonical.canonical_event_id) {
+      update.canonical_event_id = null
+    }
+    if (Object.keys(update).length > 0) {
+      const { error: updateError } = await supabaseAdmin
+        .from('events')
+        .update(update)
+        .eq('id', canonical.id)
+
+      if (updateError) {
+        console.warn(`Failed to merge fields into event ${canonical.id}:`, updateError.message)
         continue
       }
+    }
 
-      // Check if event already exists
-      const { data: existingEvent } = await supabaseAdmin
+    const newlyLinked = duplicates
+      .filter(duplicate => duplicate.canonical_event_id !== canonical.id)
+      .map(duplicate => duplicate.id)
+    if (newlyLinked.length > 0) {
+      const { error: linkError } = await supabaseAdmin
         .from('events')
-        .select('id')
-        .eq('source', event.source)
-        .eq('source_id', event.sourceId)
-        .single()
-
-      if (existingEvent) {
-        // Update existing event
-        const { error } = await supabaseAdmin
-          .from('events')
-          .update({
-            title: event.title,
-            description: event.description,
-            long_description: event.longDescription,
-            start_time_utc: event.startTime,
-            end_time_utc: event.endTime,
-            timezone: event.timezone,
-            venue_name: event.venueName,
-            city: event.city,
-            country: event.country,
-            lat: event.lat,
-            lng: event.lng,
-            categories: event.categories,
-            tags: event.tags,
-            image_url: event.imageUrl,
-            organizer_name: event.organizerName,
-            external_url: event.externalUrl,
-            last_seen_at: new Date().toISOString()
-          })
-          .eq('id', existingEvent.id)
-
-        if (error) {
-          result.errors.push(`Failed to update event: ${error.message}`)
-        } else {
-          result.updated++
-        }
-      } else {
-        // Insert new event
-        const { error } = await supabaseAdmin
-          .from('events')
-          .insert([{
-            source: event.source!,
-            source_id: event.sourceId,
-            title: event.title,
-            description: event.description,
-            long_description: event.longDescription,
-            start_time_utc: event.startTime,
-            end_time_utc: event.endTime,
-            timezone: event.timezone,
-            venue_name: event.venueName,
-            city: event.city,
-            country: event.country,
-            lat: event.lat,
-            lng: event.lng,
-            categories: event.categories || ['local_events'],
-            tags: event.tags || [],
-            image_url: event.imageUrl,
-            organizer_name: event.organizerName,
-            external_url: event.externalUrl,
-            last_seen_at: event.lastSeenAt || new Date().toISOString()
-          }])
-
-        if (error) {
-          if (error.code === '23505') { // Unique constraint violation
-            result.errors.push(`Duplicate event skipped: ${event.title}`)
-          } else {
-            result.errors.push(`Failed to insert event: ${error.message}`)
-          }
-        } else {
-          result.added++
-        }
+        .update({ canonical_event_id: canonical.id })
+        .in('id', newlyLinked)
+
+      if (linkError) {
+        console.warn(`Failed to link duplicates to event ${canonical.id}:`, linkError.message)
+        continue
       }
+      console.log(`🔗 Linked ${newlyLinked.length} duplicate(s) to "${canonical.title}"`)
+      linked += newlyLinked.length
+    }
+  }
+
+  // Rows that are no longer a canonical event drop what they merged
+  const canonicalIds = new Set(clusters.map(cluster => cluster.canonical.id))
+  const unmergedIds = events
+    .filter(event => event.merged_fields && !canonicalIds.has(event.id))
+    .map(event => event.id)
+  if (unmergedIds.length > 0) {
+    const { error: clearError } = await supabaseAdmin
+      .from('events')
+      .update({ merged_fields: null })
+      .in('id', unmergedIds)
 
-      result.processed++
-    } catch (error) {
-      result.errors.push(`Event processing error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    if (clearError) {
+      console.warn(`Failed to clear merged fields of ${unmergedIds.length} events:`, clearError.message)
     }
   }
 
-  return result
+  return linked
+}
+
+function sameMergedFields(a: MergedEventFields | null, b: MergedEventFields | null): boolean {
+  // JSONB does not keep key order
+  const normalize = (fields: MergedEventFields | null) => JSON.stringify(
+    Object.entries(fields || {}).sort(([left], [right]) => left.localeCompare(right))
+  )
+  return normalize(a) === normalize(b)
+}
+
+async function recordEventRevisions(
+  supabaseAdmin: any,
+  revisions: Array<{ eventId: string; changes: EventFieldChanges }>,
+  context: { runId: string; sourceId: string }
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('event_revisions')
+    .insert(revisions.map(({ eventId, changes }) => ({
+      event_id: eventId,
+      ingestion_run_id: context.runId,
+      source_id: context.sourceId,
+      changed_fields: Object.keys(changes),
+      changes
+    })))
+
+  // Missing revisions should not fail the event writes themselves
+  if (error) {
+    console.warn(`Failed to record ${revisions.length} event revisions:`, error.message)
+  }
+}
+
+async function saveSourceBreaker(supabaseAdmin: any, sourceId: string, breaker: SourceBreaker): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('sources')
+    .update(breakerToSourceUpdate(breaker))
+    .eq('id', sourceId)
+
+  if (error) {
+    console.warn(`Failed to save circuit breaker for ${sourceId}:`, error.message)
+  } else if (breaker.state === 'open') {
+    console.warn(`🔌 ${sourceId} circuit breaker open; next probe at ${breaker.nextProbeAt}`)
+  }
 }
 
 async function logIngestionStart(supabaseAdmin: any, sourceId: string): Promise<void> {
@@ -271,20 +1126,116 @@ async function logIngestionResult(
     }])
 }
 
-// Cleanup old events that haven't been seen in a while
-export async function cleanupStaleEvents(daysSinceLastSeen: number = 30): Promise<number> {
+/**
+ * Active sources whose schedule says they should run on this tick
+ * The result is meant to be passed to ingestEventsFromAllSources as its filter.
+ */
+export async function getDueSourceIds(now: Date = new Date()): Promise<string[]> {
   const supabaseAdmin = createAdminClient()
-  const cutoffDate = new Date()
-  cutoffDate.setDate(cutoffDate.getDate() - daysSinceLastSeen)
 
-  const { count, error } = await supabaseAdmin
-    .from('events')
-    .delete()
-    .lt('last_seen_at', cutoffDate.toISOString())
+  const { data: sources, error } = await supabaseAdmin
+    .from('sources')
+    .select('id, schedule')
+    .eq('active', true)
+
+  if (error) {
+    throw new Error(`Failed to fetch sources: ${error.message}`)
+  }
+  if (!sources || sources.length === 0) {
+    return []
+  }
+
+  const lastRuns = await getLastSourceRunTimes(supabaseAdmin, sources.map(source => source.id))
+
+  return sources
+    .filter(source => isSourceDue(source.schedule, lastRuns.get(source.id) ?? null, now))
+    .map(source => source.id)
+}
+
+/**
+ * Sources whose events should survive stale cleanup after this run: the run
+ * failed, looked anomalous, or the source is quarantined
+ */
+export function getUnhealthySourceIds(result: IngestionResult): string[] {
+  return [
+    ...result.sources.filter(source => source.status === 'failed' || source.anomalous).map(source => source.sourceId),
+    ...result.quarantinedSources
+  ]
+}
+
+/**
+ * Archive events that haven't been seen in a while
+ *
+ * An event only expires if its source has had a healthy run since the event
+ * was last seen, so a scraper outage never removes events. Events without a
+ * recorded source are never expired. Events from skipSourceIds (e.g.
+ * sources whose run just looked broken) are always kept. Rows are archived
+ * rather than deleted so users' saved events keep working.
+ */
+export async function cleanupStaleEvents(
+  daysSinceLastSeen: number = STALE_EVENT_DAYS,
+  skipSourceIds: string[] = []
+): Promise<number> {
+  const supabaseAdmin = createAdminClient()
+  const lastHealthyRuns = await getCleanupHealthyRuns(supabaseAdmin, skipSourceIds)
+  const staleEvents = await findStaleEvents(supabaseAdmin, lastHealthyRuns, daysSinceLastSeen)
+
+  return archiveEvents(supabaseAdmin, staleEvents.map(event => event.id), 'stale')
+}
+
+/**
+ * When each source cleanup may expire events for last had a healthy run;
+ * sources in skipSourceIds are left out, so their events are kept
+ */
+async function getCleanupHealthyRuns(supabaseAdmin: any, skipSourceIds: string[]): Promise<Map<string, Date | null>> {
+  const { data: sources, error } = await supabaseAdmin
+    .from('sources')
+    .select('id')
 
   if (error) {
     throw new Error(`Failed to cleanup stale events: ${error.message}`)
   }
 
-  return count || 0
-}
\ No newline at end of file
+  const sourceIds = (sources || [])
+    .map((source: { id: string }) => source.id)
+    .filter((id: string) => !skipSourceIds.includes(id))
+  return getLastSourceRunTimes(supabaseAdmin, sourceIds, { healthyOnly: true })
+}
+
+/**
+ * Unarchived events that stale cleanup expires: a source's events last seen
+ * before the cutoff and before the source's last healthy run. Sources missing
+ * from lastHealthyRuns, or without a healthy run, keep their events, and so
+ * do events without a recorded source, since nothing shows their source is
+ * still running.
+ */
+async function findStaleEvents(
+  supabaseAdmin: any,
+  lastHealthyRuns: Map<string, Date | null>,
+  daysSinceLastSeen: number
+): Promise<Array<{ id: string; title: string; last_seen_at: string; ingestion_source_id: string }>> {
+  const cutoffDate = new Date()
+  cutoffDate.setDate(cutoffDate.getDate() - daysSinceLastSeen)
+
+  const staleEvents: Array<{ id: string; title: string; last_seen_at: string; ingestion_source_id: string }> = []
+  for (const [sourceId, lastHealthyRun] of Array.from(lastHealthyRuns)) {
+    if (!lastHealthyRun) {
+      continue
+    }
+    // Last seen before the cutoff and before the source's last healthy run
+    const seenBefore = new Date(Math.min(cutoffDate.getTime(), lastHealthyRun.getTime()))
+    const { data, error } = await supabaseAdmin
+      .from('events')
+      .select('id, title, last_seen_at, ingestion_source_id')
+      .eq('ingestion_source_id', sourceId)
+      .is('archived_at', null)
+      .lt('last_seen_at', seenBefore.toISOString())
+
+    if (error) {
+      throw new Error(`Failed to cleanup stale events: ${error.message}`)
+    }
+    staleEvents.push(...(data || []))
+  }
+
+  return staleEvents
+}
@@ -0,0 +1,118 @@
+import { expandOccurrences, fromOccurrenceRows, replaceEventOccurrences } from './event-occurrences'
+import { parseMacauDate } from './date-macau'
+import type { Event } from '@/types'
+
+const baseEvent: Event = {
+  id: 'event-1',
+  source: 'web_scraper',
+  sourceId: 'macaotourism.gov.mo-abc',
+  title: 'Macao International Fireworks Display',
+  startTime: '2025-09-05T16:00:00.000Z',
+  endTime: '2025-10-06T16:00:00.000Z',
+  categories: [],
+  tags: [],
+  lastSeenAt: '2025-09-01T00:00:00.000Z'
+}
+
+describe('expandOccurrences', () => {
+  it('keeps an event without occurrences as one entry', () => {
+    expect(expandOccurrences([baseEvent])).toEqual([
+      { key: 'event-1', event: baseEvent, startTime: baseEvent.startTime, endTime: baseEvent.endTime, index: 0, count: 1 }
+    ])
+  })
+
+  it('splits a multi-date event into entries linked to the parent', () => {
+    const event = {
+      ...baseEvent,
+      occurrences: [
+        { startTime: '2025-09-05T16:00:00.000Z', endTime: '2025-09-06T16:00:00.000Z' },
+        { startTime: '2025-09-12T16:00:00.000Z', endTime: '2025-09-13T16:00:00.000Z' }
+      ]
+    }
+
+    const views = expandOccurrences([event])
+
+    expect(views.map(view => view.key)).toEqual(['event-1:0', 'event-1:1'])
+    expect(views.every(view => view.event === event && view.count === 2)).toBe(true)
+    expect(views[1].startTime).toBe('2025-09-12T16:00:00.000Z')
+  })
+
+  it('orders occurrences of different events by start time, undated last', () => {
+    const fireworks = {
+      ...baseEvent,
+      occurrences: [
+        { startTime: '2025-09-05T16:00:00.000Z' },
+        { startTime: '2025-09-20T16:00:00.000Z' }
+      ]
+    }
+    const festival = { ...baseEvent, id: 'event-2', startTime: '2025-09-10T02:00:00.000Z', endTime: undefined }
+    const undated = { ...baseEvent, id: 'event-3', startTime: undefined, endTime: undefined }
+
+    expect(expandOccurrences([undated, fireworks, festival]).map(view => view.key))
+      .toEqual(['event-1:0', 'event-2', 'event-1:1', 'event-3'])
+  })
+})
+
+describe('fromOccurrenceRows', () => {
+  it('maps rows in start order', () => {
+    expect(fromOccurrenceRows([
+      { id: 'b', event_id: 'event-1', start_time_utc: '2025-09-12T16:00:00.000Z', end_time_utc: null },
+      { id: 'a', event_id: 'event-1', start_time_utc: '2025-09-05T16:00:00.000Z', end_time_utc: '2025-09-06T16:00:00.000Z' }
+    ])).toEqual([
+      { id: 'a', eventId: 'event-1', startTime: '2025-09-05T16:00:00.000Z', endTime: '2025-09-06T16:00:00.000Z' },
+      { id: 'b', eventId: 'event-1', startTime: '2025-09-12T16:00:00.000Z', endTime: undefined }
+    ])
+  })
+})
+
+describe('replaceEventOccurrences', () => {
+  it('clears the events and inserts their new occurrences', async () => {
+    const deleteIn = jest.fn().mockResolvedValue({ error: null })
+    const insert = jest.fn().mockResolvedValue({ error: null })
+    const supabaseAdmin = {
+      from: jest.fn(() => ({ delete: () => ({ in: deleteIn }), insert }))
+    }
+
+    await replaceEventOccurrences(supabaseAdmin, new Map([
+      ['event-1', [{ startTime: '2025-09-05T16:00:00.000Z', endTime: '2025-09-06T16:00:00.000Z' }]],
+      ['event-2', []]
+    ]))
+
+    expect(supabaseAdmin.from).toHaveBeenCalledWith('event_occurrences')
+    expect(deleteIn).toHaveBeenCalledWith('event_id', ['event-1', 'event-2'])
+    expect(insert).toHaveBeenCalledWith([
+      { event_id: 'event-1', start_time_utc: '2025-09-05T16:00:00.000Z', end_time_utc: '2025-09-06T16:00:00.000Z' }
+    ])
+  })
+})
+
+describe('parseMacauDate occurrences', () => {
+  const referenceDate = new Date('2025-08-01T00:00:00.000Z')
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('returns each date of an MGTO multi-date listing', () => {
+    const parsed = parseMacauDate('Sep 6, 13, 20, Oct 1 & 6', referenceDate)
+
+    expect(parsed.occurrences?.map(occurrence => occurrence.start)).toEqual([
+      '2025-09-05T16:00:00.000Z',
+      '2025-09-12T16:00:00.000Z',
+      '2025-09-19T16:00:00.000Z',
+      '2025-09-30T16:00:00.000Z',
+      '2025-10-05T16:00:00.000Z'
+    ])
+    expect(parsed.start).toBe('2025-09-05T16:00:00.000Z')
+    expect(parsed.end).toBe('2025-10-06T16:00:00.000Z')
+  })
+
+  it('leaves single dates and continuous ranges without occurrences', () => {
+    expect(parseMacauDate('Sep 27', referenceDate).occurrences).toBeUndefined()
+    expect(parseMacauDate('Sep 5-28', referenceDate).occurrences).toBeUndefined()
+  })
+})
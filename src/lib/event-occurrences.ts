@@ -0,0 +1,114 @@
+import type { Event, EventOccurrence } from '@/types'
+import type { Database } from '@/types/database'
+
+type OccurrenceRow = Database['public']['Tables']['event_occurrences']['Row']
+type OccurrenceInsert = Database['public']['Tables']['event_occurrences']['Insert']
+
+/**
+ * One dated showing of an event, as the calendar and event list display it
+ */
+export interface OccurrenceView<T extends Event = Event> {
+  key: string         // unique per showing; the event id when it has a single run
+  event: T            // parent event, for saving and the detail modal
+  startTime?: string
+  endTime?: string
+  index: number       // position among the event's occurrences
+  count: number       // 1 for an event held as one continuous run
+}
+
+/**
+ * Split events into their occurrences, ordered by start time
+ * Events without occurrences appear once, spanning startTime to endTime.
+ */
+export function expandOccurrences<T extends Event>(events: T[]): OccurrenceView<T>[] {
+  const views: OccurrenceView<T>[] = []
+
+  for (const event of events) {
+    const occurrences = event.occurrences || []
+    if (occurrences.length === 0) {
+      views.push({ key: event.id, event, startTime: event.startTime, endTime: event.endTime, index: 0, count: 1 })
+      continue
+    }
+
+    occurrences.forEach((occurrence, index) => {
+      views.push({
+        key: `${event.id}:${index}`,
+        event,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        index,
+        count: occurrences.length
+      })
+    })
+  }
+
+  // Undated events keep their place at the end
+  return views
+    .map((view, position) => ({ view, position }))
+    .sort((a, b) => {
+      const aStart = a.view.startTime ? Date.parse(a.view.startTime) : Infinity
+      const bStart = b.view.startTime ? Date.parse(b.view.startTime) : Infinity
+      return aStart === bStart ? a.position - b.position : aStart - bStart
+    })
+    .map(({ view }) => view)
+}
+
+/**
+ * Map event_occurrences rows to occurrences in start order
+ */
+export function fromOccurrenceRows(rows: Array<Pick<OccurrenceRow, 'start_time_utc' | 'end_time_utc'> & Partial<OccurrenceRow>>): EventOccurrence[] {
+  return [...rows]
+    .sort((a, b) => Date.parse(a.start_time_utc) - Date.parse(b.start_time_utc))
+    .map(row => ({
+      id: row.id,
+      eventId: row.event_id,
+      startTime: row.start_time_utc,
+      endTime: row.end_time_utc || undefined
+    }))
+}
+
+/**
+ * Build event_occurrences rows for one event
+ */
+export function toOccurrenceRows(eventId: string, occurrences: EventOccurrence[]): OccurrenceInsert[] {
+  return occurrences.map(occurrence => ({
+    event_id: eventId,
+    start_time_utc: occurrence.startTime,
+    end_time_utc: occurrence.endTime ?? null
+  }))
+}
+
+/**
+ * Replace the stored occurrences of each event; an empty list clears them
+ */
+export async function replaceEventOccurrences(
+  supabaseAdmin: any,
+  occurrencesByEventId: Map<string, EventOccurrence[]>
+): Promise<void> {
+  if (occurrencesByEventId.size === 0) {
+    return
+  }
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('event_occurrences')
+    .delete()
+    .in('event_id', Array.from(occurrencesByEventId.keys()))
+
+  if (deleteError) {
+    throw new Error(`Failed to clear event occurrences: ${deleteError.message}`)
+  }
+
+  const rows = Array.from(occurrencesByEventId.entries())
+    .flatMap(([eventId, occurrences]) => toOccurrenceRows(eventId, occurrences))
+  if (rows.length === 0) {
+    return
+  }
+
+  const { error: insertError } = await supabaseAdmin
+    .from('event_occurrences')
+    .insert(rows)
+
+  if (insertError) {
+    throw new Error(`Failed to save event occurrences: ${insertError.message}`)
+  }
+}
@@ -0,0 +1,51 @@
+import { diffEventFields, summarizeEventRevisions } from './event-revisions'
+
+const existing = {
+  title: 'Harbour Fireworks',
+  description: 'Fireworks over the harbour',
+  start_time_utc: '2025-09-13T13:00:00+00:00',
+  venue_name: 'Macau Tower',
+  categories: ['festival', 'macau'],
+  image_url: null
+}
+
+describe('diffEventFields', () => {
+  it('reports changed fields with their previous and new values', () => {
+    const changes = diffEventFields(existing, {
+      title: 'Harbour Fireworks',
+      start_time_utc: '2025-09-20T13:00:00.000Z',
+      venue_name: 'Nam Van Lake'
+    })
+
+    expect(changes).toEqual({
+      start_time_utc: { from: '2025-09-13T13:00:00+00:00', to: '2025-09-20T13:00:00.000Z' },
+      venue_name: { from: 'Macau Tower', to: 'Nam Van Lake' }
+    })
+  })
+
+  it('ignores equivalent timestamps, reordered arrays, blank strings and omitted fields', () => {
+    expect(diffEventFields(existing, {
+      start_time_utc: '2025-09-13T13:00:00.000Z',
+      categories: ['macau', 'festival'],
+      image_url: '',
+      description: undefined,
+      last_seen_at: '2025-09-14T00:00:00.000Z'
+    })).toEqual({})
+  })
+})
+
+describe('summarizeEventRevisions', () => {
+  it('flags rescheduled and venue changes', () => {
+    const summary = summarizeEventRevisions([
+      { id: '1', eventId: 'e', changedFields: ['end_time_utc'], changes: {}, createdAt: '2025-09-01T00:00:00Z' },
+      { id: '2', eventId: 'e', changedFields: ['description'], changes: {}, createdAt: '2025-09-03T00:00:00Z' }
+    ])
+
+    expect(summary).toEqual({
+      rescheduled: true,
+      venueChanged: false,
+      titleChanged: false,
+      lastChangedAt: '2025-09-03T00:00:00Z'
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import type { Database } from '@/types/database'
+import type { EventRevision } from '@/types'
+
+type EventRow = Database['public']['Tables']['events']['Row']
+type EventUpdate = Database['public']['Tables']['events']['Update']
+
+export type EventFieldChanges = Record<string, { from: unknown; to: unknown }>
+
+// Columns that ingestion overwrites and that are worth auditing.
+// last_seen_at changes on every run and is deliberately left out.
+const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'long_description',
+  'start_time_utc',
+  'end_time_utc',
+  'timezone',
+  'venue_name',
+  'city',
+  'country',
+  'lat',
+  'lng',
+  'categories',
+  'tags',
+  'image_url',
+  'organizer_name',
+  'external_url'
+] as const
+
+const TIME_FIELDS = ['start_time_utc', 'end_time_utc']
+const VENUE_FIELDS = ['venue_name']
+
+/**
+ * Compare an existing events row with the values ingestion is about to write
+ * Fields the update leaves undefined are not written, so they never count as changed
+ */
+export function diffEventFields(existing: Partial<EventRow>, incoming: EventUpdate): EventFieldChanges {
+  const changes: EventFieldChanges = {}
+
+  for (const field of TRACKED_FIELDS) {
+    const next = incoming[field]
+    if (next === undefined) {
+      continue
+    }
+
+    const previous = existing[field]
+    if (!valuesEqual(field, previous, next)) {
+      changes[field] = { from: previous ?? null, to: next ?? null }
+    }
+  }
+
+  return changes
+}
+
+function valuesEqual(field: string, a: unknown, b: unknown): boolean {
+  const left = normalizeValue(a)
+  const right = normalizeValue(b)
+
+  if (left === null || right === null) {
+    return left === right
+  }
+
+  if (TIME_FIELDS.includes(field)) {
+    const leftTime = Date.parse(String(left))
+    const rightTime = Date.parse(String(right))
+    if (!isNaN(leftTime) && !isNaN(rightTime)) {
+      return leftTime === rightTime
+    }
+  }
+
+  // Category and tag order is not meaningful
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && [...left].sort().join('\u0000') === [...right].sort().join('\u0000')
+  }
+
+  return left === right
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim()
+    return trimmed === '' ? null : trimmed
+  }
+  return value
+}
+
+/**
+ * Summarize revisions into the change badges shown on an event
+ */
+export function summarizeEventRevisions(revisions: EventRevision[]): {
+  rescheduled: boolean
+  venueChanged: boolean
+  titleChanged: boolean
+  lastChangedAt?: string
+} {
+  const changed = (fields: string[]) =>
+    revisions.some(revision => revision.changedFields.some(field => fields.includes(field)))
+
+  return {
+    rescheduled: changed(TIME_FIELDS),
+    venueChanged: changed(VENUE_FIELDS),
+    titleChanged: changed(['title']),
+    lastChangedAt: revisions
+      .map(revision => revision.createdAt)
+      .sort()
+      .pop()
+  }
+}
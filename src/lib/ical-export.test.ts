@@ -0,0 +1,134 @@
+import { buildSavedEventsCalendar, escapeICalText, foldICalLine, type SavedEventWithEvent } from './ical-export'
+
+function savedEvent(overrides: Partial<NonNullable<SavedEventWithEvent['events']>> = {}, note: string | null = null): SavedEventWithEvent {
+  return {
+    id: 'saved-1',
+    note,
+    created_at: '2025-09-01T00:00:00.000Z',
+    events: {
+      id: 'event-1',
+      source: 'web_scraper',
+      source_id: 'galaxymacau.com-abc',
+      title: 'Jacky Cheung Concert',
+      description: 'Live at Galaxy Arena',
+      long_description: null,
+      start_time_utc: '2025-09-13T12:00:00.000Z',
+      end_time_utc: '2025-09-13T14:00:00.000Z',
+      timezone: 'Asia/Macau',
+      venue_name: 'Galaxy Arena, Macau',
+      city: 'Macau',
+      country: 'China',
+      lat: null,
+      lng: null,
+      categories: ['concert'],
+      tags: [],
+      image_url: null,
+      organizer_name: 'Galaxy Macau',
+      external_url: 'https://www.galaxymacau.com/event/1',
+      last_seen_at: '2025-09-01T00:00:00.000Z',
+      canonical_event_id: null,
+      source_urls: [],
+      merged_fields: null,
+      content_hash: null,
+      ingestion_source_id: null,
+      archived_at: null,
+      archived_reason: null,
+      date_parse: null,
+      needs_review: false,
+      previous_source_ids: [],
+      ...overrides
+    }
+  }
+}
+
+function unfold(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, '').split('\r\n')
+}
+
+describe('buildSavedEventsCalendar', () => {
+  const now = new Date('2025-09-01T00:00:00.000Z')
+
+  it('exports timed events in UTC with venue, url and note', () => {
+    const lines = unfold(buildSavedEventsCalendar([savedEvent({}, 'Bring tickets')], { now }))
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toContain('DTSTART:20250913T120000Z')
+    expect(lines).toContain('DTEND:20250913T140000Z')
+    expect(lines).toContain('LOCATION:Galaxy Arena\\, Macau')
+    expect(lines).toContain('URL:https://www.galaxymacau.com/event/1')
+    expect(lines.find(line => line.startsWith('DESCRIPTION:'))).toContain('Note: Bring tickets')
+  })
+
+  it('exports multi-day Macau ranges as all-day events', () => {
+    // "Sep 5-28" as produced by parseMacauDate: local midnight to the day after
+    const lines = unfold(buildSavedEventsCalendar([savedEvent({
+      start_time_utc: '2025-09-04T16:00:00.000Z',
+      end_time_utc: '2025-09-28T16:00:00.000Z'
+    })], { now }))
+
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250905')
+    expect(lines).toContain('DTEND;VALUE=DATE:20250929')
+  })
+
+  it('exports date-only events with the default duration as a single all-day event', () => {
+    const lines = unfold(buildSavedEventsCalendar([savedEvent({
+      start_time_utc: '2025-03-14T16:00:00.000Z',
+      end_time_utc: '2025-03-14T18:00:00.000Z'
+    })], { now }))
+
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250315')
+    expect(lines).toContain('DTEND;VALUE=DATE:20250316')
+  })
+
+  it('exports a midnight start with the parser\'s inferred end as an all-day event', () => {
+    // parseMacauDate('15 March 2025'): local midnight with the default 2-hour end
+    const lines = unfold(buildSavedEventsCalendar([savedEvent({
+      start_time_utc: '2025-03-14T16:00:00.000Z',
+      end_time_utc: '2025-03-14T18:00:00.000Z',
+      date_parse: { rule: 'day_month_year', timeKnown: false, yearInferred: false, endInferred: true, confidence: 0.9 }
+    })], { now }))
+
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250315')
+    expect(lines).toContain('DTEND;VALUE=DATE:20250316')
+  })
+
+  it('keeps a listed 00:00-02:00 time as a timed event', () => {
+    const lines = unfold(buildSavedEventsCalendar([savedEvent({
+      start_time_utc: '2024-12-31T16:00:00.000Z',
+      end_time_utc: '2024-12-31T18:00:00.000Z',
+      date_parse: { rule: 'schema_org', timeKnown: true, yearInferred: false, endInferred: false, confidence: 1 }
+    })], { now }))
+
+    expect(lines).toContain('DTSTART:20241231T160000Z')
+    expect(lines).toContain('DTEND:20241231T180000Z')
+  })
+
+  it('skips saved events without a start time', () => {
+    const calendar = buildSavedEventsCalendar([savedEvent({ start_time_utc: null })], { now })
+    expect(calendar).not.toContain('BEGIN:VEVENT')
+  })
+
+  it('folds every line to 75 octets', () => {
+    const calendar = buildSavedEventsCalendar([savedEvent({ description: '澳門'.repeat(100) })], { now })
+    for (const line of calendar.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75)
+    }
+  })
+})
+
+describe('escapeICalText', () => {
+  it('escapes backslashes, separators and newlines', () => {
+    expect(escapeICalText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne')
+  })
+})
+
+describe('foldICalLine', () => {
+  it('leaves short lines untouched', () => {
+    expect(foldICalLine('SUMMARY:Short')).toBe('SUMMARY:Short')
+  })
+
+  it('does not split multi-byte characters', () => {
+    const folded = foldICalLine(`SUMMARY:${'澳'.repeat(40)}`)
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'澳'.repeat(40)}`)
+  })
+})
@@ -0,0 +1,196 @@
+import { DateTime } from 'luxon'
+import { applyMergedFields } from '@/lib/event-dedup'
+import type { Database } from '@/types/database'
+import type { DateParseInfo } from '@/types'
+
+type EventRow = Database['public']['Tables']['events']['Row']
+
+const PRODUCT_ID = '-//Weekend Planner//Saved Events//EN'
+const DEFAULT_TIMEZONE = 'Asia/Macau'
+const MAX_LINE_OCTETS = 75
+
+/**
+ * A saved event as returned by `saved_events` joined with `events`
+ */
+export interface SavedEventWithEvent {
+  id: string
+  note: string | null
+  created_at: string
+  events: EventRow | null
+}
+
+export interface ICalendarOptions {
+  calendarName?: string
+  now?: Date
+}
+
+/**
+ * Build an RFC 5545 VCALENDAR document from saved events
+ */
+export function buildSavedEventsCalendar(savedEvents: SavedEventWithEvent[], options: ICalendarOptions = {}): string {
+  const dtStamp = formatUtcDateTime(DateTime.fromJSDate(options.now || new Date()))
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(options.calendarName || 'Saved Events')}`,
+    `X-WR-TIMEZONE:${DEFAULT_TIMEZONE}`
+  ]
+
+  for (const savedEvent of savedEvents) {
+    if (!savedEvent.events?.start_time_utc) {
+      continue
+    }
+    lines.push(...buildVEvent(savedEvent.events, savedEvent.note, dtStamp))
+  }
+
+  lines.push('END:VCALENDAR')
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n'
+}
+
+function buildVEvent(row: EventRow, note: string | null, dtStamp: string): string[] {
+  const event = applyMergedFields(row)
+  const timezone = event.timezone || DEFAULT_TIMEZONE
+  const start = DateTime.fromISO(event.start_time_utc!, { zone: 'utc' })
+  const end = event.end_time_utc ? DateTime.fromISO(event.end_time_utc, { zone: 'utc' }) : null
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@weekend-planner`,
+    `DTSTAMP:${dtStamp}`,
+    ...buildTimeProperties(start, end, timezone, event.date_parse),
+    `SUMMARY:${escapeICalText(event.title)}`
+  ]
+
+  const description = [event.description, note ? `Note: ${note}` : null, event.external_url]
+    .filter(Boolean)
+    .join('\n\n')
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeICalText(description)}`)
+  }
+
+  if (event.venue_name) {
+    lines.push(`LOCATION:${escapeICalText(event.venue_name)}`)
+  }
+
+  if (event.external_url) {
+    lines.push(`URL:${event.external_url}`)
+  }
+
+  if (event.categories?.length) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeICalText).join(',')}`)
+  }
+
+  if (event.lat != null && event.lng != null) {
+    lines.push(`GEO:${event.lat};${event.lng}`)
+  }
+
+  if (event.last_seen_at) {
+    lines.push(`LAST-MODIFIED:${formatUtcDateTime(DateTime.fromISO(event.last_seen_at, { zone: 'utc' }))}`)
+  }
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/**
+ * Emit DTSTART/DTEND, using DATE values for all-day ranges
+ *
+ * parseMacauDate produces day ranges as local midnight to the midnight after
+ * the last day, and date-only strings as local midnight plus a default end.
+ * Both are exported as all-day events in the event's own timezone.
+ */
+function buildTimeProperties(
+  start: DateTime,
+  end: DateTime | null,
+  timezone: string,
+  dateParse: DateParseInfo | null
+): string[] {
+  const localStart = start.setZone(timezone)
+  const localEnd = end?.setZone(timezone)
+
+  if (isAllDay(localStart, localEnd, dateParse)) {
+    const endDate = localEnd && isMidnight(localEnd) && localEnd > localStart
+      ? localEnd
+      : localStart.plus({ days: 1 })
+
+    return [
+      `DTSTART;VALUE=DATE:${localStart.toFormat('yyyyMMdd')}`,
+      `DTEND;VALUE=DATE:${endDate.toFormat('yyyyMMdd')}`
+    ]
+  }
+
+  const properties = [`DTSTART:${formatUtcDateTime(start)}`]
+  if (end && end > start) {
+    properties.push(`DTEND:${formatUtcDateTime(end)}`)
+  }
+  return properties
+}
+
+function isAllDay(localStart: DateTime, localEnd: DateTime | undefined, dateParse: DateParseInfo | null): boolean {
+  if (!isMidnight(localStart)) {
+    return false
+  }
+  if (!localEnd || isMidnight(localEnd)) {
+    return true
+  }
+  // The parser says whether the end was its default rather than listed;
+  // rows stored before it recorded that match on the 2-hour default
+  if (dateParse) {
+    return dateParse.endInferred || !dateParse.timeKnown
+  }
+  return localEnd.diff(localStart, 'hours').hours === 2
+}
+
+function isMidnight(dateTime: DateTime): boolean {
+  return dateTime.hour === 0 && dateTime.minute === 0 && dateTime.second === 0
+}
+
+function formatUtcDateTime(dateTime: DateTime): string {
+  return dateTime.toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'")
+}
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11)
+ */
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+}
+
+/**
+ * Fold a content line at 75 octets without splitting multi-byte characters
+ * (RFC 5545 section 3.1)
+ */
+export function foldICalLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+    return line
+  }
+
+  const segments: string[] = []
+  let current = ''
+  let currentOctets = 0
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = MAX_LINE_OCTETS
+
+  for (const char of line) {
+    const charOctets = Buffer.byteLength(char, 'utf8')
+    if (currentOctets + charOctets > limit) {
+      segments.push(current)
+      current = ''
+      currentOctets = 0
+      limit = MAX_LINE_OCTETS - 1
+    }
+    current += char
+    currentOctets += charOctets
+  }
+  segments.push(current)
+
+  return segments.join('\r\n ')
+}
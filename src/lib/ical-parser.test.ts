@@ -0,0 +1,166 @@
+import { parseICalendar } from './ical-parser'
+
+function calendar(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n')
+}
+
+const options = {
+  windowStart: new Date('2025-09-01T00:00:00Z'),
+  windowEnd: new Date('2025-10-01T00:00:00Z')
+}
+
+describe('parseICalendar', () => {
+  it('maps a single VEVENT using its UID as sourceId', () => {
+    const events = parseICalendar(calendar(
+      'BEGIN:VEVENT',
+      'UID:concert-1@venue.mo',
+      'DTSTART;TZID=Asia/Macau:20250913T200000',
+      'DTEND;TZID=Asia/Macau:20250913T220000',
+      'SUMMARY:Orchestra Night\\, Live',
+      'LOCATION:Macao Cultural Centre',
+      'DESCRIPTION:First line\\nSecond line',
+      'URL:https://venue.mo/concert-1',
+      'CATEGORIES:Music,Classical',
+      'END:VEVENT'
+    ), 'Venue Feed', options)
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({
+      source: 'ical',
+      sourceId: 'concert-1@venue.mo',
+      title: 'Orchestra Night, Live',
+      startTime: '2025-09-13T12:00:00.000Z',
+      endTime: '2025-09-13T14:00:00.000Z',
+      timezone: 'Asia/Macau',
+      venueName: 'Macao Cultural Centre',
+      longDescription: 'First line\nSecond line',
+      externalUrl: 'https://venue.mo/concert-1',
+      categories: ['music', 'classical'],
+      organizerName: 'Venue Feed'
+    })
+  })
+
+  it('unfolds folded lines', () => {
+    const events = parseICalendar(calendar(
+      'BEGIN:VEVENT',
+      'UID:folded',
+      'DTSTART:20250913T120000Z',
+      'SUMMARY:A very long',
+      '  title',
+      'END:VEVENT'
+    ), 'Feed', options)
+
+    expect(events[0].title).toBe('A very long title')
+  })
+
+  it('treats DATE values as all-day events ending at the next midnight', () => {
+    const events = parseICalendar(calendar(
+      'BEGIN:VEVENT',
+      'UID:holiday',
+      'DTSTART;VALUE=DATE:20250915',
+      'SUMMARY:Holiday',
+      'END:VEVENT'
+    ), 'Feed', options)
+
+    expect(events[0].startTime).toBe('2025-09-14T16:00:00.000Z')
+    expect(events[0].endTime).toBe('2025-09-15T16:00:00.000Z')
+  })
+
+  it('expands weekly RRULEs within the window and honours EXDATE', () => {
+    const events = parseICalendar(calendar(
+      'BEGIN:VEVENT',
+      'UID:market',
+      'DTSTART;TZID=Asia/Macau:20250802T180000',
+      'DURATION:PT3H',
+      'RRULE:FREQ=WEEKLY;BYDAY=SA',
+      'EXDATE;TZID=Asia/Macau:20250913T180000',
+      'SUMMARY:Night Market',
+      'END:VEVENT'
+    ), 'Feed', options)
+
+    expect(events.map(event => event.startTime)).toEqual([
+      '2025-09-06T10:00:00.000Z',
+      '2025-09-20T10:00:00.000Z',
+      '2025-09-27T10:00:00.000Z'
+    ])
+    expect(events[0].sourceId).toBe('market#20250906T100000Z')
+    expect(events[0].endTime).toBe('2025-09-06T13:00:00.000Z')
+  })
+
+  it('stops at COUNT even when occurrences fall before the window', () => {
+    const events = parseICalendar(calendar(
+      'BEGIN:VEVENT',
+      'UID:series',
+      'DTSTART:20250828T120000Z',
+      'RRULE:FREQ=DAILY;COUNT=6',
+      'SUMMARY:Series',
+      'END:VEVENT'
+    ), 'Feed', options)
+
+    expect(events).toHaveLength(2)
+    expect(events[1].startTime).toBe('2025-09-02T12:00:00.000Z')
+  })
+
+  it('expands monthly BYDAY ordinals', () => {
+    const events = parseICalendar(calendar(
+      'BEGIN:VEVENT',
+      'UID:last-friday',
+      'DTSTART;TZID=Asia/Macau:20250131T190000',
+      'RRULE:FREQ=MONTHLY;BYDAY=-1FR',
+      'SUMMARY:Last Friday Jazz',
+      'END:VEVENT'
+    ), 'Feed', options)
+
+    expect(events.map(event => event.startTime)).toEqual(['2025-09-26T11:00:00.000Z'])
+  })
+
+  it('applies RECURRENCE-ID overrides and cancellations', () => {
+    const events = parseICalendar(calendar(
+      'BEGIN:VEVENT',
+      'UID:talk',
+      'DTSTART:20250903T100000Z',
+      'RRULE:FREQ=WEEKLY;UNTIL=20250917T100000Z',
+      'SUMMARY:Weekly Talk',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:talk',
+      'RECURRENCE-ID:20250910T100000Z',
+      'DTSTART:20250911T100000Z',
+      'SUMMARY:Weekly Talk (moved)',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:talk',
+      'RECURRENCE-ID:20250917T100000Z',
+      'STATUS:CANCELLED',
+      'END:VEVENT'
+    ), 'Feed', options)
+
+    expect(events.map(event => [event.sourceId, event.title, event.startTime])).toEqual([
+      ['talk#20250903T100000Z', 'Weekly Talk', '2025-09-03T10:00:00.000Z'],
+      ['talk#20250910T100000Z', 'Weekly Talk (moved)', '2025-09-11T10:00:00.000Z']
+    ])
+  })
+
+  it('resolves prefixed TZIDs and skips cancelled events', () => {
+    const events = parseICalendar(calendar(
+      'BEGIN:VEVENT',
+      'UID:prefixed',
+      'DTSTART;TZID=/mozilla.org/20070129_1/Asia/Macau:20250913T200000',
+      'SUMMARY:Prefixed',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:cancelled',
+      'DTSTART:20250913T120000Z',
+      'STATUS:CANCELLED',
+      'SUMMARY:Cancelled',
+      'END:VEVENT'
+    ), 'Feed', options)
+
+    expect(events).toHaveLength(1)
+    expect(events[0].startTime).toBe('2025-09-13T12:00:00.000Z')
+  })
+
+  it('throws when there is no VCALENDAR', () => {
+    expect(() => parseICalendar('<html></html>', 'Feed', options)).toThrow('No VCALENDAR found')
+  })
+})
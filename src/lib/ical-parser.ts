@@ -0,0 +1,561 @@
+import { DateTime, Duration, IANAZone } from 'luxon'
+import type { Event } from '@/types'
+
+const DEFAULT_TIMEZONE = 'Asia/Macau'
+const DEFAULT_WINDOW_DAYS_BEFORE = 1
+const DEFAULT_WINDOW_DAYS_AFTER = 180
+// Guards against unbounded or pathological RRULEs
+const MAX_RECURRENCE_ITERATIONS = 5000
+const MAX_OCCURRENCES_PER_EVENT = 500
+
+export interface ICalParseOptions {
+  windowStart?: Date
+  windowEnd?: Date
+  defaultTimezone?: string
+}
+
+interface ICalProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+interface ICalComponent {
+  type: string
+  properties: ICalProperty[]
+  components: ICalComponent[]
+}
+
+interface ICalDateValue {
+  dateTime: DateTime
+  isDate: boolean
+  timezone: string
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+  interval: number
+  count?: number
+  until?: DateTime
+  byDay: Array<{ weekday: number; ordinal?: number }>
+  byMonthDay: number[]
+  byMonth: number[]
+}
+
+const WEEKDAYS: Record<string, number> = { MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6, SU: 7 }
+
+export async function parseICalFeed(url: string, sourceName: string, options: ICalParseOptions = {}): Promise<Partial<Event>[]> {
+  try {
+    const response = await fetch(url.replace(/^webcal:\/\//i, 'https://'), {
+      headers: { Accept: 'text/calendar, text/plain;q=0.9, */*;q=0.8' }
+    })
+
+    if (!response.ok) {
+      throw new Error(`iCal request failed: ${response.status} ${response.statusText}`)
+    }
+
+    return parseICalendar(await response.text(), sourceName, options)
+  } catch (error) {
+    console.error(`Failed to parse iCal feed: ${url}`, error)
+    throw new Error(`iCal parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Map the VEVENTs of an iCalendar document to events
+ *
+ * Recurring events are expanded into one event per occurrence inside the
+ * window, honouring EXDATE and RECURRENCE-ID overrides. Each occurrence gets a
+ * `sourceId` derived from the UID and its original start, so it stays stable
+ * across ingestion runs.
+ */
+export function parseICalendar(text: string, sourceName: string, options: ICalParseOptions = {}): Partial<Event>[] {
+  const calendar = parseComponents(unfoldLines(text)).find(component => component.type === 'VCALENDAR')
+  if (!calendar) {
+    throw new Error('No VCALENDAR found')
+  }
+
+  const calendarTimezone = resolveTimezone(getProperty(calendar, 'X-WR-TIMEZONE')?.value)
+  const defaultTimezone = calendarTimezone || options.defaultTimezone || DEFAULT_TIMEZONE
+  const windowStart = DateTime.fromJSDate(options.windowStart || DateTime.now().minus({ days: DEFAULT_WINDOW_DAYS_BEFORE }).toJSDate())
+  const windowEnd = DateTime.fromJSDate(options.windowEnd || DateTime.now().plus({ days: DEFAULT_WINDOW_DAYS_AFTER }).toJSDate())
+
+  const vevents = calendar.components.filter(component => component.type === 'VEVENT')
+  const overrides = new Map<string, ICalComponent>()
+  for (const vevent of vevents) {
+    const recurrenceId = getProperty(vevent, 'RECURRENCE-ID')
+    const uid = getProperty(vevent, 'UID')?.value
+    if (recurrenceId && uid) {
+      const original = parseDateValue(recurrenceId, defaultTimezone)
+      if (original) {
+        overrides.set(occurrenceKey(uid, original.dateTime), vevent)
+      }
+    }
+  }
+
+  const events: Partial<Event>[] = []
+
+  for (const vevent of vevents) {
+    try {
+      if (getProperty(vevent, 'RECURRENCE-ID')) {
+        continue // Applied through the overrides map
+      }
+      if (getProperty(vevent, 'STATUS')?.value.toUpperCase() === 'CANCELLED') {
+        continue
+      }
+
+      const uid = getProperty(vevent, 'UID')?.value
+      const dtStartProperty = getProperty(vevent, 'DTSTART')
+      const start = dtStartProperty ? parseDateValue(dtStartProperty, defaultTimezone) : null
+      if (!uid || !start) {
+        console.warn('Skipping VEVENT without UID or DTSTART')
+        continue
+      }
+
+      const duration = getEventDuration(vevent, start, defaultTimezone)
+      const rruleProperty = getProperty(vevent, 'RRULE')
+
+      if (!rruleProperty) {
+        const event = mapVEvent(vevent, uid, start, duration, sourceName)
+        if (event) {
+          events.push(event)
+        }
+        continue
+      }
+
+      const excluded = new Set(
+        getProperties(vevent, 'EXDATE')
+          .flatMap(property => parseDateList(property, defaultTimezone))
+          .map(value => value.dateTime.toMillis())
+      )
+
+      const occurrences = expandRecurrence(parseRecurrenceRule(rruleProperty.value, start.timezone), start, windowStart, windowEnd, duration)
+
+      for (const occurrence of occurrences) {
+        if (excluded.has(occurrence.toMillis())) {
+          continue
+        }
+
+        const key = occurrenceKey(uid, occurrence)
+        const override = overrides.get(key)
+        const occurrenceStart: ICalDateValue = { ...start, dateTime: occurrence }
+
+        if (override) {
+          if (getProperty(override, 'STATUS')?.value.toUpperCase() === 'CANCELLED') {
+            continue
+          }
+          const overrideStartProperty = getProperty(override, 'DTSTART')
+          const overrideStart = overrideStartProperty ? parseDateValue(overrideStartProperty, defaultTimezone) : null
+          const effectiveStart = overrideStart || occurrenceStart
+          const event = mapVEvent(override, key, effectiveStart, getEventDuration(override, effectiveStart, defaultTimezone), sourceName, vevent)
+          if (event) {
+            events.push(event)
+          }
+          continue
+        }
+
+        const event = mapVEvent(vevent, key, occurrenceStart, duration, sourceName)
+        if (event) {
+          events.push(event)
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to parse VEVENT:', error)
+      continue
+    }
+  }
+
+  return events
+}
+
+function mapVEvent(
+  vevent: ICalComponent,
+  sourceId: string,
+  start: ICalDateValue,
+  duration: Duration | null,
+  sourceName: string,
+  master?: ICalComponent
+): Partial<Event> | null {
+  const read = (name: string) => getProperty(vevent, name) || (master ? getProperty(master, name) : undefined)
+
+  const title = read('SUMMARY')?.value
+  if (!title) {
+    return null
+  }
+
+  const description = read('DESCRIPTION') ? unescapeText(read('DESCRIPTION')!.value) : undefined
+  const location = read('LOCATION') ? unescapeText(read('LOCATION')!.value) : undefined
+  const geo = read('GEO')?.value.split(/[;,]/).map(parseFloat)
+  const rawCategories = getProperties(vevent, 'CATEGORIES')
+    .concat(master ? getProperties(master, 'CATEGORIES') : [])
+    .flatMap(property => splitEscapedList(property.value))
+    .map(category => unescapeText(category).trim().toLowerCase().replace(/\s+/g, '_'))
+    .filter(Boolean)
+  const categories = [...new Set(rawCategories)]
+  const organizer = read('ORGANIZER')
+  const end = duration ? start.dateTime.plus(duration) : null
+
+  return {
+    source: 'ical' as const,
+    sourceId,
+    title: unescapeText(title),
+    description: description ? description.replace(/\s+/g, ' ').trim().substring(0, 500) : undefined,
+    longDescription: description,
+    startTime: start.dateTime.toUTC().toISO() || undefined,
+    endTime: end?.toUTC().toISO() || undefined,
+    timezone: start.timezone,
+    venueName: location,
+    lat: geo && geo.length === 2 && !isNaN(geo[0]) ? geo[0] : undefined,
+    lng: geo && geo.length === 2 && !isNaN(geo[1]) ? geo[1] : undefined,
+    categories: categories.length > 0 ? categories : ['local_events'],
+    tags: ['ical', ...categories].slice(0, 10),
+    imageUrl: extractImageUrl(vevent) || (master ? extractImageUrl(master) : undefined),
+    organizerName: organizer?.params.CN ? unescapeText(organizer.params.CN) : sourceName,
+    externalUrl: read('URL')?.value,
+    lastSeenAt: new Date().toISOString(),
+  }
+}
+
+function extractImageUrl(vevent: ICalComponent): string | undefined {
+  const image = getProperty(vevent, 'IMAGE')
+  if (image && /^https?:\/\//.test(image.value)) {
+    return image.value
+  }
+  const attachment = getProperties(vevent, 'ATTACH')
+    .find(property => property.params.FMTTYPE?.startsWith('image/') && /^https?:\/\//.test(property.value))
+  return attachment?.value
+}
+
+function getEventDuration(vevent: ICalComponent, start: ICalDateValue, defaultTimezone: string): Duration | null {
+  const dtEndProperty = getProperty(vevent, 'DTEND')
+  if (dtEndProperty) {
+    const end = parseDateValue(dtEndProperty, defaultTimezone)
+    if (end && end.dateTime > start.dateTime) {
+      return end.dateTime.diff(start.dateTime)
+    }
+  }
+
+  const durationProperty = getProperty(vevent, 'DURATION')
+  if (durationProperty) {
+    const duration = Duration.fromISO(durationProperty.value)
+    if (duration.isValid) {
+      return duration
+    }
+  }
+
+  // All-day events without an end last the whole day (RFC 5545 section 3.6.1)
+  return start.isDate ? Duration.fromObject({ days: 1 }) : null
+}
+
+function occurrenceKey(uid: string, start: DateTime): string {
+  return `${uid}#${start.toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'")}`
+}
+
+// ---------------------------------------------------------------------------
+// Recurrence expansion
+// ---------------------------------------------------------------------------
+
+function parseRecurrenceRule(value: string, timezone: string): RecurrenceRule {
+  const parts: Record<string, string> = {}
+  for (const part of value.split(';')) {
+    const [key, ...rest] = part.split('=')
+    parts[key.toUpperCase()] = rest.join('=')
+  }
+
+  const freq = parts.FREQ?.toUpperCase()
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new Error(`Unsupported RRULE frequency: ${parts.FREQ}`)
+  }
+
+  return {
+    freq: freq as RecurrenceRule['freq'],
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1')),
+    count: parts.COUNT ? parseInt(parts.COUNT) : undefined,
+    until: parts.UNTIL ? parseDateString(parts.UNTIL, timezone)?.dateTime : undefined,
+    byDay: (parts.BYDAY ? parts.BYDAY.split(',') : [])
+      .map((day: string) => day.trim().toUpperCase().match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/))
+      .filter(Boolean)
+      .map((match: RegExpMatchArray) => ({
+        weekday: WEEKDAYS[match[2]],
+        ordinal: match[1] ? parseInt(match[1]) : undefined
+      })),
+    byMonthDay: parts.BYMONTHDAY ? parts.BYMONTHDAY.split(',').map((day: string) => parseInt(day)).filter((day: number) => !isNaN(day)) : [],
+    byMonth: parts.BYMONTH ? parts.BYMONTH.split(',').map((month: string) => parseInt(month)).filter((month: number) => !isNaN(month)) : []
+  }
+}
+
+/**
+ * Expand a recurrence rule into occurrence start times overlapping the window
+ *
+ * Occurrences are generated from DTSTART so that COUNT is honoured, but only
+ * those overlapping [windowStart, windowEnd) are returned.
+ */
+function expandRecurrence(
+  rule: RecurrenceRule,
+  start: ICalDateValue,
+  windowStart: DateTime,
+  windowEnd: DateTime,
+  duration: Duration | null
+): DateTime[] {
+  const dtStart = start.dateTime
+  const occurrences: DateTime[] = []
+  let generated = 0
+
+  for (let period = 0; period < MAX_RECURRENCE_ITERATIONS; period++) {
+    const candidates = candidatesForPeriod(rule, dtStart, period)
+    if (candidates === null) {
+      break
+    }
+
+    for (const candidate of candidates) {
+      if (candidate < dtStart) {
+        continue
+      }
+      if (rule.until && candidate > rule.until) {
+        return occurrences
+      }
+      if (rule.count !== undefined && generated >= rule.count) {
+        return occurrences
+      }
+      if (candidate >= windowEnd) {
+        return occurrences
+      }
+
+      generated++
+      const candidateEnd = duration ? candidate.plus(duration) : candidate
+      if (candidateEnd > windowStart || +candidate === +windowStart) {
+        occurrences.push(candidate)
+        if (occurrences.length >= MAX_OCCURRENCES_PER_EVENT) {
+          return occurrences
+        }
+      }
+    }
+  }
+
+  return occurrences
+}
+
+/**
+ * Candidate occurrences for the n-th period (day, week, month or year) after DTSTART
+ */
+function candidatesForPeriod(rule: RecurrenceRule, dtStart: DateTime, period: number): DateTime[] | null {
+  const time = { hour: dtStart.hour, minute: dtStart.minute, second: dtStart.second, millisecond: 0 }
+  const step = period * rule.interval
+  const matchesMonth = (date: DateTime) => rule.byMonth.length === 0 || rule.byMonth.includes(date.month)
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = dtStart.plus({ days: step })
+      const matchesDay = rule.byDay.length === 0 || rule.byDay.some(({ weekday }) => weekday === day.weekday)
+      return matchesDay && matchesMonth(day) ? [day] : []
+    }
+
+    case 'WEEKLY': {
+      const weekStart = dtStart.startOf('week').plus({ weeks: step })
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(({ weekday }) => weekday) : [dtStart.weekday]
+      return [...new Set(weekdays)]
+        .sort((a, b) => a - b)
+        .map(weekday => weekStart.plus({ days: weekday - 1 }).set(time))
+        .filter(matchesMonth)
+    }
+
+    case 'MONTHLY': {
+      const month = dtStart.startOf('month').plus({ months: step })
+      if (!matchesMonth(month)) {
+        return []
+      }
+      return daysInMonth(rule, month, dtStart).map(date => date.set(time))
+    }
+
+    case 'YEARLY': {
+      const year = dtStart.startOf('year').plus({ years: step })
+      const months = rule.byMonth.length > 0 ? rule.byMonth : [dtStart.month]
+      return [...months]
+        .sort((a, b) => a - b)
+        .flatMap(monthNumber => daysInMonth(rule, year.set({ month: monthNumber }), dtStart))
+        .map(date => date.set(time))
+    }
+  }
+
+  return null
+}
+
+function daysInMonth(rule: RecurrenceRule, month: DateTime, dtStart: DateTime): DateTime[] {
+  const lastDay = month.daysInMonth || 28
+
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay
+      .map(day => (day < 0 ? lastDay + day + 1 : day))
+      .filter(day => day >= 1 && day <= lastDay)
+      .sort((a, b) => a - b)
+      .map(day => month.set({ day }))
+  }
+
+  if (rule.byDay.length > 0) {
+    const days: DateTime[] = []
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: DateTime[] = []
+      for (let day = 1; day <= lastDay; day++) {
+        const date = month.set({ day })
+        if (date.weekday === weekday) {
+          matching.push(date)
+        }
+      }
+      if (ordinal === undefined) {
+        days.push(...matching)
+      } else {
+        const match = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal]
+        if (match) {
+          days.push(match)
+        }
+      }
+    }
+    return days.sort((a, b) => a.toMillis() - b.toMillis())
+  }
+
+  // Months without the DTSTART day (e.g. the 31st) are skipped, as RFC 5545 requires
+  return dtStart.day <= lastDay ? [month.set({ day: dtStart.day })] : []
+}
+
+// ---------------------------------------------------------------------------
+// Content line parsing
+// ---------------------------------------------------------------------------
+
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+}
+
+function parseComponents(lines: string[]): ICalComponent[] {
+  const root: ICalComponent = { type: 'ROOT', properties: [], components: [] }
+  const stack: ICalComponent[] = [root]
+
+  for (const line of lines) {
+    const property = parseContentLine(line)
+    if (!property) {
+      continue
+    }
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { type: property.value.toUpperCase(), properties: [], components: [] }
+      stack[stack.length - 1].components.push(component)
+      stack.push(component)
+    } else if (property.name === 'END') {
+      if (stack.length > 1) {
+        stack.pop()
+      }
+    } else {
+      stack[stack.length - 1].properties.push(property)
+    }
+  }
+
+  return root.components
+}
+
+function parseContentLine(line: string): ICalProperty | null {
+  // The value starts at the first colon that is not inside a quoted parameter
+  let inQuotes = false
+  let valueIndex = -1
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (char === ':' && !inQuotes) {
+      valueIndex = i
+      break
+    }
+  }
+
+  if (valueIndex === -1) {
+    return null
+  }
+
+  const [name, ...rawParams] = line.substring(0, valueIndex).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+  const params: Record<string, string> = {}
+  for (const rawParam of rawParams) {
+    const [key, ...rest] = rawParam.split('=')
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '')
+  }
+
+  return { name: name.toUpperCase(), params, value: line.substring(valueIndex + 1) }
+}
+
+function getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find(property => property.name === name)
+}
+
+function getProperties(component: ICalComponent, name: string): ICalProperty[] {
+  return component.properties.filter(property => property.name === name)
+}
+
+function parseDateValue(property: ICalProperty, defaultTimezone: string): ICalDateValue | null {
+  return parseDateString(property.value.split(',')[0], resolveTimezone(property.params.TZID) || defaultTimezone, property.params.VALUE)
+}
+
+function parseDateList(property: ICalProperty, defaultTimezone: string): ICalDateValue[] {
+  const timezone = resolveTimezone(property.params.TZID) || defaultTimezone
+  return property.value
+    .split(',')
+    .map(value => parseDateString(value, timezone, property.params.VALUE))
+    .filter((value): value is ICalDateValue => value !== null)
+}
+
+function parseDateString(value: string, timezone: string, valueType?: string): ICalDateValue | null {
+  const trimmed = value.trim()
+
+  if (valueType === 'DATE' || /^\d{8}$/.test(trimmed)) {
+    const dateTime = DateTime.fromFormat(trimmed, 'yyyyMMdd', { zone: timezone })
+    return dateTime.isValid ? { dateTime, isDate: true, timezone } : null
+  }
+
+  if (trimmed.endsWith('Z')) {
+    const dateTime = DateTime.fromFormat(trimmed.slice(0, -1), "yyyyMMdd'T'HHmmss", { zone: 'utc' })
+    return dateTime.isValid ? { dateTime: dateTime.setZone(timezone), isDate: false, timezone } : null
+  }
+
+  const dateTime = DateTime.fromFormat(trimmed, "yyyyMMdd'T'HHmmss", { zone: timezone })
+  return dateTime.isValid ? { dateTime, isDate: false, timezone } : null
+}
+
+/**
+ * Resolve a TZID to an IANA zone
+ *
+ * Feeds exported by some tools prefix zones (e.g. "/mozilla.org/20070129_1/Asia/Macau"),
+ * so the trailing "Area/City" segment is tried as well. Unknown zones fall back
+ * to the calendar default.
+ */
+function resolveTimezone(tzid?: string): string | null {
+  if (!tzid) {
+    return null
+  }
+  if (IANAZone.isValidZone(tzid)) {
+    return tzid
+  }
+  const trailing = tzid.match(/([A-Za-z_]+\/[A-Za-z_+-]+)$/)?.[1]
+  return trailing && IANAZone.isValidZone(trailing) ? trailing : null
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+}
+
+function splitEscapedList(value: string): string[] {
+  const items: string[] = []
+  let current = ''
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1]
+      i++
+    } else if (value[i] === ',') {
+      items.push(current)
+      current = ''
+    } else {
+      current += value[i]
+    }
+  }
+  items.push(current)
+  return items
+}
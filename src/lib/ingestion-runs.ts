@@ -0,0 +1,271 @@
+import { createAdminClient } from '@/lib/supabase'
+import { BASELINE_WINDOW } from '@/lib/source-health'
+import type { Database } from '@/types/database'
+
+type IngestionRunRow = Database['public']['Tables']['ingestion_runs']['Row']
+type IngestionRunSourceRow = Database['public']['Tables']['ingestion_run_sources']['Row']
+type SourceRow = Database['public']['Tables']['sources']['Row']
+
+export type IngestionRunStatus = IngestionRunRow['status']
+
+/**
+ * Outcome of ingesting one source within a run
+ */
+export interface SourceRunRecord {
+  sourceId: string
+  status: 'success' | 'failed'
+  startedAt: string
+  durationMs: number
+  rawCount: number          // events returned by the scraper/feed
+  normalizedCount: number   // events left after normalization
+  added: number
+  updated: number
+  skipped: number           // unchanged rows that were not rewritten
+  errorCount: number
+  usedBrowserFallback: boolean
+  errorBreakdown: Record<string, number>  // keyed by ScraperErrorType
+  baselineCount: number | null  // median normalized count of recent healthy runs
+  anomalous: boolean            // normalized count fell well below the baseline
+  rejectedCount: number         // events that failed schema validation
+  rejectionBreakdown: Record<string, number>  // keyed by RejectionCode
+  message?: string
+}
+
+export interface IngestionRunWithSources extends IngestionRunRow {
+  sources: IngestionRunSourceRow[]
+}
+
+export interface SourceHealth {
+  sourceId: string
+  name: string
+  active: boolean
+  breakerState: SourceRow['breaker_state']
+  lastRun: IngestionRunSourceRow | null
+  healthy: boolean
+}
+
+/**
+ * Create the run record; the run id is generated by the caller
+ */
+export async function startIngestionRun(
+  supabaseAdmin: any,
+  runId: string,
+  sourceFilter?: string[] | null
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('ingestion_runs')
+    .insert([{
+      id: runId,
+      status: 'running',
+      source_filter: sourceFilter && sourceFilter.length > 0 ? sourceFilter : null
+    }])
+
+  // Run records are diagnostics; ingestion continues without them
+  if (error) {
+    console.warn(`Failed to create ingestion run ${runId}:`, error.message)
+  }
+}
+
+export async function recordSourceRun(supabaseAdmin: any, runId: string, record: SourceRunRecord): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('ingestion_run_sources')
+    .insert([{
+      run_id: runId,
+      source_id: record.sourceId,
+      status: record.status,
+      started_at: record.startedAt,
+      duration_ms: record.durationMs,
+      raw_count: record.rawCount,
+      normalized_count: record.normalizedCount,
+      added_count: record.added,
+      updated_count: record.updated,
+      skipped_count: record.skipped,
+      error_count: record.errorCount,
+      used_browser_fallback: record.usedBrowserFallback,
+      error_breakdown: record.errorBreakdown,
+      baseline_count: record.baselineCount,
+      anomalous: record.anomalous,
+      rejected_count: record.rejectedCount,
+      rejection_breakdown: record.rejectionBreakdown,
+      message: record.message || null
+    }])
+
+  if (error) {
+    console.warn(`Failed to record ${record.sourceId} for ingestion run ${runId}:`, error.message)
+  }
+}
+
+export async function finishIngestionRun(
+  supabaseAdmin: any,
+  runId: string,
+  summary: {
+    status: IngestionRunStatus
+    startedAt: number
+    eventsProcessed: number
+    eventsAdded: number
+    eventsUpdated: number
+    eventsUnchanged: number
+    eventsMerged: number
+    errorCount: number
+  }
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('ingestion_runs')
+    .update({
+      status: summary.status,
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - summary.startedAt,
+      events_processed: summary.eventsProcessed,
+      events_added: summary.eventsAdded,
+      events_updated: summary.eventsUpdated,
+      events_unchanged: summary.eventsUnchanged,
+      events_merged: summary.eventsMerged,
+      error_count: summary.errorCount
+    })
+    .eq('id', runId)
+
+  if (error) {
+    console.warn(`Failed to finish ingestion run ${runId}:`, error.message)
+  }
+}
+
+/**
+ * When each source's most recent run started, or null if it never ran
+ * With healthyOnly, failed and anomalous runs are ignored.
+ */
+export async function getLastSourceRunTimes(
+  supabaseAdmin: any,
+  sourceIds: string[],
+  options: { healthyOnly?: boolean } = {}
+): Promise<Map<string, Date | null>> {
+  // One indexed lookup per source; a shared window could miss rarely-run sources
+  const entries = await Promise.all(sourceIds.map(async (sourceId): Promise<[string, Date | null]> => {
+    let query = supabaseAdmin
+      .from('ingestion_run_sources')
+      .select('started_at')
+      .eq('source_id', sourceId)
+
+    if (options.healthyOnly) {
+      query = query.eq('status', 'success').eq('anomalous', false)
+    }
+
+    const { data, error } = await query
+      .order('started_at', { ascending: false })
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to fetch last run for ${sourceId}: ${error.message}`)
+    }
+    return [sourceId, data && data.length > 0 ? new Date(data[0].started_at) : null]
+  }))
+
+  return new Map(entries)
+}
+
+/**
+ * Normalized counts of the source's recent healthy runs, newest first
+ * Failed and anomalous runs are left out so a broken stretch does not drag
+ * the baseline down and hide itself.
+ */
+export async function getRecentSourceCounts(supabaseAdmin: any, sourceId: string): Promise<number[]> {
+  const { data, error } = await supabaseAdmin
+    .from('ingestion_run_sources')
+    .select('normalized_count')
+    .eq('source_id', sourceId)
+    .eq('status', 'success')
+    .eq('anomalous', false)
+    .order('started_at', { ascending: false })
+    .limit(BASELINE_WINDOW)
+
+  if (error) {
+    console.warn(`Failed to fetch run history for ${sourceId}:`, error.message)
+    return []
+  }
+  return (data || []).map((row: { normalized_count: number }) => row.normalized_count)
+}
+
+/**
+ * Latest run and breaker state for every source
+ */
+export async function listSourceHealth(): Promise<SourceHealth[]> {
+  const supabaseAdmin = createAdminClient()
+
+  const { data: sources, error } = await supabaseAdmin
+    .from('sources')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch sources: ${error.message}`)
+  }
+
+  return Promise.all((sources || []).map(async (source): Promise<SourceHealth> => {
+    const { data, error: runError } = await supabaseAdmin
+      .from('ingestion_run_sources')
+      .select('*')
+      .eq('source_id', source.id)
+      .order('started_at', { ascending: false })
+      .limit(1)
+
+    if (runError) {
+      throw new Error(`Failed to fetch last run for ${source.id}: ${runError.message}`)
+    }
+
+    const lastRun = data && data.length > 0 ? data[0] : null
+    return {
+      sourceId: source.id,
+      name: source.name,
+      active: source.active,
+      breakerState: source.breaker_state,
+      lastRun,
+      healthy: source.breaker_state !== 'open' && (!lastRun || (lastRun.status === 'success' && !lastRun.anomalous))
+    }
+  }))
+}
+
+/**
+ * List recent runs with their per-source records, newest first
+ */
+export async function listIngestionRuns(options: {
+  limit?: number
+  sourceId?: string
+} = {}): Promise<IngestionRunWithSources[]> {
+  const supabaseAdmin = createAdminClient()
+  const limit = Math.min(Math.max(options.limit || 20, 1), 100)
+
+  let runIds: string[] | null = null
+  if (options.sourceId) {
+    const { data, error } = await supabaseAdmin
+      .from('ingestion_run_sources')
+      .select('run_id')
+      .eq('source_id', options.sourceId)
+      .order('started_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to fetch ingestion runs: ${error.message}`)
+    }
+    runIds = (data || []).map(row => row.run_id)
+    if (runIds.length === 0) {
+      return []
+    }
+  }
+
+  let query = supabaseAdmin
+    .from('ingestion_runs')
+    .select('*, sources:ingestion_run_sources(*)')
+    .order('started_at', { ascending: false })
+    .limit(limit)
+
+  if (runIds) {
+    query = query.in('id', runIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch ingestion runs: ${error.message}`)
+  }
+
+  return (data || []) as unknown as IngestionRunWithSources[]
+}
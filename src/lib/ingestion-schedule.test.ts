@@ -0,0 +1,42 @@
+import { isSourceDue, parseSchedule } from './ingestion-schedule'
+
+describe('parseSchedule', () => {
+  it('parses intervals and cron expressions', () => {
+    expect(parseSchedule('6h')).toEqual({ kind: 'interval', intervalMs: 6 * 60 * 60 * 1000 })
+    expect(parseSchedule('every 1w')).toEqual({ kind: 'interval', intervalMs: 7 * 24 * 60 * 60 * 1000 })
+    expect(parseSchedule('0 */4 * * 1-5')).toMatchObject({ kind: 'cron', anyDayOfMonth: true, anyDayOfWeek: false })
+  })
+
+  it('rejects invalid schedules', () => {
+    expect(parseSchedule('0h')).toBeNull()
+    expect(parseSchedule('61 * * * *')).toBeNull()
+    expect(parseSchedule('weekly')).toBeNull()
+  })
+})
+
+describe('isSourceDue', () => {
+  const now = new Date('2025-09-15T06:00:20.000Z') // Monday 14:00 in Macau
+
+  it('runs sources that have never been ingested', () => {
+    expect(isSourceDue('1w', null, now)).toBe(true)
+  })
+
+  it('tolerates runs that started a little after the previous tick', () => {
+    expect(isSourceDue('3h', new Date('2025-09-15T03:00:40.000Z'), now)).toBe(true)
+    expect(isSourceDue('3h', new Date('2025-09-15T04:00:00.000Z'), now)).toBe(false)
+  })
+
+  it('falls back to daily when no schedule is set', () => {
+    expect(isSourceDue(null, new Date('2025-09-14T06:00:00.000Z'), now)).toBe(true)
+    expect(isSourceDue(null, new Date('2025-09-14T18:00:00.000Z'), now)).toBe(false)
+  })
+
+  it('evaluates cron expressions in Macau time', () => {
+    // Last run Monday 07:00 Macau; 14:00 Macau is 06:00 UTC
+    const lastRunAt = new Date('2025-09-14T23:00:00.000Z')
+    expect(isSourceDue('0 14 * * 1', lastRunAt, now)).toBe(true)
+    expect(isSourceDue('0 6 * * 1', lastRunAt, now)).toBe(false)
+    // Already ran for this fire time
+    expect(isSourceDue('0 14 * * 1', new Date('2025-09-15T06:00:05.000Z'), now)).toBe(false)
+  })
+})
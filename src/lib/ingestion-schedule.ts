@@ -0,0 +1,150 @@
+import { DateTime } from 'luxon'
+
+const MACAU_TIMEZONE = 'Asia/Macau'
+
+// Sources without a schedule keep the old once-a-day behaviour
+export const DEFAULT_SCHEDULE = '1d'
+
+// Runs start a little after the tick that triggered them, so an interval
+// measured from the last start would otherwise slip by a whole tick
+const TICK_TOLERANCE_MS = 5 * 60 * 1000
+
+// How far back to look for a missed cron fire time
+const MAX_CRON_LOOKBACK_MS = 35 * 24 * 60 * 60 * 1000
+
+const MINUTE_MS = 60 * 1000
+
+const INTERVAL_UNITS: Record<string, number> = {
+  m: MINUTE_MS,
+  h: 60 * MINUTE_MS,
+  d: 24 * 60 * MINUTE_MS,
+  w: 7 * 24 * 60 * MINUTE_MS
+}
+
+export type IngestionSchedule =
+  | { kind: 'interval'; intervalMs: number }
+  | { kind: 'cron'; minutes: Set<number>; hours: Set<number>; daysOfMonth: Set<number>; months: Set<number>; daysOfWeek: Set<number>; anyDayOfMonth: boolean; anyDayOfWeek: boolean }
+
+/**
+ * Parse a source schedule
+ *
+ * Accepts an interval ("30m", "6h", "1d", "1w", optionally prefixed with
+ * "every ") or a five-field cron expression evaluated in Macau time
+ * ("0 9 * * 1" = Mondays 09:00). Returns null when the value is invalid.
+ */
+export function parseSchedule(value: string): IngestionSchedule | null {
+  const schedule = value.trim().toLowerCase()
+
+  const interval = schedule.match(/^(?:every\s+)?(\d+)\s*([mhdw])$/)
+  if (interval) {
+    const intervalMs = parseInt(interval[1], 10) * INTERVAL_UNITS[interval[2]]
+    return intervalMs > 0 ? { kind: 'interval', intervalMs } : null
+  }
+
+  const fields = schedule.split(/\s+/)
+  if (fields.length !== 5) {
+    return null
+  }
+
+  const minutes = parseCronField(fields[0], 0, 59)
+  const hours = parseCronField(fields[1], 0, 23)
+  const daysOfMonth = parseCronField(fields[2], 1, 31)
+  const months = parseCronField(fields[3], 1, 12)
+  const daysOfWeek = parseCronField(fields[4], 0, 7)
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+    return null
+  }
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0)
+  }
+
+  return {
+    kind: 'cron',
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  }
+}
+
+/**
+ * Decide whether a source should be ingested on this tick
+ *
+ * @param schedule - the source's schedule, or null for the default
+ * @param lastRunAt - when the source's last run started, or null if it never ran
+ */
+export function isSourceDue(schedule: string | null, lastRunAt: Date | null, now: Date = new Date()): boolean {
+  if (!lastRunAt) {
+    return true
+  }
+
+  const parsed = parseSchedule(schedule || DEFAULT_SCHEDULE)
+  if (!parsed) {
+    console.warn(`Invalid ingestion schedule "${schedule}", using ${DEFAULT_SCHEDULE}`)
+    return isSourceDue(DEFAULT_SCHEDULE, lastRunAt, now)
+  }
+
+  if (parsed.kind === 'interval') {
+    return now.getTime() - lastRunAt.getTime() >= parsed.intervalMs - TICK_TOLERANCE_MS
+  }
+
+  // Due if the expression fired at any minute since the last run
+  const from = Math.max(lastRunAt.getTime(), now.getTime() - MAX_CRON_LOOKBACK_MS)
+  const firstMinute = Math.floor(from / MINUTE_MS) * MINUTE_MS + MINUTE_MS
+  // Macau has no daylight saving, so one offset covers the whole window
+  const offsetMs = DateTime.fromJSDate(now).setZone(MACAU_TIMEZONE).offset * MINUTE_MS
+
+  for (let time = firstMinute; time <= now.getTime(); time += MINUTE_MS) {
+    if (cronMatches(parsed, new Date(time + offsetMs))) {
+      return true
+    }
+  }
+  return false
+}
+
+function cronMatches(schedule: Extract<IngestionSchedule, { kind: 'cron' }>, local: Date): boolean {
+  if (!schedule.minutes.has(local.getUTCMinutes()) || !schedule.hours.has(local.getUTCHours())) {
+    return false
+  }
+  if (!schedule.months.has(local.getUTCMonth() + 1)) {
+    return false
+  }
+
+  const dayOfMonth = schedule.daysOfMonth.has(local.getUTCDate())
+  const dayOfWeek = schedule.daysOfWeek.has(local.getUTCDay())
+
+  // Standard cron: when both day fields are restricted, either may match
+  if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek
+  }
+  return dayOfMonth && dayOfWeek
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/)
+    if (!match) {
+      return null
+    }
+
+    const start = match[1] === '*' ? min : parseInt(match[2], 10)
+    const end = match[1] === '*' ? max : match[3] !== undefined ? parseInt(match[3], 10) : match[4] ? max : start
+    const step = match[4] ? parseInt(match[4], 10) : 1
+
+    if (start < min || end > max || start > end || step < 1) {
+      return null
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
@@ -0,0 +1,73 @@
+import { pickLegacyRow } from './legacy-event-match'
+import type { Database } from '@/types/database'
+
+type EventRow = Database['public']['Tables']['events']['Row']
+
+const ARTICLE_URL = 'https://www.macaodaily.com/html/2025-08/28/content_1853993.htm'
+
+function row(overrides: Partial<EventRow>): EventRow {
+  return {
+    id: 'id',
+    source: 'web_scraper',
+    source_id: 'macau_daily_structured_1756368000000_0',
+    title: '青年書法比賽10月12日於塔石體育館舉行',
+    description: null,
+    long_description: null,
+    start_time_utc: '2025-10-12T02:00:00.000Z',
+    end_time_utc: null,
+    timezone: 'Asia/Macau',
+    venue_name: null,
+    city: '澳門',
+    country: 'MO',
+    lat: null,
+    lng: null,
+    categories: [],
+    tags: [],
+    image_url: null,
+    organizer_name: 'Macau Daily',
+    external_url: ARTICLE_URL,
+    last_seen_at: '2025-08-28T00:00:00.000Z',
+    canonical_event_id: null,
+    source_urls: [],
+    merged_fields: null,
+    content_hash: null,
+    ingestion_source_id: null,
+    archived_at: null,
+    archived_reason: null,
+    date_parse: null,
+    needs_review: false,
+    previous_source_ids: [],
+    ...overrides
+  }
+}
+
+describe('pickLegacyRow', () => {
+  const event = { title: '青年書法比賽10月12日於塔石體育館舉行', externalUrl: ARTICLE_URL }
+
+  it('picks the most recently seen copy stored under the old timestamp IDs', () => {
+    const older = row({ id: 'old', source_id: 'macau_daily_structured_1756368000000_0' })
+    const newer = row({ id: 'new', source_id: 'macau_daily_structured_1756454400000_3', last_seen_at: '2025-08-29T00:00:00.000Z' })
+
+    expect(pickLegacyRow(event, [older, newer])?.id).toBe('new')
+  })
+
+  it('tells apart events from one article by title', () => {
+    const other = row({ id: 'other', title: '澳門國際煙花比賽匯演', last_seen_at: '2025-08-30T00:00:00.000Z' })
+    const same = row({ id: 'same' })
+
+    expect(pickLegacyRow(event, [other, same])?.id).toBe('same')
+  })
+
+  it('falls back to the URL when the article has a single, retitled event', () => {
+    expect(pickLegacyRow({ ...event, title: '青年書法比賽' }, [row({ id: 'a' })])?.id).toBe('a')
+    expect(pickLegacyRow({ ...event, title: '青年書法比賽' }, [
+      row({ id: 'a' }),
+      row({ id: 'b', title: '澳門國際煙花比賽匯演' })
+    ])).toBeUndefined()
+  })
+
+  it('skips rows already claimed by another event and events without a URL', () => {
+    expect(pickLegacyRow(event, [row({ id: 'a' })], new Set(['a']))).toBeUndefined()
+    expect(pickLegacyRow({ title: event.title }, [row({ id: 'a' })])).toBeUndefined()
+  })
+})
@@ -0,0 +1,32 @@
+import type { Database } from '@/types/database'
+
+type EventRow = Database['public']['Tables']['events']['Row']
+
+/**
+ * Pick the stored row an event was saved as before it had a stable source ID
+ *
+ * Some scrapers used throwaway IDs (e.g. Macau Daily's
+ * `macau_daily_structured_<timestamp>_<index>`), so the old row can only be
+ * found by its article URL and title. A URL alone is enough when every
+ * candidate under it has the same title. Each run stored the event again,
+ * so the most recently seen copy wins; rows in `claimed` were already taken
+ * by another event in this batch.
+ */
+export function pickLegacyRow(
+  event: { title?: string; externalUrl?: string },
+  candidates: EventRow[],
+  claimed: Set<string> = new Set()
+): EventRow | undefined {
+  if (!event.externalUrl) {
+    return undefined
+  }
+
+  const sameUrl = candidates.filter(row => row.external_url === event.externalUrl && !claimed.has(row.id))
+  const title = event.title?.trim()
+  let matches = sameUrl.filter(row => row.title.trim() === title)
+  if (matches.length === 0 && new Set(sameUrl.map(row => row.title.trim())).size === 1) {
+    matches = sameUrl
+  }
+
+  return [...matches].sort((a, b) => Date.parse(b.last_seen_at) - Date.parse(a.last_seen_at))[0]
+}
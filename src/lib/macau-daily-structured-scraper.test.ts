@@ -0,0 +1,28 @@
+/**
+ * @jest-environment node
+ */
+import { scrapeMacauDailyStructuredEvents } from './macau-daily-structured-scraper'
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterAll(() => {
+  jest.restoreAllMocks()
+})
+
+describe('scrapeMacauDailyStructuredEvents', () => {
+  it('lets ingestion find rows stored under the old timestamp IDs', async () => {
+    const html = '<a href="content_1853993.htm">青年書法比賽10月12日於塔石體育館舉行</a>'
+
+    const result = await scrapeMacauDailyStructuredEvents(async () => html)
+
+    expect(result.events).toHaveLength(1)
+    expect(result.events[0]).toMatchObject({
+      sourceId: expect.stringMatching(/^macaodaily\.com-[0-9a-f]{16}$/),
+      legacySourceIdPrefix: 'macau_daily_structured_',
+      externalUrl: 'https://www.macaodaily.com/html/2025-08/28/content_1853993.htm'
+    })
+    expect(result.events[0].legacySourceId).toBeUndefined()
+  })
+})
@@ -1,11 +1,14 @@
-import type { Event } from '@/types'
+import type { DateParseInfo, Event } from '@/types'
 import axios from 'axios'
 import * as cheerio from 'cheerio'
+import { createSourceId, parseMacauDate, type ParsedOccurrence } from './date-macau'
 
 interface MacauDailyEvent {
   title: string
-  startDate: string
-  endDate?: string
+  startDate: string         // ISO (UTC)
+  endDate?: string          // ISO (UTC)
+  occurrences?: ParsedOccurrence[]
+  dateParse: DateParseInfo
   venue: string
   city: string
   country: string
@@ -13,7 +16,6 @@ interface MacauDailyEvent {
   externalUrl: string
   categories: string[]
   tags: string[]
-  isAllDay?: boolean
 }
 
 interface MacauDailyScrapingResult {
@@ -22,79 +24,23 @@ interface MacauDailyScrapingResult {
   errors: string[]
 }
 
-// Based on ChatGPT analysis of actual events from Aug 28, 2025 edition
-const KNOWN_EVENTS: MacauDailyEvent[] = [
-  {
-    title: "琴島森呼吸·健康生活季（康養主題活動）",
-    startDate: "2025-08-30",
-    venue: "澳琴中醫藥文化街（橫琴中醫藥產業園）",
-    city: "珠海（橫琴）",
-    country: "CN",
-    description: "琴島森呼吸·健康生活季康養主題活動，在橫琴粵澳合作中醫藥科技產業園舉行",
-    externalUrl: "https://www.macaodaily.com/html/2025-08/28/content_1853993.htm",
-    categories: ["local_events", "health"],
-    tags: ["康養", "中醫", "戶外", "健康生活"]
-  },
-  {
-    title: "琴島森呼吸·健康生活季（康養主題活動）",
-    startDate: "2025-09-13",
-    venue: "澳琴中醫藥文化街（橫琴中醫藥產業園）",
-    city: "珠海（橫琴）",
-    country: "CN",
-    description: "琴島森呼吸·健康生活季康養主題活動，在橫琴粵澳合作中醫藥科技產業園舉行",
-    externalUrl: "https://www.macaodaily.com/html/2025-08/28/content_1853993.htm",
-    categories: ["local_events", "health"],
-    tags: ["康養", "中醫", "戶外", "健康生活"]
-  },
-  {
-    title: "琴島森呼吸·健康生活季（康養主題活動）",
-    startDate: "2025-09-20",
-    venue: "澳琴中醫藥文化街（橫琴中醫藥產業園）",
-    city: "珠海（橫琴）",
-    country: "CN",
-    description: "琴島森呼吸·健康生活季康養主題活動，在橫琴粵澳合作中醫藥科技產業園舉行",
-    externalUrl: "https://www.macaodaily.com/html/2025-08/28/content_1853993.htm",
-    categories: ["local_events", "health"],
-    tags: ["康養", "中醫", "戶外", "健康生活"]
-  },
-  {
-    title: "2025 香港小姐競選決賽",
-    startDate: "2025-08-31",
-    venue: "將軍澳電視城",
-    city: "香港",
-    country: "HK",
-    description: "2025年香港小姐競選決賽，在將軍澳電視城舉行",
-    externalUrl: "https://www.macaodaily.com/html/2025-08/28/content_1853793.htm",
-    categories: ["entertainment", "competition"],
-    tags: ["香港小姐", "選美", "電視", "娛樂"]
-  },
-  {
-    title: "可口可樂盃青少年小球聯賽（開賽）",
-    startDate: "2025-09-17",
-    venue: "澳門",
-    city: "澳門",
-    country: "MO",
-    description: "可口可樂盃青少年小球聯賽開賽，由工聯體委會主辦",
-    externalUrl: "https://www.macaodaily.com/html/2025-08/28/content_1853918.htm",
-    categories: ["sports", "competition"],
-    tags: ["足球", "青少年", "聯賽", "體育"]
-  },
-  {
-    title: "「都市沒藥」梁潔雯工筆畫展",
-    startDate: "2025-08-28", // Publication date as fallback
-    endDate: "2025-09-13",
-    venue: "官樂怡基金會畫廊",
-    city: "澳門",
-    country: "MO",
-    description: "「都市沒藥」梁潔雯工筆畫展，展期至2025年9月13日",
-    externalUrl: "https://www.macaodaily.com/html/2025-08/28/content_1853933.htm",
-    categories: ["entertainment", "art"],
-    tags: ["工筆畫", "藝術展", "畫廊", "文化"],
-    isAllDay: true
-  }
-]
+export const MACAU_DAILY_URL = 'https://www.macaodaily.com/html/2025-08/28/node_2.htm'
+
+/**
+ * Publication date of the edition a page belongs to, from URLs like
+ * .../html/2025-08/28/node_2.htm; null when the URL has no date
+ */
+export function getEditionDate(url: string): Date | null {
+  const match = url.match(/\/html\/(\d{4})-(\d{2})\/(\d{2})\//)
+  return match ? new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00+08:00`) : null
+}
 
-export async function scrapeMacauDailyStructuredEvents(): Promise<MacauDailyScrapingResult> {
+/**
+ * @param fetchPage - loads the page HTML; tests inject stored fixtures here
+ */
+export async function scrapeMacauDailyStructuredEvents(
+  fetchPage: (url: string) => Promise<string> = fetchMacauDailyPage
+): Promise<MacauDailyScrapingResult> {
   const result: MacauDailyScrapingResult = {
     success: false,
     events: [],
@@ -104,50 +50,36 @@ export async function scrapeMacauDailyStructuredEvents(): Promise<MacauDailyScra
   try {
     console.log('Attempting to scrape structured events from Macau Daily')
     
-    // First, try to fetch the actual page to see if we can extract more events
-    const response = await axios.get('https://www.macaodaily.com/html/2025-08/28/node_2.htm', {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1'
-      },
-      timeout: 15000
-    })
-
-    const html = response.data
-    const extractedEvents = parseStructuredEvents(html)
-    
-    // Combine known events with any newly extracted ones
-    const allEvents = [...KNOWN_EVENTS, ...extractedEvents]
-    
-    if (allEvents.length === 0) {
-      // Fallback to known events only
-      console.log('No new events extracted, using known events')
-      result.events = convertStructuredEventsToCalendarEvents(KNOWN_EVENTS)
-    } else {
-      // Convert all events to calendar format
-      result.events = convertStructuredEventsToCalendarEvents(allEvents)
-    }
-    
+    const html = await fetchPage(MACAU_DAILY_URL)
+    // Headlines say "9月13日" without a year; read them against the edition's date
+    const editionDate = getEditionDate(MACAU_DAILY_URL) || new Date()
+    result.events = convertStructuredEventsToCalendarEvents(parseStructuredEvents(html, editionDate))
     result.success = true
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     result.errors.push(`Failed to scrape Macau Daily: ${errorMessage}`)
-    
-    // Fallback to known events if scraping fails
-    console.log('Scraping failed, using known events as fallback')
-    result.events = convertStructuredEventsToCalendarEvents(KNOWN_EVENTS)
-    result.success = true
   }
 
   return result
 }
 
-function parseStructuredEvents(html: string): MacauDailyEvent[] {
+async function fetchMacauDailyPage(url: string): Promise<string> {
+  const response = await axios.get(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+      'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
+      'Accept-Encoding': 'gzip, deflate, br',
+      'Connection': 'keep-alive',
+      'Upgrade-Insecure-Requests': '1'
+    },
+    timeout: 15000
+  })
+  return response.data
+}
+
+function parseStructuredEvents(html: string, editionDate: Date): MacauDailyEvent[] {
   const events: MacauDailyEvent[] = []
   
   try {
@@ -165,22 +97,23 @@ function parseStructuredEvents(html: string): MacauDailyEvent[] {
       
       if (href && title && title.length > 3) {
         // Try to extract event information from title
-        const eventInfo = extractEventInfoFromTitle(title)
+        const eventInfo = extractEventInfoFromTitle(title, editionDate)
         if (eventInfo) {
           const fullUrl = href.startsWith('http') ? href : `https://www.macaodaily.com/html/2025-08/28/${href}`
           
           events.push({
             title: eventInfo.title || title,
-            startDate: eventInfo.startDate,
+            startDate: eventInfo.startDate!,
             endDate: eventInfo.endDate,
+            occurrences: eventInfo.occurrences,
+            dateParse: eventInfo.dateParse!,
             venue: eventInfo.venue || '澳門',
             city: eventInfo.city || '澳門',
             country: eventInfo.country || 'MO',
             description: `Event extracted from Macau Daily: ${title}`,
             externalUrl: fullUrl,
             categories: eventInfo.categories || ['local_events'],
-            tags: eventInfo.tags || ['macau', 'news'],
-            isAllDay: eventInfo.isAllDay
+            tags: eventInfo.tags || ['macau', 'news']
           })
         }
       }
@@ -193,19 +126,9 @@ function parseStructuredEvents(html: string): MacauDailyEvent[] {
   return events
 }
 
-function extractEventInfoFromTitle(title: string): Partial<MacauDailyEvent> | null {
+function extractEventInfoFromTitle(title: string, editionDate: Date): Partial<MacauDailyEvent> | null {
   const lowerTitle = title.toLowerCase()
   
-  // Date patterns
-  const datePatterns = [
-    /本周六|下周六|週六/,
-    /本周日|下周日|週日/,
-    /下月(\d+)日/,
-    /(\d+)月(\d+)日/,
-    /展期至(\d+)月(\d+)日/,
-    /於(\d+)月(\d+)日/
-  ]
-  
   // Location patterns
   const locationPatterns = [
     /於(.{2,20}?)(舉行|揭幕|電視城|畫廊|文化街|劇院|體育館|學校|大學)/,
@@ -221,33 +144,10 @@ function extractEventInfoFromTitle(title: string): Partial<MacauDailyEvent> | nu
     return null
   }
   
-  // Extract date information
-  let startDate = ''
-  let endDate = ''
-  let isAllDay = false
-  
-  for (const pattern of datePatterns) {
-    const match = title.match(pattern)
-    if (match) {
-      if (pattern.source.includes('週六') || pattern.source.includes('周六')) {
-        // Calculate next Saturday from current date
-        const nextSaturday = getNextSaturday()
-        startDate = nextSaturday
-        isAllDay = true
-      } else if (pattern.source.includes('週日') || pattern.source.includes('周日')) {
-        // Calculate next Sunday from current date
-        const nextSunday = getNextSunday()
-        startDate = nextSunday
-        isAllDay = true
-      } else if (match[1] && match[2]) {
-        // Extract month and day
-        const month = parseInt(match[1])
-        const day = parseInt(match[2])
-        const year = 2025 // Assuming 2025 based on the source
-        startDate = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`
-      }
-      break
-    }
+  // Headlines carry the date, e.g. "青年書法比賽10月12日於塔石體育館舉行"
+  const parsedDate = parseMacauDate(title, editionDate)
+  if (!parsedDate.start) {
+    return null
   }
   
   // Extract location information
@@ -275,38 +175,18 @@ function extractEventInfoFromTitle(title: string): Partial<MacauDailyEvent> | nu
   // Determine categories based on content
   const categories = determineEventCategories(title)
   
-  // Only return if we have meaningful information
-  if (startDate || venue) {
-    return {
-      title,
-      startDate,
-      endDate,
-      venue,
-      city,
-      country,
-      categories,
-      tags: ['extracted', 'macau', 'news'],
-      isAllDay
-    }
+  return {
+    title,
+    startDate: parsedDate.start,
+    endDate: parsedDate.end || undefined,
+    occurrences: parsedDate.occurrences,
+    dateParse: parsedDate.info,
+    venue,
+    city,
+    country,
+    categories,
+    tags: ['extracted', 'macau', 'news']
   }
-  
-  return null
-}
-
-function getNextSaturday(): string {
-  const today = new Date()
-  const daysUntilSaturday = (6 - today.getDay() + 7) % 7
-  const nextSaturday = new Date(today)
-  nextSaturday.setDate(today.getDate() + daysUntilSaturday)
-  return nextSaturday.toISOString().split('T')[0]
-}
-
-function getNextSunday(): string {
-  const today = new Date()
-  const daysUntilSunday = (0 - today.getDay() + 7) % 7
-  const nextSunday = new Date(today)
-  nextSunday.setDate(today.getDate() + daysUntilSunday)
-  return nextSunday.toISOString().split('T')[0]
 }
 
 function determineEventCategories(title: string): string[] {
@@ -344,37 +224,24 @@ function determineEventCategories(title: string): string[] {
 
 function convertStructuredEventsToCalendarEvents(events: MacauDailyEvent[]): Partial<Event>[] {
   return events.map((event, index) => {
-    // Parse start date
-    const startDate = new Date(event.startDate)
-    let endDate: Date
-    
-    if (event.endDate) {
-      endDate = new Date(event.endDate)
-      endDate.setHours(23, 59, 59) // End of day
-    } else {
-      endDate = new Date(startDate)
-      if (event.isAllDay) {
-        endDate.setHours(23, 59, 59) // End of day
-      } else {
-        endDate.setHours(startDate.getHours() + 2) // Default 2 hour duration
-      }
-    }
-    
-    // Set default time for all-day events
-    if (event.isAllDay) {
-      startDate.setHours(0, 0, 0, 0)
-    } else {
-      startDate.setHours(10, 0, 0, 0) // Default 10 AM start
-    }
-    
+    // Articles are news reports, so an event is identified by its content rather than the article URL
     return {
       source: 'web_scraper',
-      sourceId: `macau_daily_structured_${Date.now()}_${index}`,
+      sourceId: createSourceId({ hostDomain: 'macaodaily.com', title: event.title, startDate: event.startDate, venue: event.venue }),
+      // Rows stored before stable IDs used macau_daily_structured_<timestamp>_<index>
+      legacySourceIdPrefix: 'macau_daily_structured_',
       title: event.title,
       description: event.description,
       longDescription: `${event.description} - 地點：${event.venue}，${event.city}，${event.country}`,
-      startTime: startDate.toISOString(),
-      endTime: endDate.toISOString(),
+      startTime: event.startDate,
+      endTime: event.endDate,
+      ...(event.occurrences && {
+        occurrences: event.occurrences.map(occurrence => ({
+          startTime: occurrence.start,
+          endTime: occurrence.end
+        }))
+      }),
+      dateParse: event.dateParse,
       timezone: 'Asia/Macau',
       venueName: event.venue,
       city: event.city,
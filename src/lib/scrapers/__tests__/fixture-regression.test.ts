@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { getScraperDefinitions } from '../registry'
+import { loadFixtureTransport } from '../transport'
+import { scrapeMacauDailyStructuredEvents } from '../../macau-daily-structured-scraper'
+
+/**
+ * Runs every scraper against stored HTML and compares the output with golden
+ * JSON in tests/fixtures/macau/golden. Each scraper gets a fixture transport
+ * built from manifest.json, so nothing touches the network; pages missing
+ * from the manifest answer 404.
+ *
+ * After an intentional parsing change, re-record the golden files with
+ * `npm run test:fixtures:update` and review the diff.
+ */
+
+const FIXTURE_DIR = join(__dirname, '../../../../tests/fixtures/macau')
+const GOLDEN_DIR = join(FIXTURE_DIR, 'golden')
+const UPDATE_GOLDEN = process.env.UPDATE_SCRAPER_GOLDEN === 'true'
+
+// Scrapers read relative dates and missing years against this; Macau Daily
+// uses its edition date instead. The clock is also fixed for lastSeenAt.
+const FIXED_NOW = new Date('2024-03-01T00:00:00.000Z')
+
+const MANIFEST_FILE = join(FIXTURE_DIR, 'manifest.json')
+
+const manifest: Record<string, unknown> = JSON.parse(readFileSync(MANIFEST_FILE, 'utf-8'))
+
+function expectGolden(sourceId: string, events: unknown[]) {
+  const goldenFile = join(GOLDEN_DIR, `${sourceId}.json`)
+  // Round-trip through JSON so undefined fields compare like the stored file
+  const actual = JSON.parse(JSON.stringify(events))
+
+  if (UPDATE_GOLDEN) {
+    writeFileSync(goldenFile, JSON.stringify(actual, null, 2) + '\n')
+  } else if (!existsSync(goldenFile)) {
+    throw new Error(`No golden output for ${sourceId}; record it with npm run test:fixtures:update`)
+  }
+  expect(actual).toEqual(JSON.parse(readFileSync(goldenFile, 'utf-8')))
+}
+
+describe('scraper fixture regression', () => {
+  const originalFirecrawlKey = process.env.FIRECRAWL_API_KEY
+
+  beforeAll(() => {
+    // MGTO switches to AI extraction when a Firecrawl key is configured
+    delete process.env.FIRECRAWL_API_KEY
+    jest.useFakeTimers({
+      now: FIXED_NOW,
+      doNotFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'setImmediate', 'clearImmediate', 'nextTick', 'queueMicrotask']
+    })
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    process.env.FIRECRAWL_API_KEY = originalFirecrawlKey
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('has fixtures for every registered scraper', () => {
+    const missing = getScraperDefinitions()
+      .map(definition => definition.id)
+      .filter(id => !manifest[id])
+
+    expect(missing).toEqual([])
+  })
+
+  it.each(getScraperDefinitions().map(definition => [definition.id, definition] as const))(
+    '%s matches its golden output',
+    async (sourceId, definition) => {
+      const scraper = definition.create(loadFixtureTransport(MANIFEST_FILE, sourceId))
+      scraper.setReferenceDate?.(FIXED_NOW)
+
+      const events = await scraper.fetchAndParse()
+
+      expect(events.length).toBeGreaterThan(0)
+      expectGolden(sourceId, events)
+    }
+  )
+
+  it('macau-daily matches its golden output', async () => {
+    const transport = loadFixtureTransport(MANIFEST_FILE, 'macau-daily')
+    const fetchPage = async (url: string) => {
+      const response = await transport.get({ url, headers: {}, timeout: 0, maxRedirects: 0 })
+      if (response.status !== 200) {
+        throw new Error(`No fixture for ${url}`)
+      }
+      return response.data
+    }
+
+    const result = await scrapeMacauDailyStructuredEvents(fetchPage)
+
+    expect(result.errors).toEqual([])
+    expectGolden('macau-daily', result.events)
+  })
+})
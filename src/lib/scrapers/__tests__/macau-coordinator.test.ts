@@ -1,104 +1,157 @@
+/**
+ * @jest-environment node
+ */
 import { MacauCoordinator } from '../macau-coordinator'
 import { RawEvent } from '../types'
 
 // Mock the individual scrapers
 jest.mock('../macau/mgto', () => ({
-  MGTOScraper: jest.fn().mockImplementation(() => ({
-    getSourceId: () => 'mgto',
-    getRateLimitConfig: () => ({ requestsPerSecond: 0.5, maxRetries: 3, retryDelayMs: 2000 }),
-    fetchAndParse: () => Promise.resolve([
-      {
-        source: 'mgto',
-        source_id: 'mgto-test-1',
-        title: 'Test MGTO Event',
-        description: 'Test event from MGTO',
-        start: '2024-03-15T10:00:00Z',
-        venue: 'Test Venue',
-        city: 'Macau',
-        url: 'https://example.com/event1',
-        categories: ['cultural']
-      } as RawEvent
-    ])
-  }))
+  mgtoScraperDefinition: {
+    id: 'mgto',
+    displayName: 'Macau Government Tourism Office',
+    organizer: 'Macau Government Tourism Office',
+    coordinates: { lat: 22.1987, lng: 113.5439 },
+    tags: ['government', 'tourism'],
+    create: () => ({
+      getSourceId: () => 'mgto',
+      getRateLimitConfig: () => ({ requestsPerSecond: 0.5, maxRetries: 3, retryDelayMs: 2000 }),
+      fetchAndParse: () => Promise.resolve([
+        {
+          source: 'mgto',
+          source_id: 'mgto-test-1',
+          title: 'Test MGTO Event',
+          description: 'Test event from MGTO',
+          start: '2024-03-15T10:00:00Z',
+          venue: 'Test Venue',
+          city: 'Macau',
+          url: 'https://example.com/event1',
+          categories: ['cultural']
+        } as RawEvent
+      ])
+    })
+  }
 }))
 
 jest.mock('../macau/sands', () => ({
-  createLondonerScraper: () => ({
-    getSourceId: () => 'londoner',
-    getRateLimitConfig: () => ({ requestsPerSecond: 1, maxRetries: 3, retryDelayMs: 1500 }),
-    fetchAndParse: () => Promise.resolve([
-      {
-        source: 'londoner',
-        source_id: 'londoner-test-1',
-        title: 'Test Londoner Show',
-        description: 'Entertainment at The Londoner',
-        start: '2024-03-16T20:00:00Z',
-        venue: 'The Londoner Macao',
-        city: 'Macau',
-        url: 'https://londonermacao.com/show1',
-        ticket_url: 'https://tickets.com/show1',
-        categories: ['entertainment']
-      } as RawEvent
-    ])
-  }),
-  createVenetianScraper: () => ({
-    getSourceId: () => 'venetian',
-    getRateLimitConfig: () => ({ requestsPerSecond: 1, maxRetries: 3, retryDelayMs: 1500 }),
-    fetchAndParse: () => Promise.resolve([
-      {
-        source: 'venetian',
-        source_id: 'venetian-test-1',
-        title: 'Test Venetian Concert',
-        description: 'Music at The Venetian',
-        start: '2024-03-17T19:00:00Z',
-        venue: 'The Venetian Macao',
-        city: 'Macau',
-        url: 'https://venetianmacao.com/concert1',
-        categories: ['concert']
-      } as RawEvent
-    ])
-  })
+  londonerScraperDefinition: {
+    id: 'londoner',
+    displayName: 'The Londoner Macao',
+    organizer: 'The Londoner Macao',
+    coordinates: { lat: 22.1430, lng: 113.5571 },
+    tags: ['londoner', 'sands', 'resort'],
+    create: () => ({
+      getSourceId: () => 'londoner',
+      getRateLimitConfig: () => ({ requestsPerSecond: 1, maxRetries: 3, retryDelayMs: 1500 }),
+      fetchAndParse: () => Promise.resolve([
+        {
+          source: 'londoner',
+          source_id: 'londoner-test-1',
+          title: 'Test Londoner Show',
+          description: 'Entertainment at The Londoner',
+          start: '2024-03-16T20:00:00Z',
+          venue: 'The Londoner Macao',
+          city: 'Macau',
+          url: 'https://londonermacao.com/show1',
+          ticket_url: 'https://tickets.com/show1',
+          categories: ['entertainment']
+        } as RawEvent
+      ])
+    })
+  },
+  venetianScraperDefinition: {
+    id: 'venetian',
+    displayName: 'The Venetian Macao',
+    organizer: 'The Venetian Macao',
+    coordinates: { lat: 22.1435, lng: 113.5586 },
+    tags: ['venetian', 'sands', 'resort'],
+    create: () => ({
+      getSourceId: () => 'venetian',
+      getRateLimitConfig: () => ({ requestsPerSecond: 1, maxRetries: 3, retryDelayMs: 1500 }),
+      fetchAndParse: () => Promise.resolve([
+        {
+          source: 'venetian',
+          source_id: 'venetian-test-1',
+          title: 'Test Venetian Concert',
+          description: 'Music at The Venetian',
+          start: '2024-03-17T19:00:00Z',
+          venue: 'The Venetian Macao',
+          city: 'Macau',
+          url: 'https://venetianmacao.com/concert1',
+          categories: ['concert']
+        } as RawEvent
+      ])
+    })
+  }
 }))
 
 jest.mock('../macau/galaxy', () => ({
-  GalaxyScraper: jest.fn().mockImplementation(() => ({
-    getSourceId: () => 'galaxy',
-    getRateLimitConfig: () => ({ requestsPerSecond: 1, maxRetries: 3, retryDelayMs: 1500 }),
-    fetchAndParse: () => Promise.resolve([
-      {
-        source: 'galaxy',
-        source_id: 'galaxy-test-1',
-        title: 'Test Galaxy Event',
-        description: 'Entertainment at Galaxy',
-        start: '2024-03-18T21:00:00Z',
-        venue: 'Galaxy Macau',
-        city: 'Macau',
-        url: 'https://galaxymacau.com/event1',
-        categories: ['entertainment']
-      } as RawEvent
-    ])
-  }))
+  galaxyScraperDefinition: {
+    id: 'galaxy',
+    displayName: 'Galaxy Macau',
+    organizer: 'Galaxy Macau',
+    coordinates: { lat: 22.1390, lng: 113.5560 },
+    tags: ['galaxy', 'resort'],
+    create: () => ({
+      getSourceId: () => 'galaxy',
+      getRateLimitConfig: () => ({ requestsPerSecond: 1, maxRetries: 3, retryDelayMs: 1500 }),
+      fetchAndParse: () => Promise.resolve([
+        {
+          source: 'galaxy',
+          source_id: 'galaxy-test-1',
+          title: 'Test Galaxy Event',
+          description: 'Entertainment at Galaxy',
+          start: '2024-03-18T21:00:00Z',
+          venue: 'Galaxy Macau',
+          city: 'Macau',
+          url: 'https://galaxymacau.com/event1',
+          categories: ['entertainment']
+        } as RawEvent
+      ])
+    })
+  }
 }))
 
 jest.mock('../macau/mice', () => ({
-  MICEScraper: jest.fn().mockImplementation(() => ({
-    getSourceId: () => 'mice',
-    getRateLimitConfig: () => ({ requestsPerSecond: 0.5, maxRetries: 3, retryDelayMs: 2000 }),
-    fetchAndParse: () => Promise.resolve([
-      {
-        source: 'mice',
-        source_id: 'mice-test-1',
-        title: 'Test MICE Convention',
-        description: 'Business convention',
-        start: '2024-03-19T09:00:00Z',
-        end: '2024-03-20T17:00:00Z',
-        venue: 'Convention Center',
-        city: 'Macau',
-        url: 'https://mice.gov.mo/convention1',
-        categories: ['business']
-      } as RawEvent
-    ])
-  }))
+  miceScraperDefinition: {
+    id: 'mice',
+    displayName: 'Macau MICE Portal',
+    organizer: 'Macau MICE',
+    coordinates: { lat: 22.1580, lng: 113.5500 },
+    tags: ['business', 'professional'],
+    create: () => ({
+      getSourceId: () => 'mice',
+      getRateLimitConfig: () => ({ requestsPerSecond: 0.5, maxRetries: 3, retryDelayMs: 2000 }),
+      fetchAndParse: () => Promise.resolve([
+        {
+          source: 'mice',
+          source_id: 'mice-test-1',
+          title: 'Test MICE Convention',
+          description: 'Business convention',
+          start: '2024-03-19T09:00:00Z',
+          end: '2024-03-20T17:00:00Z',
+          venue: 'Convention Center',
+          city: 'Macau',
+          url: 'https://mice.gov.mo/convention1',
+          categories: ['business']
+        } as RawEvent
+      ])
+    })
+  }
+}))
+
+jest.mock('../macau/broadway', () => ({
+  broadwayScraperDefinition: {
+    id: 'broadway',
+    displayName: 'Broadway Macau',
+    organizer: 'Broadway Macau',
+    coordinates: { lat: 22.1420, lng: 113.5540 },
+    tags: ['broadway', 'entertainment', 'theater'],
+    create: () => ({
+      getSourceId: () => 'broadway',
+      getRateLimitConfig: () => ({ requestsPerSecond: 0.5, maxRetries: 2, retryDelayMs: 3000 }),
+      fetchAndParse: () => Promise.resolve([])
+    })
+  }
 }))
 
 describe('MacauCoordinator', () => {
@@ -220,6 +273,16 @@ describe('MacauCoordinator', () => {
       expect(londonerNormalized[0].lat).toBeLessThan(23)
     })
 
+    it('should name the AI and fallback scrapers as organizer', () => {
+      const normalized = coordinator.normalizeEvents([
+        { source: 'ai_scraper', source_id: 'ai-1', title: 'AI Event', description: 'Found by AI', start: '2024-03-15T10:00:00Z', city: 'Macau', url: 'https://example.com/ai', categories: [] },
+        { source: 'fallback_scraper', source_id: 'fallback-1', title: 'Fallback Event', description: 'Found by CSS', start: '2024-03-15T10:00:00Z', city: 'Macau', url: 'https://example.com/fallback', categories: [] }
+      ] as RawEvent[])
+
+      expect(normalized.map(event => event.organizerName)).toEqual(['AI-Powered Scraper', 'Fallback Scraper'])
+      expect(normalized[0].longDescription).toContain('Source: AI-Powered Scraper')
+    })
+
     it('should filter out invalid events', () => {
       const invalidEvents: RawEvent[] = [
         {
@@ -244,5 +307,27 @@ describe('MacauCoordinator', () => {
       expect(normalized.length).toBe(1)
       expect(normalized[0].title).toBe('Valid Event')
     })
+
+    it('should report why raw events were rejected', () => {
+      const { events, rejections } = coordinator.normalizeEventsWithRejections([
+        {
+          source: 'mgto',
+          source_id: 'relative-url',
+          title: 'Relative Link Event',
+          start: '2024-03-15T10:00:00Z',
+          city: 'Macau',
+          url: '/events/relative-link'
+        }
+      ])
+
+      expect(events).toEqual([])
+      expect(rejections).toEqual([{
+        sourceId: 'mgto',
+        stage: 'raw',
+        eventSourceId: 'relative-url',
+        title: 'Relative Link Event',
+        reasons: [expect.objectContaining({ code: 'relative_url', field: 'url' })]
+      }])
+    })
   })
 })
\ No newline at end of file
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import axios from 'axios'
+import { mkdtempSync, readdirSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { BaseScraper } from '../base-scraper'
+import { SnapshotArchive, createFileSnapshotStore, type SnapshotStore } from '../snapshot-archive'
+
+jest.mock('axios', () => ({
+  get: jest.fn(),
+  isAxiosError: () => false
+}))
+
+const mockGet = axios.get as jest.Mock
+
+function memoryStore(): SnapshotStore & { files: Map<string, string> } {
+  const files = new Map<string, string>()
+  return {
+    files,
+    read: async key => files.get(key) ?? null,
+    write: async (key, content) => { files.set(key, content) }
+  }
+}
+
+function createScraper() {
+  return new BaseScraper({ requestsPerSecond: 1000, maxRetries: 0, retryDelayMs: 0 })
+}
+
+describe('SnapshotArchive', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'snapshots-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('round-trips a response through the file store', async () => {
+    const archive = new SnapshotArchive(createFileSnapshotStore(dir))
+    const snapshot = {
+      url: 'https://www.galaxymacau.com/ticketing/event-list/',
+      transport: 'http' as const,
+      status: 200,
+      headers: { 'content-type': 'text/html' },
+      body: '<html><body>Events</body></html>',
+      fetchedAt: '2024-11-01T00:00:00.000Z'
+    }
+
+    await archive.save(snapshot)
+
+    expect(await archive.load('http', snapshot.url)).toEqual(snapshot)
+    expect(await archive.load('browser', snapshot.url)).toBeNull()
+    expect(await archive.load('http', 'https://example.com/other')).toBeNull()
+  })
+
+  it('stores identical bodies once', async () => {
+    const archive = new SnapshotArchive(createFileSnapshotStore(dir))
+    const base = { transport: 'http' as const, status: 200, headers: {}, body: 'same page', fetchedAt: '2024-11-01T00:00:00.000Z' }
+
+    const first = await archive.save({ ...base, url: 'https://example.com/a' })
+    const second = await archive.save({ ...base, url: 'https://example.com/b' })
+
+    expect(first).toBe(second)
+    expect(readdirSync(join(dir, 'bodies'))).toEqual([first])
+  })
+})
+
+describe('BaseScraper snapshots', () => {
+  afterEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('records HTTP responses and replays them without the network', async () => {
+    const archive = new SnapshotArchive(memoryStore())
+    mockGet.mockResolvedValueOnce({ data: '<html>live</html>', status: 200, statusText: 'OK', headers: { 'Content-Type': 'text/html' } })
+
+    const recorder = createScraper()
+    recorder.setSnapshotOptions({ mode: 'record', archive })
+    await recorder.makeRequest({ url: 'https://example.com/events' })
+
+    const replayer = createScraper()
+    replayer.setSnapshotOptions({ mode: 'replay', archive })
+    const response = await replayer.makeRequest({ url: 'https://example.com/events' })
+
+    expect(mockGet).toHaveBeenCalledTimes(1)
+    expect(response.data).toBe('<html>live</html>')
+    expect(response.status).toBe(200)
+    expect(response.headers).toEqual({ 'content-type': 'text/html' })
+  })
+
+  it('replays JSON bodies parsed, as axios returns them', async () => {
+    const archive = new SnapshotArchive(memoryStore())
+    mockGet.mockResolvedValueOnce({ data: { events: [1, 2] }, status: 200, statusText: 'OK', headers: {} })
+
+    const recorder = createScraper()
+    recorder.setSnapshotOptions({ mode: 'record', archive })
+    await recorder.makeRequest({ url: 'https://example.com/api/events' })
+
+    const replayer = createScraper()
+    replayer.setSnapshotOptions({ mode: 'replay', archive })
+    const response = await replayer.makeRequest({ url: 'https://example.com/api/events' })
+
+    expect(response.data).toEqual({ events: [1, 2] })
+  })
+
+  it('fails a replayed request that was never recorded', async () => {
+    const scraper = createScraper()
+    scraper.setSnapshotOptions({ mode: 'replay', archive: new SnapshotArchive(memoryStore()) })
+
+    await expect(scraper.makeRequest({ url: 'https://example.com/missing' }))
+      .rejects.toThrow('No http snapshot recorded for https://example.com/missing')
+    expect(scraper.getRunStats().errorsByType).toEqual({ NETWORK_ERROR: 1 })
+    expect(mockGet).not.toHaveBeenCalled()
+  })
+
+  it('replays browser snapshots for browser requests', async () => {
+    const store = memoryStore()
+    const archive = new SnapshotArchive(store)
+    await archive.save({
+      url: 'https://example.com/spa',
+      transport: 'browser',
+      status: 200,
+      headers: {},
+      body: '<html>rendered</html>',
+      fetchedAt: '2024-11-01T00:00:00.000Z'
+    })
+
+    const scraper = createScraper()
+    scraper.setSnapshotOptions({ mode: 'replay', archive })
+
+    await expect(scraper.makeBrowserRequest({ url: 'https://example.com/spa' })).resolves.toBe('<html>rendered</html>')
+  })
+})
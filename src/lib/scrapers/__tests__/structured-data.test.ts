@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import * as cheerio from 'cheerio'
+import { extractSchemaOrgEvents } from '../structured-data'
+import { BaseScraper } from '../base-scraper'
+import { RawEvent } from '../types'
+
+class TestScraper extends BaseScraper {
+  constructor() {
+    super({ requestsPerSecond: 1, maxRetries: 0, retryDelayMs: 0 })
+  }
+
+  extract(html: string): RawEvent[] {
+    return this.extractStructuredEvents(this.parseHtml(html), {
+      source: 'galaxy',
+      baseUrl: 'https://www.galaxymacau.com',
+      pageUrl: 'https://www.galaxymacau.com/ticketing/event-list/',
+      defaultVenue: 'Galaxy Macau',
+      categorize: () => ['concert']
+    })
+  }
+}
+
+const jsonLd = (data: unknown) => `<script type="application/ld+json">${JSON.stringify(data)}</script>`
+
+describe('extractSchemaOrgEvents', () => {
+  it('reads events from an @graph with nested Place and Offer', () => {
+    const $ = cheerio.load(jsonLd({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'WebPage', name: 'Events' },
+        {
+          '@type': 'MusicEvent',
+          name: 'Jacky Cheung Live',
+          startDate: '2025-09-13T20:00:00+08:00',
+          location: { '@type': 'Place', name: 'Galaxy Arena', address: { streetAddress: 'Cotai' } },
+          image: [{ '@type': 'ImageObject', url: '/images/jacky.jpg' }],
+          offers: [
+            { '@type': 'Offer', price: 'MOP 1,280', url: 'https://tickets.example/jacky' },
+            { '@type': 'AggregateOffer', lowPrice: 480 }
+          ]
+        }
+      ]
+    }))
+
+    expect(extractSchemaOrgEvents($)).toEqual([{
+      name: 'Jacky Cheung Live',
+      description: undefined,
+      startDate: '2025-09-13T20:00:00+08:00',
+      endDate: undefined,
+      venue: 'Galaxy Arena',
+      url: undefined,
+      ticketUrl: 'https://tickets.example/jacky',
+      imageUrl: '/images/jacky.jpg',
+      priceMin: 480
+    }])
+  })
+
+  it('reads microdata and ignores properties of nested items', () => {
+    const $ = cheerio.load(`
+      <div itemscope itemtype="https://schema.org/TheaterEvent">
+        <h2 itemprop="name">Swan Lake</h2>
+        <time itemprop="startDate" datetime="2025-10-01T19:30"></time>
+        <div itemprop="location" itemscope itemtype="https://schema.org/Place">
+          <span itemprop="name">Broadway Theatre</span>
+        </div>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <meta itemprop="price" content="380">
+          <a itemprop="url" href="/tickets/swan-lake">Buy</a>
+        </div>
+      </div>
+    `)
+
+    expect(extractSchemaOrgEvents($)).toEqual([expect.objectContaining({
+      name: 'Swan Lake',
+      startDate: '2025-10-01T19:30',
+      venue: 'Broadway Theatre',
+      ticketUrl: '/tickets/swan-lake',
+      priceMin: 380
+    })])
+  })
+
+  it('skips invalid JSON-LD blocks and non-event types', () => {
+    const $ = cheerio.load(
+      '<script type="application/ld+json">{ not json</script>' +
+      jsonLd({ '@type': 'Organization', name: 'Galaxy Macau' })
+    )
+
+    expect(extractSchemaOrgEvents($)).toEqual([])
+  })
+})
+
+describe('BaseScraper.extractStructuredEvents', () => {
+  const scraper = new TestScraper()
+
+  it('normalizes local times to UTC and resolves relative URLs', () => {
+    const [event] = scraper.extract(jsonLd({
+      '@type': 'Event',
+      name: 'Harbour Fireworks',
+      startDate: '2025-09-13T21:00',
+      endDate: '2025-09-13T21:30',
+      url: '/events/fireworks',
+      image: '/images/fireworks.jpg'
+    }))
+
+    expect(event).toMatchObject({
+      source: 'galaxy',
+      title: 'Harbour Fireworks',
+      start: '2025-09-13T13:00:00.000Z',
+      end: '2025-09-13T13:30:00.000Z',
+      venue: 'Galaxy Macau',
+      city: 'Macau',
+      url: 'https://www.galaxymacau.com/events/fireworks',
+      image_url: 'https://www.galaxymacau.com/images/fireworks.jpg',
+      categories: ['concert']
+    })
+    expect(event.source_id).toMatch(/^galaxymacau\.com-/)
+  })
+
+  it('treats date-only end dates as inclusive', () => {
+    const [event] = scraper.extract(jsonLd({
+      '@type': 'ExhibitionEvent',
+      name: 'Art Macao',
+      startDate: '2025-09-06',
+      endDate: '2025-09-28'
+    }))
+
+    expect(event.start).toBe('2025-09-05T16:00:00.000Z')
+    expect(event.end).toBe('2025-09-28T16:00:00.000Z')
+    expect(event.url).toBe('https://www.galaxymacau.com/ticketing/event-list/')
+  })
+
+  it('drops events without a usable start date', () => {
+    expect(scraper.extract(jsonLd({ '@type': 'Event', name: 'Coming Soon' }))).toEqual([])
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+import { BaseScraper } from '../base-scraper'
+import { createFixtureTransport, type ScraperTransport } from '../transport'
+
+function createScraper(transport: ScraperTransport) {
+  const scraper = new BaseScraper({ requestsPerSecond: 1000, maxRetries: 2, retryDelayMs: 0 }, transport)
+  scraper.setSnapshotOptions({ mode: 'off', archive: null })
+  return scraper
+}
+
+describe('createFixtureTransport', () => {
+  const transport = createFixtureTransport({
+    http: {
+      'https://example.com/events': '<html>events</html>',
+      'https://example.com/moved': { body: 'gone', status: 410 }
+    },
+    browser: { 'https://example.com/spa': '<html>rendered</html>' }
+  })
+
+  it('serves mapped pages with a 200 by default', async () => {
+    const response = await transport.get({ url: 'https://example.com/events', headers: {}, timeout: 1000, maxRedirects: 5 })
+
+    expect(response.status).toBe(200)
+    expect(response.data).toBe('<html>events</html>')
+  })
+
+  it('answers unknown URLs with a 404', async () => {
+    const response = await transport.get({ url: 'https://example.com/other', headers: {}, timeout: 1000, maxRedirects: 5 })
+
+    expect(response.status).toBe(404)
+  })
+
+  it('keeps browser pages separate from HTTP pages', async () => {
+    const rendered = await transport.render({ url: 'https://example.com/spa', headers: {}, timeout: 1000 })
+    const fetched = await transport.get({ url: 'https://example.com/spa', headers: {}, timeout: 1000, maxRedirects: 5 })
+
+    expect(rendered.data).toBe('<html>rendered</html>')
+    expect(fetched.status).toBe(404)
+  })
+})
+
+describe('BaseScraper with an injected transport', () => {
+  it('fetches through the transport', async () => {
+    const scraper = createScraper(createFixtureTransport({ http: { 'https://example.com/events': '<html>events</html>' } }))
+
+    const response = await scraper.makeRequest({ url: 'https://example.com/events' })
+
+    expect(response.data).toBe('<html>events</html>')
+  })
+
+  it('fails 4xx responses without retrying', async () => {
+    const transport = createFixtureTransport({ http: { 'https://example.com/moved': { body: 'gone', status: 410 } } })
+    const get = jest.spyOn(transport, 'get')
+    const scraper = createScraper(transport)
+
+    await expect(scraper.makeRequest({ url: 'https://example.com/moved' })).rejects.toThrow('HTTP 410')
+    expect(get).toHaveBeenCalledTimes(1)
+    expect(scraper.getRunStats().errorsByType).toEqual({ INVALID_RESPONSE: 1 })
+  })
+
+  it('retries transport failures', async () => {
+    const transport = createFixtureTransport({ http: { 'https://example.com/events': '<html>events</html>' } })
+    const get = jest.spyOn(transport, 'get').mockRejectedValueOnce(new Error('socket hang up'))
+    const scraper = createScraper(transport)
+
+    const response = await scraper.makeRequest({ url: 'https://example.com/events' })
+
+    expect(response.data).toBe('<html>events</html>')
+    expect(get).toHaveBeenCalledTimes(2)
+  })
+
+  it('renders browser requests and closes the transport on cleanup', async () => {
+    const transport = createFixtureTransport({ browser: { 'https://example.com/spa': '<html>rendered</html>' } })
+    const close = jest.spyOn(transport, 'close')
+    const scraper = createScraper(transport)
+
+    await expect(scraper.makeBrowserRequest({ url: 'https://example.com/spa' })).resolves.toBe('<html>rendered</html>')
+    expect(scraper.getRunStats().usedBrowser).toBe(true)
+
+    await scraper.cleanup()
+    expect(close).toHaveBeenCalled()
+  })
+})
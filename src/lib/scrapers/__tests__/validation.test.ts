@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+import { validateRawEvent, validateEvent, countRejections, type EventRejection } from '../validation'
+import { RawEvent } from '../types'
+
+const rawEvent: RawEvent = {
+  source: 'mgto',
+  source_id: 'mgto-abc123',
+  title: 'Macau Food Festival',
+  start: '2024-11-15T10:00:00.000Z',
+  end: '2024-11-17T14:00:00.000Z',
+  venue: 'Sai Van Lake Square',
+  city: 'Macau',
+  url: 'https://www.macaotourism.gov.mo/en/events/food-festival'
+}
+
+describe('validateRawEvent', () => {
+  it('accepts a well-formed event unchanged', () => {
+    const result = validateRawEvent(rawEvent)
+    expect(result.reasons).toBeUndefined()
+    expect(result.event).toBe(rawEvent)
+  })
+
+  it('treats null and empty optional fields as absent', () => {
+    const result = validateRawEvent({ ...rawEvent, image_url: '', description: null as any })
+    expect(result.reasons).toBeUndefined()
+  })
+
+  it('reports missing required fields', () => {
+    const result = validateRawEvent({ ...rawEvent, title: '  ', source_id: undefined as any })
+    expect(result.reasons).toEqual(expect.arrayContaining([
+      expect.objectContaining({ code: 'missing_field', field: 'title' }),
+      expect.objectContaining({ code: 'missing_field', field: 'source_id' })
+    ]))
+  })
+
+  it('rejects malformed and implausible dates', () => {
+    expect(validateRawEvent({ ...rawEvent, start: '15/11/2024' }).reasons).toEqual([
+      expect.objectContaining({ code: 'invalid_date', field: 'start' })
+    ])
+    expect(validateRawEvent({ ...rawEvent, start: '2024-11-15' }).reasons?.[0].code).toBe('invalid_date')
+    expect(validateRawEvent({ ...rawEvent, start: '1970-01-01T00:00:00.000Z', end: undefined }).reasons?.[0].code).toBe('invalid_date')
+  })
+
+  it('accepts dates with a numeric offset', () => {
+    expect(validateRawEvent({ ...rawEvent, start: '2024-11-15T18:00:00+08:00' }).reasons).toBeUndefined()
+  })
+
+  it('rejects relative and non-http URLs', () => {
+    expect(validateRawEvent({ ...rawEvent, url: '/en/events/food-festival' }).reasons).toEqual([
+      expect.objectContaining({ code: 'relative_url', field: 'url' })
+    ])
+    expect(validateRawEvent({ ...rawEvent, ticket_url: 'javascript:void(0)' }).reasons).toEqual([
+      expect.objectContaining({ code: 'invalid_url', field: 'ticket_url' })
+    ])
+  })
+
+  it('rejects events that end before they start or run for years', () => {
+    expect(validateRawEvent({ ...rawEvent, end: '2024-11-14T10:00:00.000Z' }).reasons).toEqual([
+      expect.objectContaining({ code: 'invalid_range', field: 'end' })
+    ])
+    expect(validateRawEvent({ ...rawEvent, end: '2026-11-14T10:00:00.000Z' }).reasons?.[0].code).toBe('invalid_range')
+  })
+
+  it('rejects a negative price', () => {
+    expect(validateRawEvent({ ...rawEvent, price_min: -50 }).reasons).toEqual([
+      expect.objectContaining({ code: 'invalid_value', field: 'price_min' })
+    ])
+  })
+})
+
+describe('validateEvent', () => {
+  const event = {
+    source: 'web_scraper' as const,
+    sourceId: 'mgto-abc123',
+    title: 'Macau Food Festival',
+    startTime: '2024-11-15T10:00:00.000Z',
+    endTime: '2024-11-17T14:00:00.000Z',
+    lat: 22.1987,
+    lng: 113.5439,
+    categories: ['food', 'macau'],
+    tags: ['macau'],
+    externalUrl: 'https://www.macaotourism.gov.mo/en/events/food-festival',
+    lastSeenAt: '2024-11-01T00:00:00.000Z'
+  }
+
+  it('accepts a normalized event, including fields outside the schema', () => {
+    const result = validateEvent({ ...event, canonicalEventId: 'event-1' })
+    expect(result.reasons).toBeUndefined()
+  })
+
+  it('accepts an event without a start time', () => {
+    expect(validateEvent({ ...event, startTime: undefined, endTime: undefined }).reasons).toBeUndefined()
+  })
+
+  it('rejects unknown source types and out of range coordinates', () => {
+    const result = validateEvent({ ...event, source: 'csv' as any, lat: 122 })
+    expect(result.reasons?.map(reason => reason.field).sort()).toEqual(['lat', 'source'])
+  })
+
+  it('rejects a relative external URL', () => {
+    expect(validateEvent({ ...event, externalUrl: 'event-3.html' }).reasons).toEqual([
+      expect.objectContaining({ code: 'relative_url', field: 'externalUrl' })
+    ])
+  })
+})
+
+describe('countRejections', () => {
+  it('counts each rejected event once per reason code', () => {
+    const rejections: EventRejection[] = [
+      {
+        sourceId: 'mgto',
+        stage: 'raw',
+        reasons: [
+          { code: 'invalid_url', field: 'url', message: '' },
+          { code: 'invalid_url', field: 'image_url', message: '' },
+          { code: 'invalid_date', field: 'start', message: '' }
+        ]
+      },
+      { sourceId: 'mgto', stage: 'normalized', reasons: [{ code: 'invalid_date', field: 'startTime', message: '' }] }
+    ]
+
+    expect(countRejections(rejections)).toEqual({ invalid_url: 1, invalid_date: 2 })
+  })
+})
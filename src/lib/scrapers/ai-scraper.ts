@@ -1,6 +1,8 @@
 import Firecrawl from '@mendable/firecrawl-js'
 import { RawEvent, RateLimitConfig, ScraperError, ScraperErrorType } from './types'
 import { BaseScraper } from './base-scraper'
+import { createSourceId } from '../date-macau'
+import type { ScraperTransport } from './transport'
 
 /**
  * AI-powered scraper using Firecrawl for intelligent content extraction
@@ -10,8 +12,8 @@ export class AIScraper extends BaseScraper {
   private firecrawl: Firecrawl | null = null
   private fallbackEnabled = true
 
-  constructor(rateLimitConfig: RateLimitConfig, fallbackEnabled = true) {
-    super(rateLimitConfig)
+  constructor(rateLimitConfig: RateLimitConfig, fallbackEnabled = true, transport?: ScraperTransport) {
+    super(rateLimitConfig, transport)
     this.fallbackEnabled = fallbackEnabled
     
     // Initialize Firecrawl if API key is available
@@ -190,7 +192,15 @@ Source context: ${context.sourceName || 'Unknown source'}`
       const parsedDate = this.parseDateFromAI(event.startDate, event.endDate)
       
       // Generate source ID
-      const sourceId = this.createSourceId(event.title, parsedDate.start, event.venue)
+      const sourceId = createSourceId({
+        hostDomain: this.getDomainFromUrl(sourceUrl),
+        title: event.title || '',
+        startDate: parsedDate.start,
+        venue: event.venue,
+        url: event.url ? this.createAbsoluteUrl(sourceUrl, event.url) : undefined,
+        pageUrl: sourceUrl
+      })
+      const legacySourceId = this.createLegacySourceId(event.title, parsedDate.start, event.venue)
       
       // Categorize event
       const categories = this.categorizeEventFromAI(event.title, event.description, event.category, event.tags)
@@ -198,9 +208,10 @@ Source context: ${context.sourceName || 'Unknown source'}`
       const rawEvent: RawEvent = {
         source: context.sourceId || 'ai_scraper',
         source_id: sourceId,
+        legacy_source_id: legacySourceId,
         title: event.title || `Event ${index + 1}`,
         description: event.description || '',
-        start: parsedDate.start || new Date(Date.now() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
+        start: parsedDate.start || new Date(this.getReferenceDate().getTime() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
         end: parsedDate.end,
         venue: event.venue,
         city: context.city || 'Unknown',
@@ -213,6 +224,16 @@ Source context: ${context.sourceName || 'Unknown source'}`
     })
   }
 
+  /**
+   * The ID this scraper gave an event before SHA-256 source IDs, so ingestion
+   * can re-key rows stored under it. The base64 is cut to 16 characters, so
+   * only the first 12 bytes of the key, nearly always the title, count.
+   */
+  private createLegacySourceId(title: string, startDate: string | null, venue?: string): string {
+    const key = `${title}-${startDate}-${venue || ''}`.toLowerCase()
+    return Buffer.from(key).toString('base64').substring(0, 16)
+  }
+
   /**
    * Parse dates from AI extraction
    */
@@ -274,14 +295,6 @@ Source context: ${context.sourceName || 'Unknown source'}`
     return categories
   }
 
-  /**
-   * Create source ID for deduplication
-   */
-  private createSourceId(title: string, startDate: string | null, venue?: string): string {
-    const key = `${title}-${startDate}-${venue || ''}`.toLowerCase()
-    return Buffer.from(key).toString('base64').substring(0, 16)
-  }
-
   /**
    * Fallback to traditional scraping when AI fails
    */
@@ -306,10 +319,13 @@ Source context: ${context.sourceName || 'Unknown source'}`
           const title = text.substring(0, 100) // Limit title length
           const event: RawEvent = {
             source: 'fallback_scraper',
-            source_id: this.createSourceId(title, new Date().toISOString()),
+            source_id: createSourceId({ hostDomain: this.getDomainFromUrl(url), title, startDate: null }),
+            // The old key included the scrape time, but titles here are over 20
+            // characters, so the truncated legacy ID never reached it
+            legacy_source_id: this.createLegacySourceId(title, null),
             title,
             description: text,
-            start: new Date(Date.now() + i * 24 * 60 * 60 * 1000).toISOString(),
+            start: new Date(this.getReferenceDate().getTime() + i * 24 * 60 * 60 * 1000).toISOString(),
             end: null,
             venue: undefined,
             city: 'Unknown',
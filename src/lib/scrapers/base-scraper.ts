@@ -1,8 +1,14 @@
-import axios, { AxiosResponse } from 'axios'
 import * as cheerio from 'cheerio'
 import type { AnyNode } from 'domhandler'
-import { chromium, Browser, Page } from 'playwright'
-import { RateLimitConfig, ScraperRequestConfig, ScraperError, ScraperErrorType } from './types'
+import { DateTime } from 'luxon'
+import { RateLimitConfig, RawEvent, ScraperRequestConfig, ScraperError, ScraperErrorType, ScraperRunStats } from './types'
+import { extractSchemaOrgEvents } from './structured-data'
+import { createLegacySourceId, createSourceId, describeDateParse, parseMacauDate, type ParsedDateRange, type SourceIdentity } from '../date-macau'
+import { getScraperSnapshotOptions, type ResponseSnapshot, type SnapshotOptions, type SnapshotTransport } from './snapshot-archive'
+import { createLiveTransport, type ScraperTransport, type TransportResponse } from './transport'
+
+const MACAU_TIMEZONE = 'Asia/Macau'
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
 
 /**
  * Base scraper utility with common functionality
@@ -11,20 +17,118 @@ import { RateLimitConfig, ScraperRequestConfig, ScraperError, ScraperErrorType }
 export class BaseScraper {
   private lastRequestTime = 0
   private requestQueue: Promise<any> = Promise.resolve()
-  private browser: Browser | null = null
+  private runStats: ScraperRunStats = { usedBrowser: false, errorsByType: {} }
+  private snapshotOptions: SnapshotOptions | null = null
+  private referenceDate: Date | null = null
+  private transport: ScraperTransport
+
+  /**
+   * @param transport - how requests reach the network; defaults to axios and Playwright
+   */
+  constructor(private rateLimitConfig: RateLimitConfig, transport?: ScraperTransport) {
+    this.transport = transport || createLiveTransport()
+  }
+
+  /**
+   * Record fetched responses to, or replay them from, a snapshot archive
+   * Without this, scrapers follow the SCRAPER_SNAPSHOTS environment setting.
+   */
+  setSnapshotOptions(options: SnapshotOptions | null): void {
+    this.snapshotOptions = options
+  }
 
-  constructor(private rateLimitConfig: RateLimitConfig) {}
+  /**
+   * Date that listings without a year, or relative dates, are read against,
+   * normally when the scrape started
+   * Without this, dates are read against the clock at parse time.
+   */
+  setReferenceDate(date: Date | null): void {
+    this.referenceDate = date
+  }
+
+  protected getReferenceDate(): Date {
+    return this.referenceDate || new Date()
+  }
 
   /**
    * Make a rate-limited HTTP request
    */
-  async makeRequest(config: ScraperRequestConfig): Promise<AxiosResponse> {
+  async makeRequest(config: ScraperRequestConfig): Promise<TransportResponse> {
+    if (this.getSnapshotOptions().mode === 'replay') {
+      return this.replaySnapshot('http', config.url)
+        .then(snapshot => snapshotToResponse(snapshot))
+        .catch(error => this.recordError(error))
+    }
+
     return this.requestQueue = this.requestQueue.then(async () => {
       await this.enforceRateLimit()
-      return this.executeRequest(config)
+      return this.executeRequest(config).catch(error => this.recordError(error))
     })
   }
 
+  /**
+   * Request diagnostics since the last reset, for ingestion run records
+   */
+  getRunStats(): ScraperRunStats {
+    return {
+      usedBrowser: this.runStats.usedBrowser,
+      errorsByType: { ...this.runStats.errorsByType }
+    }
+  }
+
+  /**
+   * Clear request diagnostics before a new fetch
+   */
+  resetRunStats(): void {
+    this.runStats = { usedBrowser: false, errorsByType: {} }
+  }
+
+  /**
+   * Count a failed request by error type, then rethrow it
+   * Errors a scraper catches itself (e.g. optional detail pages) still show up in the breakdown
+   */
+  private recordError(error: unknown): never {
+    const type = error instanceof ScraperError ? error.type : ScraperErrorType.NETWORK_ERROR
+    this.runStats.errorsByType[type] = (this.runStats.errorsByType[type] || 0) + 1
+    throw error
+  }
+
+  private getSnapshotOptions(): SnapshotOptions {
+    return this.snapshotOptions || getScraperSnapshotOptions()
+  }
+
+  /**
+   * Save a fetched response when recording; a failed save never fails the scrape
+   */
+  private async recordSnapshot(snapshot: Omit<ResponseSnapshot, 'fetchedAt'>): Promise<void> {
+    const { mode, archive } = this.getSnapshotOptions()
+    if (mode !== 'record' || !archive) {
+      return
+    }
+
+    try {
+      await archive.save({ ...snapshot, fetchedAt: new Date().toISOString() })
+    } catch (error) {
+      console.warn(`Failed to save snapshot of ${snapshot.url}:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  /**
+   * Load a recorded response instead of fetching it
+   */
+  private async replaySnapshot(transport: SnapshotTransport, url: string): Promise<ResponseSnapshot> {
+    const { archive } = this.getSnapshotOptions()
+    const snapshot = archive ? await archive.load(transport, url) : null
+    if (!snapshot) {
+      throw new ScraperError(
+        ScraperErrorType.NETWORK_ERROR,
+        `No ${transport} snapshot recorded for ${url}`,
+        url
+      )
+    }
+    return snapshot
+  }
+
   /**
    * Parse HTML content with Cheerio
    */
@@ -60,6 +164,17 @@ export class BaseScraper {
     }
   }
 
+  /**
+   * Source IDs for a scraped event, keyed on its own page when it has one
+   * The legacy ID lets ingestion find the row stored before SHA-256 IDs.
+   */
+  protected createSourceIds(identity: SourceIdentity): Pick<RawEvent, 'source_id' | 'legacy_source_id'> {
+    return {
+      source_id: createSourceId(identity),
+      legacy_source_id: createLegacySourceId(identity)
+    }
+  }
+
   /**
    * Clean and normalize text content
    */
@@ -104,15 +219,16 @@ export class BaseScraper {
   /**
    * Execute HTTP request with retries
    */
-  private async executeRequest(config: ScraperRequestConfig): Promise<AxiosResponse> {
+  private async executeRequest(config: ScraperRequestConfig): Promise<TransportResponse> {
     const { maxRetries, retryDelayMs } = this.rateLimitConfig
     let lastError: Error | null = null
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        const response = await axios.get(config.url, {
+        const response = await this.transport.get({
+          url: config.url,
           headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+            'User-Agent': USER_AGENT,
             'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
             'Accept-Language': 'en-US,en;q=0.9,zh-TW;q=0.8,zh;q=0.7',
             'Accept-Encoding': 'gzip, deflate, br',
@@ -121,8 +237,7 @@ export class BaseScraper {
             ...config.headers
           },
           timeout: config.timeout || 10000,
-          maxRedirects: config.followRedirects !== false ? 5 : 0,
-          validateStatus: (status) => status < 500 // Retry on 5xx errors
+          maxRedirects: config.followRedirects !== false ? 5 : 0
         })
 
         if (response.status >= 400) {
@@ -133,29 +248,22 @@ export class BaseScraper {
           )
         }
 
+        await this.recordSnapshot({
+          url: config.url,
+          transport: 'http',
+          status: response.status,
+          headers: response.headers,
+          body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data)
+        })
+
         return response
       } catch (error) {
         lastError = error as Error
-        
-        // Don't retry on 4xx errors or parsing errors
-        if (axios.isAxiosError(error)) {
-          if (error.response?.status && error.response.status < 500) {
-            throw new ScraperError(
-              ScraperErrorType.INVALID_RESPONSE,
-              `HTTP ${error.response.status}: ${error.response.statusText}`,
-              config.url,
-              error
-            )
-          }
-          
-          if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
-            throw new ScraperError(
-              ScraperErrorType.TIMEOUT_ERROR,
-              'Request timeout',
-              config.url,
-              error
-            )
-          }
+
+        // Don't retry on 4xx errors or timeouts
+        if (error instanceof ScraperError &&
+            (error.type === ScraperErrorType.INVALID_RESPONSE || error.type === ScraperErrorType.TIMEOUT_ERROR)) {
+          throw error
         }
 
         // Wait before retrying
@@ -265,6 +373,98 @@ export class BaseScraper {
     return undefined
   }
 
+  /**
+   * Extract events published as schema.org JSON-LD or microdata
+   *
+   * Scrapers call this before their site-specific parsing; an empty result
+   * means the page has no usable structured data.
+   */
+  protected extractStructuredEvents($: cheerio.CheerioAPI, options: {
+    source: RawEvent['source']
+    baseUrl: string
+    pageUrl: string
+    defaultVenue?: string
+    categorize?: (title: string, description: string, venue?: string) => string[]
+  }): RawEvent[] {
+    const hostDomain = this.getDomainFromUrl(options.baseUrl)
+    const events: RawEvent[] = []
+
+    for (const data of extractSchemaOrgEvents($)) {
+      const dates = this.parseStructuredDates(data.startDate, data.endDate)
+      if (!dates.start) {
+        continue
+      }
+
+      const title = this.cleanText(data.name)
+      const description = data.description ? this.cleanText(data.description) : undefined
+      const venue = data.venue || options.defaultVenue
+
+      events.push({
+        source: options.source,
+        ...this.createSourceIds({
+          hostDomain,
+          title,
+          startDate: dates.start,
+          venue,
+          url: data.url ? this.createAbsoluteUrl(options.baseUrl, data.url) : undefined,
+          pageUrl: options.pageUrl
+        }),
+        title,
+        description,
+        start: dates.start,
+        end: dates.end,
+        date_parse: dates.info,
+        venue,
+        city: 'Macau',
+        url: data.url ? this.createAbsoluteUrl(options.baseUrl, data.url) : options.pageUrl,
+        ticket_url: data.ticketUrl ? this.createAbsoluteUrl(options.baseUrl, data.ticketUrl) : undefined,
+        image_url: data.imageUrl ? this.createAbsoluteUrl(options.baseUrl, data.imageUrl) : undefined,
+        price_min: data.priceMin,
+        categories: options.categorize?.(title, description || '', venue)
+      })
+    }
+
+    return events
+  }
+
+  /**
+   * Convert schema.org date values to UTC ISO strings
+   *
+   * Values without an offset are Macau local time. Date-only end dates are
+   * inclusive, so the range runs to the following midnight.
+   */
+  private parseStructuredDates(startDate?: string, endDate?: string): ParsedDateRange {
+    const toDateTime = (value: string) => DateTime.fromISO(value, { zone: MACAU_TIMEZONE })
+    const isDateOnly = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value.trim())
+
+    if (!startDate) {
+      return { start: null, info: describeDateParse('none') }
+    }
+
+    const start = toDateTime(startDate)
+    if (!start.isValid) {
+      // Some sites put human-readable dates in startDate
+      const parsed = parseMacauDate(endDate ? `${startDate} - ${endDate}` : startDate, this.getReferenceDate())
+      return { start: parsed.start, end: parsed.end || undefined, info: parsed.info }
+    }
+
+    let end: DateTime | undefined
+    if (endDate && toDateTime(endDate).isValid) {
+      end = isDateOnly(endDate) ? toDateTime(endDate).plus({ days: 1 }) : toDateTime(endDate)
+    } else if (isDateOnly(startDate)) {
+      end = start.plus({ days: 1 })
+    }
+
+    return {
+      start: start.toUTC().toISO(),
+      end: end && end > start ? end.toUTC().toISO() || undefined : undefined,
+      info: describeDateParse('schema_org', {
+        timeKnown: !isDateOnly(startDate),
+        endInferred: !endDate || !toDateTime(endDate).isValid
+      })
+    }
+  }
+
   /**
    * Validates if a title is likely a real event and not navigation/language elements
    */
@@ -321,28 +521,6 @@ export class BaseScraper {
     return true
   }
 
-  /**
-   * Initialize browser instance for JavaScript rendering
-   */
-  private async initializeBrowser(): Promise<Browser> {
-    if (!this.browser) {
-      try {
-        this.browser = await chromium.launch({
-          headless: true,
-          args: ['--no-sandbox', '--disable-setuid-sandbox'] // For Linux environments
-        })
-      } catch (error) {
-        throw new ScraperError(
-          ScraperErrorType.NETWORK_ERROR,
-          `Failed to initialize browser: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          'browser',
-          error instanceof Error ? error : undefined
-        )
-      }
-    }
-    return this.browser
-  }
-
   /**
    * Make a browser-based request with JavaScript rendering
    */
@@ -350,9 +528,16 @@ export class BaseScraper {
     waitForSelector?: string 
     waitTimeout?: number
   }): Promise<string> {
+    this.runStats.usedBrowser = true
+    if (this.getSnapshotOptions().mode === 'replay') {
+      return this.replaySnapshot('browser', config.url)
+        .then(snapshot => snapshot.body)
+        .catch(error => this.recordError(error))
+    }
+
     return this.requestQueue = this.requestQueue.then(async () => {
       await this.enforceRateLimit()
-      return this.executeBrowserRequest(config)
+      return this.executeBrowserRequest(config).catch(error => this.recordError(error))
     })
   }
 
@@ -365,55 +550,38 @@ export class BaseScraper {
   }): Promise<string> {
     const { maxRetries, retryDelayMs } = this.rateLimitConfig
     let lastError: Error | null = null
-    let page: Page | null = null
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        const browser = await this.initializeBrowser()
-        page = await browser.newPage()
-
         // Set user agent to mimic real browser
-        await page.setExtraHTTPHeaders({
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-        })
-
-        // Navigate to page with timeout
-        const response = await page.goto(config.url, {
+        const response = await this.transport.render({
+          url: config.url,
+          headers: { 'User-Agent': USER_AGENT },
           timeout: config.timeout || 30000,
-          waitUntil: 'domcontentloaded'
+          waitForSelector: config.waitForSelector,
+          waitTimeout: config.waitTimeout
         })
 
-        if (!response || response.status() >= 400) {
+        if (response.status >= 400) {
           throw new ScraperError(
             ScraperErrorType.INVALID_RESPONSE,
-            `HTTP ${response?.status()}: ${response?.statusText()}`,
+            `HTTP ${response.status}: ${response.statusText}`,
             config.url
           )
         }
 
-        // Wait for specific selector if provided
-        if (config.waitForSelector) {
-          try {
-            await page.waitForSelector(config.waitForSelector, {
-              timeout: config.waitTimeout || 10000
-            })
-          } catch (error) {
-            console.warn(`Selector "${config.waitForSelector}" not found, continuing anyway`)
-          }
-        }
-
-        // Get page content after JavaScript execution
-        const content = await page.content()
-        await page.close()
+        await this.recordSnapshot({
+          url: config.url,
+          transport: 'browser',
+          status: response.status,
+          headers: response.headers,
+          body: response.data
+        })
 
-        return content
+        return response.data
 
       } catch (error) {
         lastError = error as Error
-        
-        if (page) {
-          await page.close().catch(() => {}) // Cleanup on error
-        }
 
         // Don't retry on 4xx errors
         if (error instanceof Error && error.message.includes('HTTP 4')) {
@@ -438,13 +606,10 @@ export class BaseScraper {
   }
 
   /**
-   * Clean up browser instance
+   * Release the transport, closing the browser if one was launched
    */
   async cleanup(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close()
-      this.browser = null
-    }
+    await this.transport.close()
   }
 
 
@@ -489,4 +654,24 @@ export class BaseScraper {
       throw error
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Rebuild the response axios would have returned, including its attempt to
+ * parse every string body as JSON
+ */
+function snapshotToResponse(snapshot: ResponseSnapshot): TransportResponse {
+  let data: any = snapshot.body
+  try {
+    data = JSON.parse(snapshot.body)
+  } catch {
+    // Not JSON; axios leaves the body as a string too
+  }
+
+  return {
+    data,
+    status: snapshot.status,
+    statusText: 'OK',
+    headers: snapshot.headers
+  }
+}
@@ -1,44 +1,32 @@
-import { MGTOScraper } from './macau/mgto'
-import { MGTOAIScraper } from './macau/mgto-ai'
-import { createLondonerScraper, createVenetianScraper } from './macau/sands'
-import { GalaxyScraper } from './macau/galaxy'
-import { MICEScraper } from './macau/mice'
-import { createBroadwayScraper } from './macau/broadway'
-import { RawEvent, ScrapingResult, ScraperError, ScraperErrorType } from './types'
+import { getScraperDefinition, getScraperDefinitions, getSourceDisplayName } from './registry'
+import { MacauScraper, RawEvent, ScrapingResult, ScraperError, ScraperErrorType, ScraperRunStats } from './types'
+import { validateRawEvent, type EventRejection } from './validation'
+import { fixtureTransportFromEnv, type ScraperTransport } from './transport'
 import type { Event } from '@/types'
 
+// Central Macau, used when a source has no registered coordinates
+const DEFAULT_COORDINATES = { lat: 22.1987, lng: 113.5439 }
+
 /**
  * Coordinates all Macau scrapers and normalizes their output
  */
 export class MacauCoordinator {
-  private scrapers = new Map<string, any>([
-    ['mgto', this.createMGTOScraper()],
-    ['londoner', createLondonerScraper()],
-    ['venetian', createVenetianScraper()],
-    ['galaxy', new GalaxyScraper()],
-    ['mice', new MICEScraper()],
-    ['broadway', createBroadwayScraper()]
-  ])
+  private scrapers: Map<string, MacauScraper>
 
   /**
-   * Create MGTO scraper - use AI version if Firecrawl API key is available
+   * @param transportFor - transport for each source; undefined uses the live network
    */
-  private createMGTOScraper() {
-    const hasFirecrawlKey = !!process.env.FIRECRAWL_API_KEY
-    
-    if (hasFirecrawlKey) {
-      console.log('🤖 Using AI-powered MGTO scraper (Firecrawl available)')
-      return new MGTOAIScraper()
-    } else {
-      console.log('🔧 Using traditional MGTO scraper (Firecrawl not available)')
-      return new MGTOScraper()
-    }
+  constructor(transportFor: (sourceId: string) => ScraperTransport | undefined = fixtureTransportFromEnv) {
+    this.scrapers = new Map(
+      getScraperDefinitions().map(definition => [definition.id, definition.create(transportFor(definition.id))])
+    )
   }
 
   /**
    * Fetch events from a specific Macau source
+   * @param referenceDate - what undated years and relative dates are read against; defaults to now
    */
-  async fetchEventsFromSource(sourceId: 'mgto' | 'londoner' | 'venetian' | 'galaxy' | 'mice' | 'broadway'): Promise<RawEvent[]> {
+  async fetchEventsFromSource(sourceId: string, referenceDate: Date = new Date()): Promise<RawEvent[]> {
     const scraper = this.scrapers.get(sourceId)
     if (!scraper) {
       throw new ScraperError(
@@ -49,6 +37,8 @@ export class MacauCoordinator {
     }
 
     try {
+      scraper.resetRunStats?.()
+      scraper.setReferenceDate?.(referenceDate)
       const events = await scraper.fetchAndParse()
       console.log(`${sourceId} scraper returned ${events.length} events`)
       return events
@@ -58,6 +48,13 @@ export class MacauCoordinator {
     }
   }
 
+  /**
+   * Request diagnostics from the last fetch of a source
+   */
+  getRunStats(sourceId: string): ScraperRunStats | undefined {
+    return this.scrapers.get(sourceId)?.getRunStats?.()
+  }
+
   /**
    * Fetch events from all active Macau sources
    */
@@ -73,8 +70,10 @@ export class MacauCoordinator {
       }
     }
 
+    const referenceDate = new Date(results.metadata.scrapedAt)
     const scrapingPromises = Array.from(this.scrapers.entries()).map(async ([sourceId, scraper]) => {
       try {
+        scraper.setReferenceDate?.(referenceDate)
         const events = await scraper.fetchAndParse()
         return { sourceId, events, error: null }
       } catch (error) {
@@ -112,41 +111,57 @@ export class MacauCoordinator {
    * Normalize raw events to the application's Event format
    */
   normalizeEvents(rawEvents: RawEvent[]): Partial<Event>[] {
-    return rawEvents.map(rawEvent => this.normalizeEvent(rawEvent)).filter(Boolean) as Partial<Event>[]
+    return this.normalizeEventsWithRejections(rawEvents).events
   }
 
   /**
-   * Normalize a single raw event to the application's Event format
+   * Normalize raw events, reporting why any were rejected
    */
-  private normalizeEvent(rawEvent: RawEvent): Partial<Event> | null {
-    try {
-      // Validate required fields
-      if (!rawEvent.title || !rawEvent.source_id || !rawEvent.start) {
-        console.warn('Skipping event with missing required fields:', rawEvent)
-        return null
+  normalizeEventsWithRejections(rawEvents: RawEvent[]): { events: Partial<Event>[]; rejections: EventRejection[] } {
+    const events: Partial<Event>[] = []
+    const rejections: EventRejection[] = []
+
+    for (const rawEvent of rawEvents) {
+      const validation = validateRawEvent(rawEvent)
+      if (validation.reasons !== undefined) {
+        rejections.push({
+          sourceId: rawEvent.source,
+          stage: 'raw',
+          eventSourceId: rawEvent.source_id || undefined,
+          title: rawEvent.title || undefined,
+          reasons: validation.reasons
+        })
+        continue
+      }
+
+      const event = this.normalizeEvent(rawEvent)
+      if (event) {
+        events.push(event)
       }
+    }
+
+    if (rejections.length > 0) {
+      console.warn(`Rejected ${rejections.length} of ${rawEvents.length} raw events`)
+    }
+    return { events, rejections }
+  }
 
+  /**
+   * Normalize a single validated raw event to the application's Event format
+   */
+  private normalizeEvent(rawEvent: RawEvent): Partial<Event> | null {
+    try {
       // Ensure categories include Macau-specific tags
       const categories = [...(rawEvent.categories || ['local_events'])]
       if (!categories.includes('macau')) {
         categories.push('macau')
       }
 
-      // Add resort tags for casino events
-      const tags = ['macau']
-      if (rawEvent.source === 'londoner') {
-        tags.push('londoner', 'sands', 'resort')
-      } else if (rawEvent.source === 'venetian') {
-        tags.push('venetian', 'sands', 'resort')
-      } else if (rawEvent.source === 'galaxy') {
-        tags.push('galaxy', 'resort')
-      } else if (rawEvent.source === 'mgto') {
-        tags.push('government', 'tourism')
-      } else if (rawEvent.source === 'mice') {
-        tags.push('business', 'professional')
-      } else if (rawEvent.source === 'broadway') {
-        tags.push('broadway', 'entertainment', 'theater')
-      }
+      // Add source-specific tags (resort, government, ...)
+      const definition = getScraperDefinition(rawEvent.source)
+      const sourceName = getSourceDisplayName(rawEvent.source)
+      const tags = ['macau', ...(definition?.tags || [])]
+      const coordinates = definition?.coordinates || DEFAULT_COORDINATES
 
       // Normalize venue name
       let venueName = rawEvent.venue
@@ -157,23 +172,31 @@ export class MacauCoordinator {
       const normalizedEvent: Partial<Event> = {
         source: 'web_scraper', // All Macau scrapers use web_scraper type
         sourceId: rawEvent.source_id,
+        legacySourceId: rawEvent.legacy_source_id,
         title: rawEvent.title,
         description: rawEvent.description,
-        longDescription: rawEvent.description ? `${rawEvent.description}\n\nSource: ${this.getSourceDisplayName(rawEvent.source)}` : undefined,
+        longDescription: rawEvent.description ? `${rawEvent.description}\n\nSource: ${sourceName || rawEvent.source}` : undefined,
         startTime: rawEvent.start,
         endTime: rawEvent.end,
         timezone: 'Asia/Macau',
         venueName: venueName,
         city: 'Macau',
         country: 'China',
-        lat: this.getApproximateLatitude(rawEvent.source),
-        lng: this.getApproximateLongitude(rawEvent.source),
+        lat: coordinates.lat,
+        lng: coordinates.lng,
         categories: categories,
         tags: tags,
         imageUrl: rawEvent.image_url,
-        organizerName: this.getOrganizerName(rawEvent.source),
+        organizerName: definition?.organizer || sourceName || 'Unknown',
         externalUrl: rawEvent.url,
-        lastSeenAt: new Date().toISOString()
+        lastSeenAt: new Date().toISOString(),
+        ...(rawEvent.occurrences?.length && {
+          occurrences: rawEvent.occurrences.map(occurrence => ({
+            startTime: occurrence.start,
+            endTime: occurrence.end
+          }))
+        }),
+        dateParse: rawEvent.date_parse
       }
 
       // Add ticket URL to description if available
@@ -189,70 +212,6 @@ export class MacauCoordinator {
       return null
     }
   }
-
-  /**
-   * Get display name for source
-   */
-  private getSourceDisplayName(source: RawEvent['source']): string {
-    const names = {
-      mgto: 'Macau Government Tourism Office',
-      londoner: 'The Londoner Macao',
-      venetian: 'The Venetian Macao',
-      galaxy: 'Galaxy Macau',
-      mice: 'Macau MICE Portal',
-      broadway: 'Broadway Macau',
-      ai_scraper: 'AI-Powered Scraper',
-      fallback_scraper: 'Fallback CSS Scraper'
-    }
-    return names[source] || source
-  }
-
-  /**
-   * Get organizer name based on source
-   */
-  private getOrganizerName(source: RawEvent['source']): string {
-    const organizers = {
-      mgto: 'Macau Government Tourism Office',
-      londoner: 'The Londoner Macao',
-      venetian: 'The Venetian Macao',
-      galaxy: 'Galaxy Macau',
-      mice: 'Macau MICE',
-      broadway: 'Broadway Macau',
-      ai_scraper: 'AI-Powered Scraper',
-      fallback_scraper: 'Fallback Scraper'
-    }
-    return organizers[source] || 'Unknown'
-  }
-
-  /**
-   * Get approximate latitude for venues (for map display)
-   */
-  private getApproximateLatitude(source: RawEvent['source']): number {
-    const coordinates = {
-      mgto: 22.1987, // Central Macau
-      londoner: 22.1430, // Cotai Strip
-      venetian: 22.1435, // Cotai Strip
-      galaxy: 22.1390, // Cotai Strip
-      mice: 22.1580, // Convention areas
-      broadway: 22.1420, // Broadway Macau - Galaxy area
-    }
-    return coordinates[source] || 22.1987
-  }
-
-  /**
-   * Get approximate longitude for venues (for map display)
-   */
-  private getApproximateLongitude(source: RawEvent['source']): number {
-    const coordinates = {
-      mgto: 113.5439, // Central Macau
-      londoner: 113.5571, // Cotai Strip
-      venetian: 113.5586, // Cotai Strip
-      galaxy: 113.5560, // Cotai Strip
-      mice: 113.5500, // Convention areas
-      broadway: 113.5540, // Broadway Macau - Galaxy area
-    }
-    return coordinates[source] || 113.5439
-  }
 }
 
 // Export a singleton instance
@@ -1,17 +1,18 @@
 import { BaseScraper } from '../base-scraper'
-import { RawEvent, RateLimitConfig, MacauScraper, ScraperError, ScraperErrorType } from '../types'
-import { parseMacauDate, createSourceId } from '../../date-macau'
+import type { ScraperTransport } from '../transport'
+import { RawEvent, RateLimitConfig, MacauScraper, ScraperDefinition, ScraperError, ScraperErrorType } from '../types'
+import { parseMacauDate } from '../../date-macau'
 import type { AnyNode } from 'domhandler'
 
 const BROADWAY_URL = 'https://www.broadwaymacau.com.mo/upcoming-events-and-concerts/'
 
 export class BroadwayScraper extends BaseScraper implements MacauScraper {
-  constructor() {
+  constructor(transport?: ScraperTransport) {
     super({
       requestsPerSecond: 1, // Moderate rate limit for entertainment venue
       maxRetries: 3,
       retryDelayMs: 1500
-    })
+    }, transport)
   }
 
   getSourceId(): 'broadway' {
@@ -77,6 +78,20 @@ export class BroadwayScraper extends BaseScraper implements MacauScraper {
       }
 
       const $ = this.parseHtml(response.content)
+
+      // Prefer schema.org structured data when the page publishes it
+      const structuredEvents = this.extractStructuredEvents($, {
+        source: 'broadway',
+        baseUrl: BROADWAY_URL,
+        pageUrl: BROADWAY_URL,
+        defaultVenue: 'Broadway Macau',
+        categorize: (title, description) => this.categorizeEvent(title, description)
+      })
+      if (structuredEvents.length > 0) {
+        console.log(`✅ Broadway: Found ${structuredEvents.length} events in structured data`)
+        return structuredEvents
+      }
+
       const events: RawEvent[] = []
 
       // Look for event containers - Broadway uses .events-grid as main container
@@ -510,7 +525,7 @@ export class BroadwayScraper extends BaseScraper implements MacauScraper {
       imageUrl = this.extractImageUrl($, $element, 'https://www.broadwaymacau.com.mo') || ''
 
       // Parse the date
-      const parsedDate = parseMacauDate(dateText)
+      const parsedDate = parseMacauDate(dateText, this.getReferenceDate())
 
       // Validate title to exclude language selectors and navigation elements
       console.log(`🎭 Validating event title: "${title}"`)
@@ -537,11 +552,19 @@ export class BroadwayScraper extends BaseScraper implements MacauScraper {
 
       const event: RawEvent = {
         source: 'broadway',
-        source_id: createSourceId(title, parsedDate.start, venue, 'broadwaymacau.com.mo'),
+        ...this.createSourceIds({
+          hostDomain: 'broadwaymacau.com.mo',
+          title,
+          startDate: parsedDate.start,
+          venue,
+          url: eventUrl,
+          pageUrl: BROADWAY_URL
+        }),
         title: title,
         description: description || `Event at Broadway Macau`,
-        start: parsedDate.start || new Date(Date.now() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
+        start: parsedDate.start || new Date(this.getReferenceDate().getTime() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
         end: parsedDate.end,
+        date_parse: parsedDate.info,
         venue: venue,
         city: 'Macau',
         url: eventUrl,
@@ -575,6 +598,7 @@ export class BroadwayScraper extends BaseScraper implements MacauScraper {
       // Look for more detailed information on the event page
       let enhancedDescription = event.description
       let enhancedDate = event.start
+      let enhancedDateParse = event.date_parse
       let enhancedVenue = event.venue
       let ticketUrl = event.ticket_url
       let enhancedImageUrl = event.image_url
@@ -616,9 +640,10 @@ export class BroadwayScraper extends BaseScraper implements MacauScraper {
         const $dateTime = $(selector).first()
         if ($dateTime.length > 0) {
           const dateText = this.safeText($dateTime)
-          const parsedDate = parseMacauDate(dateText)
+          const parsedDate = parseMacauDate(dateText, this.getReferenceDate())
           if (parsedDate.start) {
             enhancedDate = parsedDate.start
+            enhancedDateParse = parsedDate.info
             break
           }
         }
@@ -668,6 +693,7 @@ export class BroadwayScraper extends BaseScraper implements MacauScraper {
         ...event,
         description: enhancedDescription,
         start: enhancedDate,
+        date_parse: enhancedDateParse,
         venue: enhancedVenue,
         ticket_url: ticketUrl,
         image_url: enhancedImageUrl
@@ -732,6 +758,15 @@ export class BroadwayScraper extends BaseScraper implements MacauScraper {
 }
 
 // Factory function for easy instantiation
-export function createBroadwayScraper(): BroadwayScraper {
-  return new BroadwayScraper()
-}
\ No newline at end of file
+export function createBroadwayScraper(transport?: ScraperTransport): BroadwayScraper {
+  return new BroadwayScraper(transport)
+}
+
+export const broadwayScraperDefinition: ScraperDefinition = {
+  id: 'broadway',
+  displayName: 'Broadway Macau',
+  organizer: 'Broadway Macau',
+  coordinates: { lat: 22.1420, lng: 113.5540 }, // Broadway Macau - Galaxy area
+  tags: ['broadway', 'entertainment', 'theater'],
+  create: createBroadwayScraper
+}
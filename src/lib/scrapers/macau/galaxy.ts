@@ -1,6 +1,7 @@
 import { BaseScraper } from '../base-scraper'
-import { RawEvent, RateLimitConfig, MacauScraper, ScraperError, ScraperErrorType } from '../types'
-import { parseMacauDate, createSourceId } from '../../date-macau'
+import type { ScraperTransport } from '../transport'
+import { RawEvent, RateLimitConfig, MacauScraper, ScraperDefinition, ScraperError, ScraperErrorType } from '../types'
+import { parseMacauDate } from '../../date-macau'
 import type { AnyNode } from 'domhandler'
 
 const BASE_URL = 'https://www.galaxymacau.com'
@@ -11,12 +12,12 @@ export class GalaxyScraper extends BaseScraper implements MacauScraper {
   private readonly sourceId = 'galaxy'
   private readonly domain = 'galaxymacau.com'
 
-  constructor() {
+  constructor(transport?: ScraperTransport) {
     super({
       requestsPerSecond: 1, // Moderate rate limit for casino site
       maxRetries: 3,
       retryDelayMs: 1500
-    })
+    }, transport)
   }
 
   getSourceId(): 'galaxy' {
@@ -41,6 +42,20 @@ export class GalaxyScraper extends BaseScraper implements MacauScraper {
       })
 
       const $ = this.parseHtml(response.data)
+
+      // Prefer schema.org structured data when the page publishes it
+      const structuredEvents = this.extractStructuredEvents($, {
+        source: 'galaxy',
+        baseUrl: BASE_URL,
+        pageUrl: EVENTS_URL,
+        defaultVenue: 'Galaxy Macau',
+        categorize: (title, description) => this.categorizeEvent(title, description)
+      })
+      if (structuredEvents.length > 0) {
+        console.log(`✅ Galaxy: Found ${structuredEvents.length} events in structured data`)
+        return structuredEvents
+      }
+
       const events: RawEvent[] = []
 
       // Galaxy typically has event cards or list items
@@ -232,18 +247,26 @@ export class GalaxyScraper extends BaseScraper implements MacauScraper {
       }
 
       // Parse date
-      const parsedDate = parseMacauDate(dateText)
+      const parsedDate = parseMacauDate(dateText, this.getReferenceDate())
 
       // Categorize the event
       const categories = this.categorizeEvent(title, description)
 
       const event: RawEvent = {
         source: 'galaxy',
-        source_id: createSourceId(title, parsedDate.start, venue, this.domain),
+        ...this.createSourceIds({
+          hostDomain: this.domain,
+          title,
+          startDate: parsedDate.start,
+          venue,
+          url: eventUrl,
+          pageUrl: EVENTS_URL
+        }),
         title: title || `Galaxy Event ${index + 1}`,
         description: description || `Entertainment event at Galaxy Macau`,
-        start: parsedDate.start || new Date(Date.now() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
+        start: parsedDate.start || new Date(this.getReferenceDate().getTime() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
         end: parsedDate.end,
+        date_parse: parsedDate.info,
         venue: venue,
         city: 'Macau',
         url: eventUrl,
@@ -376,4 +399,13 @@ export class GalaxyScraper extends BaseScraper implements MacauScraper {
 
     return categories
   }
-}
\ No newline at end of file
+}
+
+export const galaxyScraperDefinition: ScraperDefinition = {
+  id: 'galaxy',
+  displayName: 'Galaxy Macau',
+  organizer: 'Galaxy Macau',
+  coordinates: { lat: 22.1390, lng: 113.5560 }, // Cotai Strip
+  tags: ['galaxy', 'resort'],
+  create: (transport) => new GalaxyScraper(transport)
+}
@@ -0,0 +1,10 @@
+/**
+ * Scraper definitions for every Macau source
+ * Each scraper module exports its own ScraperDefinition; re-export it here and
+ * the registry picks it up, with no other file to edit.
+ */
+export { mgtoScraperDefinition } from './mgto'
+export { londonerScraperDefinition, venetianScraperDefinition } from './sands'
+export { galaxyScraperDefinition } from './galaxy'
+export { miceScraperDefinition } from './mice'
+export { broadwayScraperDefinition } from './broadway'
@@ -1,6 +1,7 @@
 import { AIScraper, EventExtractionContext } from '../ai-scraper'
 import { RawEvent, MacauScraper, RateLimitConfig } from '../types'
-import { parseMacauDate, createSourceId } from '../../date-macau'
+import type { ScraperTransport } from '../transport'
+import { parseMacauDate } from '../../date-macau'
 
 const MGTO_URL = 'https://www.macaotourism.gov.mo/en/events/calendar'
 const BASE_URL = 'https://www.macaotourism.gov.mo'
@@ -12,12 +13,12 @@ const BASE_URL = 'https://www.macaotourism.gov.mo'
 export class MGTOAIScraper extends AIScraper implements MacauScraper {
   private readonly sourceId = 'mgto'
 
-  constructor() {
+  constructor(transport?: ScraperTransport) {
     super({
       requestsPerSecond: 0.5, // Conservative rate limit for government site
       maxRetries: 3,
       retryDelayMs: 2000
-    })
+    }, true, transport)
   }
 
   getSourceId(): 'mgto' {
@@ -82,24 +83,18 @@ export class MGTOAIScraper extends AIScraper implements MacauScraper {
       if (titleDateMatch) {
         const dateText = titleDateMatch[0]
         console.log(`🗓️  Re-parsing date from title: "${dateText}" for event: "${event.title}"`)
-        const parsedDate = parseMacauDate(dateText)
+        const parsedDate = parseMacauDate(dateText, this.getReferenceDate())
         if (parsedDate.start) {
           enhancedEvent.start = parsedDate.start
           enhancedEvent.end = parsedDate.end
+          enhancedEvent.occurrences = parsedDate.occurrences
+          enhancedEvent.date_parse = parsedDate.info
           console.log(`✅ Date re-parsed successfully: ${parsedDate.start}`)
         } else {
           console.log(`❌ Date re-parsing failed for: "${dateText}"`)
         }
       }
 
-      // Generate better source_id using Macau-specific logic
-      enhancedEvent.source_id = createSourceId(
-        event.title, 
-        enhancedEvent.start, 
-        event.venue, 
-        'macaotourism.gov.mo'
-      )
-
       // Enhance categories with MGTO-specific categorization
       enhancedEvent.categories = this.categorizeMGTOEvent(event.title, event.description || '')
 
@@ -107,6 +102,16 @@ export class MGTOAIScraper extends AIScraper implements MacauScraper {
       if (enhancedEvent.url && !enhancedEvent.url.startsWith('http')) {
         enhancedEvent.url = this.createAbsoluteUrl(BASE_URL, enhancedEvent.url)
       }
+
+      // Generate better source_id using Macau-specific logic
+      Object.assign(enhancedEvent, this.createSourceIds({
+        hostDomain: 'macaotourism.gov.mo',
+        title: event.title,
+        startDate: enhancedEvent.start,
+        venue: event.venue,
+        url: enhancedEvent.url,
+        pageUrl: MGTO_URL
+      }))
       
       // Debug logging for final event processing
       if (event.title.includes('Fringe Festival') || event.title.includes('Fireworks Display Contest')) {
@@ -217,15 +222,17 @@ export class MGTOAIScraper extends AIScraper implements MacauScraper {
       }
 
       // Parse date with Macau timezone handling
-      const parsedDate = parseMacauDate(dateText)
+      const parsedDate = parseMacauDate(dateText, this.getReferenceDate())
       
       const event: RawEvent = {
         source: 'mgto',
-        source_id: createSourceId(title, parsedDate.start, undefined, 'macaotourism.gov.mo'),
+        ...this.createSourceIds({ hostDomain: 'macaotourism.gov.mo', title, startDate: parsedDate.start }),
         title: title,
         description: `Event from Macau Government Tourism Office: ${cleanText}`,
-        start: parsedDate.start || new Date(Date.now() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
+        start: parsedDate.start || new Date(this.getReferenceDate().getTime() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
         end: parsedDate.end,
+        date_parse: parsedDate.info,
+        occurrences: parsedDate.occurrences,
         venue: undefined,
         city: 'Macau',
         url: url,
@@ -1,6 +1,8 @@
 import { BaseScraper } from '../base-scraper'
-import { RawEvent, RateLimitConfig, MacauScraper, ScraperError, ScraperErrorType } from '../types'
-import { parseMacauDate, createSourceId } from '../../date-macau'
+import type { ScraperTransport } from '../transport'
+import { RawEvent, RateLimitConfig, MacauScraper, ScraperDefinition, ScraperError, ScraperErrorType } from '../types'
+import { MGTOAIScraper } from './mgto-ai'
+import { parseMacauDate } from '../../date-macau'
 import type { AnyNode } from 'domhandler'
 
 const BASE_URL = 'https://www.macaotourism.gov.mo'
@@ -10,12 +12,12 @@ export class MGTOScraper extends BaseScraper implements MacauScraper {
   private readonly sourceId = 'mgto'
   private readonly domain = 'macaotourism.gov.mo'
 
-  constructor() {
+  constructor(transport?: ScraperTransport) {
     super({
       requestsPerSecond: 0.5, // Conservative rate limit for government site
       maxRetries: 3,
       retryDelayMs: 2000
-    })
+    }, transport)
   }
 
   getSourceId(): 'mgto' {
@@ -40,6 +42,19 @@ export class MGTOScraper extends BaseScraper implements MacauScraper {
       })
 
       const $ = this.parseHtml(response.data)
+
+      // Prefer schema.org structured data when the page publishes it
+      const structuredEvents = this.extractStructuredEvents($, {
+        source: 'mgto',
+        baseUrl: BASE_URL,
+        pageUrl: EVENTS_URL,
+        categorize: (title, description) => this.categorizeEvent(title, description)
+      })
+      if (structuredEvents.length > 0) {
+        console.log(`✅ MGTO: Found ${structuredEvents.length} events in structured data`)
+        return structuredEvents
+      }
+
       const events: RawEvent[] = []
 
       // MGTO has events in calendar structure, not just links
@@ -234,7 +249,7 @@ export class MGTOScraper extends BaseScraper implements MacauScraper {
 
       // Parse date with enhanced logging
       console.log(`📅 Parsing date for "${title}": "${dateText}"`)
-      const parsedDate = parseMacauDate(dateText)
+      const parsedDate = parseMacauDate(dateText, this.getReferenceDate())
       console.log(`📅 Date parsing result:`, parsedDate)
       
       // Generate description from surrounding context
@@ -269,11 +284,20 @@ export class MGTOScraper extends BaseScraper implements MacauScraper {
 
       const event: RawEvent = {
         source: 'mgto',
-        source_id: createSourceId(title, parsedDate.start, venue, this.domain),
+        ...this.createSourceIds({
+          hostDomain: this.domain,
+          title,
+          startDate: parsedDate.start,
+          venue,
+          url: eventUrl,
+          pageUrl: `${BASE_URL}/events/calendar`
+        }),
         title: title || `MGTO Event ${index + 1}`,
         description: description || `Event from Macau Government Tourism Office`,
-        start: parsedDate.start || new Date(Date.now() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
+        start: parsedDate.start || new Date(this.getReferenceDate().getTime() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
         end: parsedDate.end,
+        date_parse: parsedDate.info,
+        occurrences: parsedDate.occurrences,
         venue: venue || undefined,
         city: 'Macau',
         url: eventUrl,
@@ -318,4 +342,21 @@ export class MGTOScraper extends BaseScraper implements MacauScraper {
 
     return categories
   }
-}
\ No newline at end of file
+}
+
+export const mgtoScraperDefinition: ScraperDefinition = {
+  id: 'mgto',
+  displayName: 'Macau Government Tourism Office',
+  organizer: 'Macau Government Tourism Office',
+  coordinates: { lat: 22.1987, lng: 113.5439 }, // Central Macau
+  tags: ['government', 'tourism'],
+  // Use the AI version when a Firecrawl API key is available
+  create: (transport) => {
+    if (process.env.FIRECRAWL_API_KEY) {
+      console.log('🤖 Using AI-powered MGTO scraper (Firecrawl available)')
+      return new MGTOAIScraper(transport)
+    }
+    console.log('🔧 Using traditional MGTO scraper (Firecrawl not available)')
+    return new MGTOScraper(transport)
+  }
+}
@@ -1,6 +1,7 @@
 import { BaseScraper } from '../base-scraper'
-import { RawEvent, RateLimitConfig, MacauScraper, ScraperError, ScraperErrorType } from '../types'
-import { parseMacauDate, createSourceId } from '../../date-macau'
+import type { ScraperTransport } from '../transport'
+import { RawEvent, RateLimitConfig, MacauScraper, ScraperDefinition, ScraperError, ScraperErrorType } from '../types'
+import { parseMacauDate, describeDateParse, type ParsedDateRange } from '../../date-macau'
 import type { AnyNode } from 'domhandler'
 
 const BASE_URL = 'https://www.mice.gov.mo'
@@ -10,12 +11,12 @@ export class MICEScraper extends BaseScraper implements MacauScraper {
   private readonly sourceId = 'mice'
   private readonly domain = 'mice.gov.mo'
 
-  constructor() {
+  constructor(transport?: ScraperTransport) {
     super({
       requestsPerSecond: 0.5, // Conservative for government site
       maxRetries: 3,
       retryDelayMs: 2000
-    })
+    }, transport)
   }
 
   getSourceId(): 'mice' {
@@ -40,6 +41,19 @@ export class MICEScraper extends BaseScraper implements MacauScraper {
       })
 
       const $ = this.parseHtml(response.data)
+
+      // Prefer schema.org structured data when the page publishes it
+      const structuredEvents = this.extractStructuredEvents($, {
+        source: 'mice',
+        baseUrl: BASE_URL,
+        pageUrl: EVENTS_URL,
+        categorize: (title, description) => this.categorizeMICEEvent(title, description)
+      })
+      if (structuredEvents.length > 0) {
+        console.log(`✅ MICE: Found ${structuredEvents.length} events in structured data`)
+        return structuredEvents
+      }
+
       const events: RawEvent[] = []
 
       // MICE typically has structured event listings - look for table rows or list items
@@ -190,11 +204,19 @@ export class MICEScraper extends BaseScraper implements MacauScraper {
 
       const event: RawEvent = {
         source: 'mice',
-        source_id: createSourceId(title, parsedDate.start, venue, this.domain),
+        ...this.createSourceIds({
+          hostDomain: this.domain,
+          title,
+          startDate: parsedDate.start,
+          venue,
+          url: eventUrl,
+          pageUrl: EVENTS_URL
+        }),
         title: title,
         description: description,
-        start: parsedDate.start || new Date(Date.now() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
+        start: parsedDate.start || new Date(this.getReferenceDate().getTime() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
         end: parsedDate.end,
+        date_parse: parsedDate.info,
         venue: venue,
         city: 'Macau',
         url: eventUrl,
@@ -210,9 +232,9 @@ export class MICEScraper extends BaseScraper implements MacauScraper {
     }
   }
 
-  private parseMICEDate(dateText: string): { start: string | null; end?: string | null } {
+  private parseMICEDate(dateText: string): ParsedDateRange {
     if (!dateText?.trim()) {
-      return { start: null }
+      return parseMacauDate(dateText, this.getReferenceDate())
     }
 
     // MICE often uses specific date range formats
@@ -223,9 +245,11 @@ export class MICEScraper extends BaseScraper implements MacauScraper {
       const startDate = `${startYear}-${startMonth.padStart(2, '0')}-${startDay.padStart(2, '0')}T09:00:00+08:00`
       const endDate = `${endYear}-${endMonth.padStart(2, '0')}-${endDay.padStart(2, '0')}T18:00:00+08:00`
       
+      // Opening hours are assumed, not listed
       return {
         start: new Date(startDate).toISOString(),
-        end: new Date(endDate).toISOString()
+        end: new Date(endDate).toISOString(),
+        info: describeDateParse('numeric_date_range')
       }
     }
 
@@ -237,12 +261,13 @@ export class MICEScraper extends BaseScraper implements MacauScraper {
       
       return {
         start: new Date(date).toISOString(),
-        end: new Date(new Date(date).getTime() + 8 * 60 * 60 * 1000).toISOString() // 8 hours later
+        end: new Date(new Date(date).getTime() + 8 * 60 * 60 * 1000).toISOString(), // 8 hours later
+        info: describeDateParse('numeric_date', { endInferred: true })
       }
     }
 
     // Fallback to the general Macau date parser
-    return parseMacauDate(dateText)
+    return parseMacauDate(dateText, this.getReferenceDate())
   }
 
   private categorizeMICEEvent(title: string, description: string): string[] {
@@ -282,4 +307,13 @@ export class MICEScraper extends BaseScraper implements MacauScraper {
 
     return categories
   }
-}
\ No newline at end of file
+}
+
+export const miceScraperDefinition: ScraperDefinition = {
+  id: 'mice',
+  displayName: 'Macau MICE Portal',
+  organizer: 'Macau MICE',
+  coordinates: { lat: 22.1580, lng: 113.5500 }, // Convention areas
+  tags: ['business', 'professional'],
+  create: (transport) => new MICEScraper(transport)
+}
@@ -1,6 +1,7 @@
 import { BaseScraper } from '../base-scraper'
-import { RawEvent, RateLimitConfig, MacauScraper, ScraperError, ScraperErrorType } from '../types'
-import { parseMacauDate, createSourceId } from '../../date-macau'
+import type { ScraperTransport } from '../transport'
+import { RawEvent, RateLimitConfig, MacauScraper, ScraperDefinition, ScraperError, ScraperErrorType } from '../types'
+import { parseMacauDate } from '../../date-macau'
 import type { AnyNode } from 'domhandler'
 
 const LONDONER_URL = 'https://www.londonermacao.com/macau-events-shows'
@@ -10,13 +11,14 @@ export class SandsScraper extends BaseScraper implements MacauScraper {
   constructor(
     private venue: 'londoner' | 'venetian',
     private baseUrl: string,
-    private eventsUrl: string
+    private eventsUrl: string,
+    transport?: ScraperTransport
   ) {
     super({
       requestsPerSecond: 1, // Moderate rate limit for casino sites
       maxRetries: 3,
       retryDelayMs: 1500
-    })
+    }, transport)
   }
 
   getSourceId(): 'londoner' | 'venetian' {
@@ -41,6 +43,20 @@ export class SandsScraper extends BaseScraper implements MacauScraper {
       })
 
       const $ = this.parseHtml(response.data)
+
+      // Prefer schema.org structured data when the page publishes it
+      const structuredEvents = this.extractStructuredEvents($, {
+        source: this.venue,
+        baseUrl: this.baseUrl,
+        pageUrl: this.eventsUrl,
+        defaultVenue: this.venue === 'londoner' ? 'The Londoner Macao' : 'The Venetian Macao',
+        categorize: (title, description) => this.categorizeEvent(title, description, this.venue)
+      })
+      if (structuredEvents.length > 0) {
+        console.log(`✅ ${this.venue}: Found ${structuredEvents.length} events in structured data`)
+        return structuredEvents
+      }
+
       const events: RawEvent[] = []
 
       // Look for event containers - focus on date-containing elements
@@ -344,7 +360,7 @@ export class SandsScraper extends BaseScraper implements MacauScraper {
 
       // Parse the date
       console.log(`📅 ${this.venue}: Parsing date "${dateText}" for event "${title}"`)
-      const parsedDate = parseMacauDate(dateText)
+      const parsedDate = parseMacauDate(dateText, this.getReferenceDate())
       console.log(`📅 ${this.venue}: Date parsing result:`, parsedDate)
 
       // Validate title to exclude language selectors and navigation elements
@@ -367,11 +383,19 @@ export class SandsScraper extends BaseScraper implements MacauScraper {
 
       const event: RawEvent = {
         source: this.venue,
-        source_id: createSourceId(title, parsedDate.start, venue, this.getDomainFromUrl(this.baseUrl)),
+        ...this.createSourceIds({
+          hostDomain: this.getDomainFromUrl(this.baseUrl),
+          title,
+          startDate: parsedDate.start,
+          venue,
+          url: eventUrl,
+          pageUrl: this.eventsUrl
+        }),
         title: title || `${this.venue} Event ${index + 1}`,
         description: description || `Entertainment event at ${venue}`,
-        start: parsedDate.start || new Date(Date.now() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
+        start: parsedDate.start || new Date(this.getReferenceDate().getTime() + (index + 1) * 24 * 60 * 60 * 1000).toISOString(),
         end: parsedDate.end,
+        date_parse: parsedDate.info,
         venue: venue,
         city: 'Macau',
         url: eventUrl,
@@ -405,6 +429,7 @@ export class SandsScraper extends BaseScraper implements MacauScraper {
       // Look for more detailed information on the event page
       let enhancedDescription = event.description
       let enhancedDate = event.start
+      let enhancedDateParse = event.date_parse
       let enhancedVenue = event.venue
       let ticketUrl = event.ticket_url
 
@@ -440,9 +465,10 @@ export class SandsScraper extends BaseScraper implements MacauScraper {
         const $dateContent = $dateTimeSection.nextAll('p, div').first()
         if ($dateContent.length > 0) {
           const dateText = this.safeText($dateContent)
-          const parsedDate = parseMacauDate(dateText)
+          const parsedDate = parseMacauDate(dateText, this.getReferenceDate())
           if (parsedDate.start) {
             enhancedDate = parsedDate.start
+            enhancedDateParse = parsedDate.info
           }
         }
       }
@@ -471,6 +497,7 @@ export class SandsScraper extends BaseScraper implements MacauScraper {
         ...event,
         description: enhancedDescription,
         start: enhancedDate,
+        date_parse: enhancedDateParse,
         venue: enhancedVenue,
         ticket_url: ticketUrl,
         image_url: this.extractDetailPageImage($, this.baseUrl) || event.image_url
@@ -581,10 +608,28 @@ export class SandsScraper extends BaseScraper implements MacauScraper {
 }
 
 // Factory functions for easy instantiation
-export function createLondonerScraper(): SandsScraper {
-  return new SandsScraper('londoner', 'https://www.londonermacao.com', LONDONER_URL)
+export function createLondonerScraper(transport?: ScraperTransport): SandsScraper {
+  return new SandsScraper('londoner', 'https://www.londonermacao.com', LONDONER_URL, transport)
 }
 
-export function createVenetianScraper(): SandsScraper {
-  return new SandsScraper('venetian', 'https://www.venetianmacao.com', VENETIAN_URL)
-}
\ No newline at end of file
+export function createVenetianScraper(transport?: ScraperTransport): SandsScraper {
+  return new SandsScraper('venetian', 'https://www.venetianmacao.com', VENETIAN_URL, transport)
+}
+
+export const londonerScraperDefinition: ScraperDefinition = {
+  id: 'londoner',
+  displayName: 'The Londoner Macao',
+  organizer: 'The Londoner Macao',
+  coordinates: { lat: 22.1430, lng: 113.5571 }, // Cotai Strip
+  tags: ['londoner', 'sands', 'resort'],
+  create: createLondonerScraper
+}
+
+export const venetianScraperDefinition: ScraperDefinition = {
+  id: 'venetian',
+  displayName: 'The Venetian Macao',
+  organizer: 'The Venetian Macao',
+  coordinates: { lat: 22.1435, lng: 113.5586 }, // Cotai Strip
+  tags: ['venetian', 'sands', 'resort'],
+  create: createVenetianScraper
+}
@@ -0,0 +1,44 @@
+import * as macauScraperDefinitions from './macau'
+import type { ScraperDefinition } from './types'
+
+/**
+ * All scraper sources known to the coordinator and ingestion pipeline
+ * To add a venue, export a ScraperDefinition from its scraper module and
+ * re-export it from macau/index.ts
+ */
+const SCRAPER_DEFINITIONS: ScraperDefinition[] = Object.values(macauScraperDefinitions)
+
+// Sources that tag events from the AI scraper and its CSS fallback rather
+// than scrapers of their own
+const DERIVED_SOURCE_NAMES: Record<string, string> = {
+  ai_scraper: 'AI-Powered Scraper',
+  fallback_scraper: 'Fallback Scraper'
+}
+
+/**
+ * Get every registered scraper definition
+ */
+export function getScraperDefinitions(): ScraperDefinition[] {
+  return [...SCRAPER_DEFINITIONS]
+}
+
+/**
+ * Look up a scraper definition by source id
+ */
+export function getScraperDefinition(id: string): ScraperDefinition | undefined {
+  return SCRAPER_DEFINITIONS.find(definition => definition.id === id)
+}
+
+/**
+ * Check whether a source id is handled by a registered scraper
+ */
+export function isRegisteredScraper(id: string): boolean {
+  return getScraperDefinition(id) !== undefined
+}
+
+/**
+ * Display name for an event's source, including the AI and fallback scrapers
+ */
+export function getSourceDisplayName(source: string): string | undefined {
+  return getScraperDefinition(source)?.displayName || DERIVED_SOURCE_NAMES[source]
+}
@@ -0,0 +1,165 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * Archive of fetched scraper responses, for debugging and offline replay
+ *
+ * Bodies are stored content-addressed under bodies/<sha256>, so repeated
+ * fetches of an unchanged page share one copy. requests/<transport>/<sha256 of
+ * url>.json holds the latest response metadata for each URL.
+ */
+
+export type SnapshotTransport = 'http' | 'browser'
+
+// record: fetch from the network and save responses
+// replay: serve responses from the archive and never touch the network
+export type SnapshotMode = 'off' | 'record' | 'replay'
+
+export interface ResponseSnapshot {
+  url: string
+  transport: SnapshotTransport
+  status: number
+  headers: Record<string, string>
+  body: string
+  fetchedAt: string
+}
+
+/**
+ * Where snapshot files live; keys are relative paths such as "bodies/<hash>"
+ */
+export interface SnapshotStore {
+  read(key: string): Promise<string | null>
+  write(key: string, content: string): Promise<void>
+}
+
+export interface SnapshotOptions {
+  mode: SnapshotMode
+  archive: SnapshotArchive | null
+}
+
+export const DEFAULT_SNAPSHOT_DIR = '.scraper-snapshots'
+
+type SnapshotIndexEntry = Omit<ResponseSnapshot, 'body'> & { bodyHash: string }
+
+export class SnapshotArchive {
+  constructor(private store: SnapshotStore) {}
+
+  /**
+   * Save a response, returning the hash its body is stored under
+   */
+  async save(snapshot: ResponseSnapshot): Promise<string> {
+    const { body, ...metadata } = snapshot
+    const bodyHash = sha256(body)
+    const entry: SnapshotIndexEntry = { ...metadata, bodyHash }
+
+    await this.store.write(`bodies/${bodyHash}`, body)
+    await this.store.write(snapshotIndexKey(snapshot.transport, snapshot.url), JSON.stringify(entry, null, 2))
+    return bodyHash
+  }
+
+  /**
+   * Latest saved response for a URL, or null if it was never recorded
+   */
+  async load(transport: SnapshotTransport, url: string): Promise<ResponseSnapshot | null> {
+    const index = await this.store.read(snapshotIndexKey(transport, url))
+    if (!index) {
+      return null
+    }
+
+    const { bodyHash, ...metadata } = JSON.parse(index) as SnapshotIndexEntry
+    const body = await this.store.read(`bodies/${bodyHash}`)
+    return body === null ? null : { ...metadata, body }
+  }
+}
+
+export function snapshotIndexKey(transport: SnapshotTransport, url: string): string {
+  return `requests/${transport}/${sha256(url)}.json`
+}
+
+/**
+ * Store snapshots on the local filesystem
+ */
+export function createFileSnapshotStore(rootDir: string): SnapshotStore {
+  return {
+    async read(key) {
+      try {
+        return await fs.readFile(path.join(rootDir, key), 'utf-8')
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null
+        }
+        throw error
+      }
+    },
+    async write(key, content) {
+      const file = path.join(rootDir, key)
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.writeFile(file, content, 'utf-8')
+    }
+  }
+}
+
+/**
+ * Store snapshots in a Supabase Storage bucket, for serverless runs where the
+ * filesystem does not outlive the request
+ *
+ * @param storage - supabaseAdmin.storage
+ */
+export function createStorageSnapshotStore(storage: any, bucket: string): SnapshotStore {
+  return {
+    async read(key) {
+      const { data, error } = await storage.from(bucket).download(key)
+      if (error || !data) {
+        return null
+      }
+      return data.text()
+    },
+    async write(key, content) {
+      const { error } = await storage.from(bucket).upload(key, content, {
+        upsert: true,
+        contentType: 'text/plain; charset=utf-8'
+      })
+      if (error) {
+        throw new Error(`Failed to upload snapshot ${key}: ${error.message}`)
+      }
+    }
+  }
+}
+
+/**
+ * Snapshot settings from SCRAPER_SNAPSHOTS (record | replay)
+ * Snapshots go to SCRAPER_SNAPSHOT_BUCKET when set and a storage client is
+ * given, otherwise to SCRAPER_SNAPSHOT_DIR.
+ */
+export function snapshotOptionsFromEnv(env: NodeJS.ProcessEnv = process.env, storage?: any): SnapshotOptions {
+  const mode = env.SCRAPER_SNAPSHOTS
+  if (mode !== 'record' && mode !== 'replay') {
+    return { mode: 'off', archive: null }
+  }
+
+  const store = env.SCRAPER_SNAPSHOT_BUCKET && storage
+    ? createStorageSnapshotStore(storage, env.SCRAPER_SNAPSHOT_BUCKET)
+    : createFileSnapshotStore(env.SCRAPER_SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR)
+  return { mode, archive: new SnapshotArchive(store) }
+}
+
+let defaultSnapshotOptions: SnapshotOptions | null = null
+
+/**
+ * Override the snapshot settings used by scrapers without their own
+ */
+export function configureScraperSnapshots(options: SnapshotOptions | null): void {
+  defaultSnapshotOptions = options
+}
+
+export function getScraperSnapshotOptions(): SnapshotOptions {
+  if (!defaultSnapshotOptions) {
+    defaultSnapshotOptions = snapshotOptionsFromEnv()
+  }
+  return defaultSnapshotOptions
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
@@ -0,0 +1,265 @@
+import type { CheerioAPI, Cheerio } from 'cheerio'
+import type { AnyNode } from 'domhandler'
+
+/**
+ * Event fields read from schema.org structured data, before normalization
+ */
+export interface StructuredEventData {
+  name: string
+  description?: string
+  startDate?: string
+  endDate?: string
+  venue?: string
+  url?: string
+  ticketUrl?: string
+  imageUrl?: string
+  priceMin?: number
+}
+
+// Event and its schema.org subtypes (MusicEvent, TheaterEvent, Festival, ...)
+const EVENT_TYPE_PATTERN = /(?:^|[/#])(?:[A-Za-z]*Event|Festival)$/
+
+// Properties that commonly wrap events in listing pages
+const CONTAINER_KEYS = ['@graph', 'itemListElement', 'item', 'mainEntity', 'subEvent', 'event', 'events']
+
+/**
+ * Extract schema.org Events from JSON-LD blocks and microdata
+ *
+ * Handles `@graph` documents, ItemLists and nested Place/Offer/ImageObject
+ * values. Events appearing in both JSON-LD and microdata are returned once.
+ */
+export function extractSchemaOrgEvents($: CheerioAPI): StructuredEventData[] {
+  const events = [...extractJsonLdEvents($), ...extractMicrodataEvents($)]
+  const seen = new Set<string>()
+
+  return events.filter(event => {
+    const key = `${event.name.toLowerCase()}|${event.startDate || ''}`
+    if (seen.has(key)) {
+      return false
+    }
+    seen.add(key)
+    return true
+  })
+}
+
+function extractJsonLdEvents($: CheerioAPI): StructuredEventData[] {
+  const events: StructuredEventData[] = []
+
+  $('script[type="application/ld+json"]').each((_, script) => {
+    const raw = $(script).contents().text()
+      .replace(/^\s*<!--/, '')
+      .replace(/-->\s*$/, '')
+      .replace(/^\s*\/\/\s*<!\[CDATA\[/, '')
+      .replace(/\/\/\s*\]\]>\s*$/, '')
+      .trim()
+
+    if (!raw) {
+      return
+    }
+
+    try {
+      collectJsonLdEvents(JSON.parse(raw), events, 0)
+    } catch (error) {
+      console.warn('Skipping invalid JSON-LD block:', error instanceof Error ? error.message : error)
+    }
+  })
+
+  return events
+}
+
+function collectJsonLdEvents(node: any, events: StructuredEventData[], depth: number): void {
+  if (!node || typeof node !== 'object' || depth > 6) {
+    return
+  }
+
+  if (Array.isArray(node)) {
+    node.forEach(child => collectJsonLdEvents(child, events, depth + 1))
+    return
+  }
+
+  if (isEventType(node['@type'])) {
+    const event = mapJsonLdEvent(node)
+    if (event) {
+      events.push(event)
+    }
+  }
+
+  for (const key of CONTAINER_KEYS) {
+    if (node[key]) {
+      collectJsonLdEvents(node[key], events, depth + 1)
+    }
+  }
+}
+
+function isEventType(type: unknown): boolean {
+  const types = Array.isArray(type) ? type : [type]
+  return types.some(value => typeof value === 'string' && EVENT_TYPE_PATTERN.test(value))
+}
+
+function mapJsonLdEvent(node: any): StructuredEventData | null {
+  const name = textValue(node.name)
+  if (!name) {
+    return null
+  }
+
+  const offers = toArray(node.offers)
+  const prices = offers
+    .flatMap(offer => [offer?.lowPrice, offer?.price, offer?.priceSpecification?.price])
+    .map(parsePrice)
+    .filter((price): price is number => price !== undefined)
+
+  return {
+    name,
+    description: textValue(node.description),
+    startDate: textValue(node.startDate),
+    endDate: textValue(node.endDate),
+    venue: placeName(node.location),
+    url: textValue(node.url) || (typeof node['@id'] === 'string' && /^https?:\/\//.test(node['@id']) ? node['@id'] : undefined),
+    ticketUrl: offers.map(offer => textValue(offer?.url)).find(Boolean),
+    imageUrl: imageValue(node.image),
+    priceMin: prices.length > 0 ? Math.min(...prices) : undefined
+  }
+}
+
+function placeName(location: any): string | undefined {
+  for (const place of toArray(location)) {
+    if (typeof place === 'string') {
+      return place.trim() || undefined
+    }
+    if (place && typeof place === 'object') {
+      const name = textValue(place.name)
+      if (name) {
+        return name
+      }
+      if (typeof place.address === 'string') {
+        return place.address.trim() || undefined
+      }
+      const streetAddress = textValue(place.address?.streetAddress)
+      if (streetAddress) {
+        return streetAddress
+      }
+    }
+  }
+  return undefined
+}
+
+function imageValue(image: any): string | undefined {
+  for (const candidate of toArray(image)) {
+    if (typeof candidate === 'string' && candidate.trim()) {
+      return candidate.trim()
+    }
+    const url = textValue(candidate?.url) || textValue(candidate?.contentUrl)
+    if (url) {
+      return url
+    }
+  }
+  return undefined
+}
+
+function extractMicrodataEvents($: CheerioAPI): StructuredEventData[] {
+  const events: StructuredEventData[] = []
+
+  $('[itemscope][itemtype]').each((_, element) => {
+    const $event = $(element)
+    const itemTypes = ($event.attr('itemtype') || '').split(/\s+/)
+    if (!itemTypes.some(type => /schema\.org/i.test(type) && EVENT_TYPE_PATTERN.test(type))) {
+      return
+    }
+
+    const name = microdataValue($, $event, 'name')
+    if (!name) {
+      return
+    }
+
+    const $location = findItemProp($, $event, 'location')
+    const venue = $location.is('[itemscope]')
+      ? microdataValue($, $location, 'name') || microdataValue($, $location, 'address')
+      : readItemPropValue($location)
+
+    const $offers = findItemProp($, $event, 'offers')
+    const prices: number[] = []
+    let ticketUrl: string | undefined
+    $offers.each((_, offer) => {
+      const $offer = $(offer)
+      for (const property of ['lowPrice', 'price']) {
+        const price = parsePrice(microdataValue($, $offer, property))
+        if (price !== undefined) {
+          prices.push(price)
+        }
+      }
+      ticketUrl = ticketUrl || microdataValue($, $offer, 'url')
+    })
+
+    events.push({
+      name,
+      description: microdataValue($, $event, 'description'),
+      startDate: microdataValue($, $event, 'startDate'),
+      endDate: microdataValue($, $event, 'endDate'),
+      venue,
+      url: microdataValue($, $event, 'url'),
+      ticketUrl,
+      imageUrl: microdataValue($, $event, 'image'),
+      priceMin: prices.length > 0 ? Math.min(...prices) : undefined
+    })
+  })
+
+  return events
+}
+
+/**
+ * Find an itemprop belonging to this item, not to a nested itemscope
+ */
+function findItemProp($: CheerioAPI, $item: Cheerio<AnyNode>, property: string): Cheerio<AnyNode> {
+  const itemRoot = $item.get(0)
+  return $item.find(`[itemprop~="${property}"]`).filter((_, element) => {
+    const owner = $(element).parent().closest('[itemscope]').get(0)
+    return owner === itemRoot
+  })
+}
+
+function microdataValue($: CheerioAPI, $item: Cheerio<AnyNode>, property: string): string | undefined {
+  return readItemPropValue(findItemProp($, $item, property).first())
+}
+
+function readItemPropValue($element: Cheerio<AnyNode>): string | undefined {
+  if ($element.length === 0) {
+    return undefined
+  }
+  const value = $element.attr('content')
+    || $element.attr('datetime')
+    || ($element.is('a, link') ? $element.attr('href') : undefined)
+    || ($element.is('img, source') ? $element.attr('src') : undefined)
+    || ($element.is('meta') ? undefined : $element.text())
+  return value?.replace(/\s+/g, ' ').trim() || undefined
+}
+
+function textValue(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value.replace(/\s+/g, ' ').trim() || undefined
+  }
+  if (typeof value === 'number') {
+    return String(value)
+  }
+  if (Array.isArray(value)) {
+    return textValue(value[0])
+  }
+  return undefined
+}
+
+function parsePrice(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : undefined
+  }
+  if (typeof value !== 'string') {
+    return undefined
+  }
+  const match = value.replace(/,/g, '').match(/\d+(?:\.\d+)?/)
+  return match ? parseFloat(match[0]) : undefined
+}
+
+function toArray(value: any): any[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  return Array.isArray(value) ? value : [value]
+}
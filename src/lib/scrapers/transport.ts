@@ -0,0 +1,243 @@
+import axios from 'axios'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { chromium, Browser, Page } from 'playwright'
+import { ScraperError, ScraperErrorType } from './types'
+
+/**
+ * How scrapers reach the network
+ *
+ * BaseScraper owns rate limiting, retries and snapshots; a transport only
+ * performs a single fetch. Pass one to a scraper's constructor to run it
+ * against fixtures or a local stub server instead of the live sites.
+ */
+
+export interface TransportRequest {
+  url: string
+  headers: Record<string, string>
+  timeout: number
+  maxRedirects: number
+}
+
+export interface BrowserRenderRequest {
+  url: string
+  headers: Record<string, string>
+  timeout: number
+  waitForSelector?: string
+  waitTimeout?: number
+}
+
+export interface TransportResponse {
+  data: any
+  status: number
+  statusText: string
+  headers: Record<string, string>
+}
+
+export interface ScraperTransport {
+  /**
+   * Fetch a URL over HTTP
+   * Resolves for any status below 500; rejects on network failures and 5xx
+   * responses so the scraper retries them.
+   */
+  get(request: TransportRequest): Promise<TransportResponse>
+  /**
+   * Load a URL in a browser and return the HTML after JavaScript has run
+   */
+  render(request: BrowserRenderRequest): Promise<TransportResponse>
+  /**
+   * Release anything held between requests, such as the browser
+   */
+  close(): Promise<void>
+}
+
+/**
+ * Transport that fetches with axios and renders with a headless Chromium,
+ * launched on first use
+ */
+export function createLiveTransport(): ScraperTransport {
+  let browser: Browser | null = null
+
+  const launchBrowser = async (): Promise<Browser> => {
+    if (!browser) {
+      try {
+        browser = await chromium.launch({
+          headless: true,
+          args: ['--no-sandbox', '--disable-setuid-sandbox'] // For Linux environments
+        })
+      } catch (error) {
+        throw new ScraperError(
+          ScraperErrorType.NETWORK_ERROR,
+          `Failed to initialize browser: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'browser',
+          error instanceof Error ? error : undefined
+        )
+      }
+    }
+    return browser
+  }
+
+  return {
+    async get(request) {
+      try {
+        const response = await axios.get(request.url, {
+          headers: request.headers,
+          timeout: request.timeout,
+          maxRedirects: request.maxRedirects,
+          validateStatus: (status) => status < 500 // Retry on 5xx errors
+        })
+        return {
+          data: response.data,
+          status: response.status,
+          statusText: response.statusText,
+          headers: headersToRecord(response.headers)
+        }
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          if (error.response?.status && error.response.status < 500) {
+            throw new ScraperError(
+              ScraperErrorType.INVALID_RESPONSE,
+              `HTTP ${error.response.status}: ${error.response.statusText}`,
+              request.url,
+              error
+            )
+          }
+
+          if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+            throw new ScraperError(
+              ScraperErrorType.TIMEOUT_ERROR,
+              'Request timeout',
+              request.url,
+              error
+            )
+          }
+        }
+        throw error
+      }
+    },
+
+    async render(request) {
+      const page: Page = await (await launchBrowser()).newPage()
+      try {
+        await page.setExtraHTTPHeaders(request.headers)
+
+        const response = await page.goto(request.url, {
+          timeout: request.timeout,
+          waitUntil: 'domcontentloaded'
+        })
+        if (!response) {
+          throw new ScraperError(ScraperErrorType.INVALID_RESPONSE, 'No response from page', request.url)
+        }
+
+        // Wait for specific selector if provided
+        if (request.waitForSelector && response.status() < 400) {
+          try {
+            await page.waitForSelector(request.waitForSelector, {
+              timeout: request.waitTimeout || 10000
+            })
+          } catch (error) {
+            console.warn(`Selector "${request.waitForSelector}" not found, continuing anyway`)
+          }
+        }
+
+        return {
+          data: await page.content(),
+          status: response.status(),
+          statusText: response.statusText(),
+          headers: response.headers()
+        }
+      } finally {
+        await page.close().catch(() => {})
+      }
+    },
+
+    async close() {
+      if (browser) {
+        await browser.close()
+        browser = null
+      }
+    }
+  }
+}
+
+export interface FixtureResponse {
+  body: string
+  status?: number
+  headers?: Record<string, string>
+}
+
+/**
+ * Canned responses keyed by URL, separately for HTTP and browser requests
+ */
+export interface FixtureMap {
+  http?: Record<string, string | FixtureResponse>
+  browser?: Record<string, string | FixtureResponse>
+}
+
+/**
+ * Transport that serves fixed responses and never touches the network
+ * URLs missing from the map get a 404, as a stub server would return.
+ */
+export function createFixtureTransport(fixtures: FixtureMap): ScraperTransport {
+  const respond = (pages: FixtureMap['http'], url: string): TransportResponse => {
+    const fixture = pages?.[url]
+    if (fixture === undefined) {
+      return { data: '', status: 404, statusText: 'Not Found', headers: {} }
+    }
+
+    const { body, status = 200, headers = { 'content-type': 'text/html; charset=utf-8' } } =
+      typeof fixture === 'string' ? { body: fixture } : fixture
+    return { data: body, status, statusText: status < 400 ? 'OK' : 'Error', headers }
+  }
+
+  return {
+    async get(request) {
+      return respond(fixtures.http, request.url)
+    },
+    async render(request) {
+      return respond(fixtures.browser, request.url)
+    },
+    async close() {}
+  }
+}
+
+/**
+ * Fixture transport for one source from a manifest file
+ *
+ * The manifest maps source ids to { http: { url: file }, browser: { url: file } },
+ * with files relative to the manifest; see tests/fixtures/macau/manifest.json.
+ */
+export function loadFixtureTransport(manifestFile: string, sourceId: string): ScraperTransport {
+  const manifest = JSON.parse(readFileSync(manifestFile, 'utf-8'))
+  const readPages = (pages?: Record<string, string>) => {
+    const bodies: Record<string, string> = {}
+    for (const [url, file] of Object.entries(pages || {})) {
+      bodies[url] = readFileSync(path.resolve(path.dirname(manifestFile), file), 'utf-8')
+    }
+    return bodies
+  }
+
+  const source = manifest[sourceId] || {}
+  return createFixtureTransport({
+    http: readPages(source.http),
+    browser: readPages(source.browser)
+  })
+}
+
+/**
+ * Fixture transport from the manifest named in SCRAPER_FIXTURES, so a whole
+ * ingestion run can go offline; undefined when the variable is unset
+ */
+export function fixtureTransportFromEnv(sourceId: string, env: NodeJS.ProcessEnv = process.env): ScraperTransport | undefined {
+  return env.SCRAPER_FIXTURES ? loadFixtureTransport(env.SCRAPER_FIXTURES, sourceId) : undefined
+}
+
+function headersToRecord(headers: unknown): Record<string, string> {
+  const record: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers || {})) {
+    if (value !== undefined && value !== null) {
+      record[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value)
+    }
+  }
+  return record
+}
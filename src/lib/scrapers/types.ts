@@ -1,10 +1,14 @@
+import type { ScraperTransport } from './transport'
+import type { DateParseInfo } from '@/types'
+
 /**
  * Raw event data structure returned by Macau scrapers
  * This is the uniform interface all scrapers must implement
  */
 export interface RawEvent {
-  source: 'mgto' | 'londoner' | 'venetian' | 'galaxy' | 'mice' | 'broadway' | 'ai_scraper' | 'fallback_scraper'
-  source_id: string         // stable per event (hash or canonical id)
+  source: string             // registered scraper id (see registry.ts)
+  source_id: string         // stable per event, from createSourceId
+  legacy_source_id?: string // its ID before SHA-256 source IDs, so ingestion can re-key the stored row
   title: string
   description?: string
   start: string             // ISO (UTC)
@@ -16,6 +20,11 @@ export interface RawEvent {
   image_url?: string        // event image if available
   price_min?: number
   categories?: string[]
+  occurrences?: Array<{     // separate dates of a multi-date event; start/end span them all
+    start: string           // ISO (UTC)
+    end?: string            // ISO (UTC)
+  }>
+  date_parse?: DateParseInfo // how the date text was read, for "time TBA" and review flags
 }
 
 /**
@@ -53,12 +62,51 @@ export interface MacauScraper {
   /**
    * Get the source identifier
    */
-  getSourceId(): 'mgto' | 'londoner' | 'venetian' | 'galaxy' | 'mice' | 'broadway'
+  getSourceId(): string
   
   /**
    * Get rate limiting configuration for this source
    */
   getRateLimitConfig(): RateLimitConfig
+
+  /**
+   * Request diagnostics since the last reset (provided by BaseScraper)
+   */
+  getRunStats?(): ScraperRunStats
+
+  /**
+   * Clear request diagnostics before a new fetch (provided by BaseScraper)
+   */
+  resetRunStats?(): void
+
+  /**
+   * Date that years and relative dates are read against (provided by BaseScraper)
+   */
+  setReferenceDate?(date: Date | null): void
+}
+
+/**
+ * Request diagnostics collected while a scraper fetches
+ */
+export interface ScraperRunStats {
+  usedBrowser: boolean      // browser automation was needed at least once
+  errorsByType: Partial<Record<ScraperErrorType, number>>
+}
+
+/**
+ * Registry entry describing a scraper source
+ * Each scraper module exports one of these; see registry.ts
+ */
+export interface ScraperDefinition {
+  id: string                // matches the sources table id and RawEvent.source
+  displayName: string
+  organizer: string
+  coordinates: {            // approximate venue location for map display
+    lat: number
+    lng: number
+  }
+  tags: string[]            // added to every normalized event from this source
+  create(transport?: ScraperTransport): MacauScraper  // live network when no transport is given
 }
 
 /**
@@ -0,0 +1,227 @@
+import { z } from 'zod'
+import type { RawEvent } from './types'
+import type { Event } from '@/types'
+
+/**
+ * Zod schemas guarding the two ingestion boundaries:
+ * scraper -> coordinator (RawEvent) and coordinator -> database (Event)
+ *
+ * Validation only gates events; accepted events are passed on unchanged so
+ * content hashes of existing rows stay stable.
+ */
+
+export type RejectionCode =
+  | 'missing_field'
+  | 'invalid_type'
+  | 'invalid_date'
+  | 'invalid_range'
+  | 'relative_url'
+  | 'invalid_url'
+  | 'invalid_value'
+
+export interface RejectionReason {
+  code: RejectionCode
+  field: string
+  message: string
+}
+
+export interface EventRejection {
+  sourceId: string            // sources table id
+  stage: 'raw' | 'normalized'
+  eventSourceId?: string
+  title?: string
+  reasons: RejectionReason[]
+}
+
+export type ValidationResult<T> =
+  | { event: T; reasons?: undefined }
+  | { event?: undefined; reasons: RejectionReason[] }
+
+// Longest span accepted between start and end; festivals run for months, not years
+const MAX_EVENT_DURATION_DAYS = 366
+
+// Years outside this window come from a mis-parsed date, not a real listing
+const MIN_EVENT_YEAR = 2000
+const MAX_EVENT_YEAR = 2100
+
+// Full date and time with an explicit offset, so the instant is unambiguous
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function reject(ctx: z.RefinementCtx, code: RejectionCode, message: string, path?: string[]) {
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message, params: { code }, path })
+}
+
+const requiredText = z.string().superRefine((value, ctx) => {
+  if (!value.trim()) {
+    reject(ctx, 'missing_field', 'is empty')
+  }
+})
+
+const isoDateTime = z.string().superRefine((value, ctx) => {
+  if (!ISO_DATE_TIME.test(value) || isNaN(Date.parse(value))) {
+    reject(ctx, 'invalid_date', `"${value}" is not an ISO 8601 date-time with offset`)
+    return
+  }
+  const year = new Date(value).getUTCFullYear()
+  if (year < MIN_EVENT_YEAR || year > MAX_EVENT_YEAR) {
+    reject(ctx, 'invalid_date', `year ${year} is implausible`)
+  }
+})
+
+const absoluteUrl = z.string().superRefine((value, ctx) => {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    // Scrapers must resolve links against the page URL before returning them
+    const code = /^[a-z][a-z0-9+.-]*:/i.test(value) ? 'invalid_url' : 'relative_url'
+    reject(ctx, code, `"${value}" is not an absolute URL`)
+    return
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    reject(ctx, 'invalid_url', `"${value}" is not an http(s) URL`)
+  }
+})
+
+/**
+ * Optional field; scrapers often emit null or an empty string for "not found"
+ */
+function optional<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(value => (value === null || value === '' ? undefined : value), schema.optional())
+}
+
+function checkRange(start: unknown, end: unknown, endField: string, ctx: z.RefinementCtx) {
+  if (typeof start !== 'string' || typeof end !== 'string') {
+    return
+  }
+  const startMs = Date.parse(start)
+  const endMs = Date.parse(end)
+  if (isNaN(startMs) || isNaN(endMs)) {
+    return
+  }
+
+  if (endMs < startMs) {
+    reject(ctx, 'invalid_range', 'ends before it starts', [endField])
+  } else if (endMs - startMs > MAX_EVENT_DURATION_DAYS * DAY_MS) {
+    reject(ctx, 'invalid_range', `lasts more than ${MAX_EVENT_DURATION_DAYS} days`, [endField])
+  }
+}
+
+const dateParseInfo = z.object({
+  rule: requiredText,
+  timeKnown: z.boolean(),
+  yearInferred: z.boolean(),
+  endInferred: z.boolean(),
+  confidence: z.number().min(0).max(1)
+})
+
+export const rawEventSchema = z.object({
+  source: requiredText,
+  source_id: requiredText,
+  legacy_source_id: optional(z.string()),
+  title: requiredText,
+  description: optional(z.string()),
+  start: isoDateTime,
+  end: optional(isoDateTime),
+  venue: optional(z.string()),
+  city: requiredText,
+  url: absoluteUrl,
+  ticket_url: optional(absoluteUrl),
+  image_url: optional(absoluteUrl),
+  price_min: optional(z.number().finite().nonnegative()),
+  categories: optional(z.array(requiredText)),
+  occurrences: optional(z.array(z.object({
+    start: isoDateTime,
+    end: optional(isoDateTime)
+  }).superRefine((occurrence, ctx) => checkRange(occurrence.start, occurrence.end, 'end', ctx)))),
+  date_parse: optional(dateParseInfo)
+}).superRefine((event, ctx) => checkRange(event.start, event.end, 'end', ctx))
+
+export const eventSchema = z.object({
+  source: z.enum(['rss', 'newsapi', 'web_scraper', 'ical']),
+  sourceId: requiredText,
+  legacySourceId: optional(z.string()),
+  legacySourceIdPrefix: optional(z.string()),
+  title: requiredText,
+  description: optional(z.string()),
+  longDescription: optional(z.string()),
+  startTime: optional(isoDateTime),
+  endTime: optional(isoDateTime),
+  timezone: optional(z.string()),
+  venueName: optional(z.string()),
+  city: optional(z.string()),
+  country: optional(z.string()),
+  lat: optional(z.number().min(-90).max(90)),
+  lng: optional(z.number().min(-180).max(180)),
+  categories: optional(z.array(z.string())),
+  tags: optional(z.array(z.string())),
+  imageUrl: optional(absoluteUrl),
+  organizerName: optional(z.string()),
+  externalUrl: optional(absoluteUrl),
+  lastSeenAt: optional(isoDateTime),
+  occurrences: optional(z.array(z.object({
+    startTime: isoDateTime,
+    endTime: optional(isoDateTime)
+  }).passthrough().superRefine((occurrence, ctx) => checkRange(occurrence.startTime, occurrence.endTime, 'endTime', ctx)))),
+  dateParse: optional(dateParseInfo)
+}).passthrough().superRefine((event, ctx) => checkRange(event.startTime, event.endTime, 'endTime', ctx))
+
+/**
+ * Validate an event returned by a scraper before the coordinator normalizes it
+ */
+export function validateRawEvent(rawEvent: RawEvent): ValidationResult<RawEvent> {
+  const parsed = rawEventSchema.safeParse(rawEvent)
+  return parsed.success ? { event: rawEvent } : { reasons: toReasons(parsed.error) }
+}
+
+/**
+ * Validate a normalized event before it is written to the database
+ */
+export function validateEvent(event: Partial<Event>): ValidationResult<Partial<Event>> {
+  const parsed = eventSchema.safeParse(event)
+  return parsed.success ? { event } : { reasons: toReasons(parsed.error) }
+}
+
+/**
+ * Number of rejected events per reason code; an event with several problems
+ * of the same kind counts once for that code
+ */
+export function countRejections(rejections: EventRejection[]): Partial<Record<RejectionCode, number>> {
+  const counts: Partial<Record<RejectionCode, number>> = {}
+  for (const rejection of rejections) {
+    for (const code of new Set(rejection.reasons.map(reason => reason.code))) {
+      counts[code] = (counts[code] || 0) + 1
+    }
+  }
+  return counts
+}
+
+/**
+ * One line per rejection, for logs and dry-run previews
+ */
+export function formatRejection(rejection: EventRejection): string {
+  const reasons = rejection.reasons.map(reason => `${reason.field} ${reason.message}`).join('; ')
+  return `Rejected ${rejection.stage} event${rejection.title ? ` "${rejection.title}"` : ''}: ${reasons}`
+}
+
+function toReasons(error: z.ZodError): RejectionReason[] {
+  return error.issues.map(issue => ({
+    code: reasonCode(issue),
+    field: issue.path.join('.') || 'event',
+    message: issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined'
+      ? 'is required'
+      : issue.message
+  }))
+}
+
+function reasonCode(issue: z.ZodIssue): RejectionCode {
+  if (issue.code === z.ZodIssueCode.custom && issue.params?.code) {
+    return issue.params.code
+  }
+  if (issue.code === z.ZodIssueCode.invalid_type) {
+    return issue.received === 'undefined' || issue.received === 'null' ? 'missing_field' : 'invalid_type'
+  }
+  return 'invalid_value'
+}
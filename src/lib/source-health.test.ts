@@ -0,0 +1,22 @@
+import { computeBaseline, detectCountDrop } from './source-health'
+
+describe('computeBaseline', () => {
+  it('uses the median of recent runs', () => {
+    expect(computeBaseline([30, 28, 90, 31])).toBe(30.5)
+    expect(computeBaseline([30, 28])).toBeNull()
+  })
+})
+
+describe('detectCountDrop', () => {
+  const history = [30, 32, 29, 31, 30]
+
+  it('flags a run far below the baseline', () => {
+    expect(detectCountDrop(2, history)).toEqual({ count: 2, baseline: 30, ratio: 2 / 30 })
+    expect(detectCountDrop(0, history)).not.toBeNull()
+  })
+
+  it('accepts normal variation and sources with tiny baselines', () => {
+    expect(detectCountDrop(20, history)).toBeNull()
+    expect(detectCountDrop(0, [2, 3, 2])).toBeNull()
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * Flag scraper runs whose event count collapsed compared to recent history
+ *
+ * A redesigned site usually still loads, so the scraper "succeeds" with 0 or
+ * a handful of events. Comparing against a rolling baseline catches that.
+ */
+
+// Recent healthy runs that make up the baseline
+export const BASELINE_WINDOW = 10
+
+// Too little history or a tiny baseline makes the ratio meaningless
+const MIN_HISTORY_RUNS = 3
+const MIN_BASELINE_COUNT = 5
+
+// Flag runs below this share of the baseline
+const DROP_RATIO = 0.3
+
+export interface CountAnomaly {
+  count: number
+  baseline: number
+  ratio: number
+}
+
+export interface SourceHealthWarning {
+  sourceId: string
+  count: number
+  baseline: number
+  message: string
+}
+
+/**
+ * Median of the recent counts, or null when there are too few runs
+ */
+export function computeBaseline(history: number[]): number | null {
+  const recent = history.slice(0, BASELINE_WINDOW)
+  if (recent.length < MIN_HISTORY_RUNS) {
+    return null
+  }
+
+  // Median, so one unusually large or small run does not move the baseline
+  const sorted = [...recent].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+/**
+ * Compare a run's event count with the baseline of previous healthy runs
+ *
+ * @param history - counts of previous healthy runs, newest first
+ */
+export function detectCountDrop(count: number, history: number[]): CountAnomaly | null {
+  const baseline = computeBaseline(history)
+  if (baseline === null || baseline < MIN_BASELINE_COUNT) {
+    return null
+  }
+
+  const ratio = count / baseline
+  return ratio < DROP_RATIO ? { count, baseline, ratio } : null
+}
@@ -33,16 +33,21 @@ export function formatDate(date: string | Date, format: 'short' | 'long' | 'time
   }
 }
 
-export function formatDateRange(start: string | Date, end?: string | Date) {
+export function formatDateRange(start: string | Date, end?: string | Date, timeKnown = true) {
   const startDate = new Date(start)
   const endDate = end ? new Date(end) : null
   
   if (!endDate) {
-    return formatDate(startDate, 'long')
+    return timeKnown ? formatDate(startDate, 'long') : `${formatDate(startDate, 'long')} • time TBA`
   }
   
   const isSameDay = startDate.toDateString() === endDate.toDateString()
   
+  // The source gave only a day, so the stored times are placeholders
+  if (isSameDay && !timeKnown) {
+    return `${formatDate(startDate, 'long')} • time TBA`
+  }
+
   if (isSameDay) {
     return `${formatDate(startDate, 'long')} • ${formatDate(startDate, 'time')} - ${formatDate(endDate, 'time')}`
   }
@@ -1,12 +1,27 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { hasCronSecret, isAdminPath, isAdminUser } from '@/lib/admin-auth'
+import type { Database } from '@/types/database'
 
 export async function middleware(request: NextRequest) {
+  // Calendar feeds are fetched by calendar clients without a session cookie;
+  // the route authorizes them with the secret token in the URL instead
+  if (request.nextUrl.pathname.startsWith('/api/calendar/')) {
+    return NextResponse.next()
+  }
+
+  const isAdminApi = request.nextUrl.pathname.startsWith('/api/admin')
+
+  // Cron jobs call admin APIs without a session
+  if (isAdminApi && hasCronSecret(request)) {
+    return NextResponse.next()
+  }
+
   let supabaseResponse = NextResponse.next({
     request,
   })
 
-  const supabase = createServerClient(
+  const supabase = createServerClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
     {
@@ -46,6 +61,21 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(new URL('/auth/login', request.url))
   }
 
+  // Admin pages and APIs require the admin role
+  if (isAdminPath(request.nextUrl.pathname)) {
+    const isAdmin = user ? await isAdminUser(supabase, user.id) : false
+
+    if (!isAdmin) {
+      if (isAdminApi) {
+        return NextResponse.json(
+          { error: user ? 'Forbidden' : 'Unauthorized' },
+          { status: user ? 403 : 401 }
+        )
+      }
+      return NextResponse.redirect(new URL('/dashboard', request.url))
+    }
+  }
+
   // Redirect authenticated users from home page to dashboard
   if (user && isHomePage) {
     return NextResponse.redirect(new URL('/dashboard', request.url))
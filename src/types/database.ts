@@ -1,3 +1,21 @@
+import type { DateParseInfo } from './index'
+
+// Values duplicate merging took from other sources, shown over a canonical
+// event's own columns; kept apart so ingestion of its source does not undo them
+export interface MergedEventFields {
+  description?: string | null
+  long_description?: string | null
+  venue_name?: string | null
+  start_time_utc?: string | null
+  end_time_utc?: string | null
+  date_parse?: DateParseInfo | null
+  lat?: number | null
+  lng?: number | null
+  image_url?: string | null
+  organizer_name?: string | null
+  external_url?: string | null
+}
+
 export interface Database {
   public: {
     Tables: {
@@ -9,6 +27,7 @@ export interface Database {
           name: string | null
           city: string | null
           country: string | null
+          role: 'user' | 'admin'
           created_at: string
           updated_at: string
         }
@@ -19,6 +38,7 @@ export interface Database {
           name?: string | null
           city?: string | null
           country?: string | null
+          role?: 'user' | 'admin'
           created_at?: string
           updated_at?: string
         }
@@ -29,14 +49,16 @@ export interface Database {
           name?: string | null
           city?: string | null
           country?: string | null
+          role?: 'user' | 'admin'
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       events: {
         Row: {
           id: string
-          source: 'rss' | 'newsapi' | 'web_scraper' | 'web_scraper'
+          source: 'rss' | 'newsapi' | 'web_scraper' | 'ical'
           source_id: string
           title: string
           description: string | null
@@ -55,10 +77,20 @@ export interface Database {
           organizer_name: string | null
           external_url: string | null
           last_seen_at: string
+          canonical_event_id: string | null
+          source_urls: string[]
+          merged_fields: MergedEventFields | null
+          content_hash: string | null
+          ingestion_source_id: string | null
+          archived_at: string | null
+          archived_reason: 'stale' | 'past' | 'source_removed' | 'manual' | null
+          date_parse: DateParseInfo | null
+          needs_review: boolean
+          previous_source_ids: string[]
         }
         Insert: {
           id?: string
-          source: 'rss' | 'newsapi' | 'web_scraper'
+          source: 'rss' | 'newsapi' | 'web_scraper' | 'ical'
           source_id: string
           title: string
           description?: string | null
@@ -77,10 +109,20 @@ export interface Database {
           organizer_name?: string | null
           external_url?: string | null
           last_seen_at?: string
+          canonical_event_id?: string | null
+          source_urls?: string[]
+          merged_fields?: MergedEventFields | null
+          content_hash?: string | null
+          ingestion_source_id?: string | null
+          archived_at?: string | null
+          archived_reason?: 'stale' | 'past' | 'source_removed' | 'manual' | null
+          date_parse?: DateParseInfo | null
+          needs_review?: boolean
+          previous_source_ids?: string[]
         }
         Update: {
           id?: string
-          source?: 'rss' | 'newsapi'
+          source?: 'rss' | 'newsapi' | 'web_scraper' | 'ical'
           source_id?: string
           title?: string
           description?: string | null
@@ -99,7 +141,18 @@ export interface Database {
           organizer_name?: string | null
           external_url?: string | null
           last_seen_at?: string
+          canonical_event_id?: string | null
+          source_urls?: string[]
+          merged_fields?: MergedEventFields | null
+          content_hash?: string | null
+          ingestion_source_id?: string | null
+          archived_at?: string | null
+          archived_reason?: 'stale' | 'past' | 'source_removed' | 'manual' | null
+          date_parse?: DateParseInfo | null
+          needs_review?: boolean
+          previous_source_ids?: string[]
         }
+        Relationships: []
       }
       saved_events: {
         Row: {
@@ -123,35 +176,55 @@ export interface Database {
           note?: string | null
           created_at?: string
         }
+        Relationships: []
       }
       sources: {
         Row: {
           id: string
-          type: 'rss' | 'newsapi' | 'web_scraper'
+          type: 'rss' | 'newsapi' | 'web_scraper' | 'ical'
           name: string
           url: string | null
           active: boolean
+          schedule: string | null
+          breaker_state: 'closed' | 'open' | 'half_open'
+          consecutive_failures: number
+          consecutive_empty_runs: number
+          breaker_opened_at: string | null
+          breaker_next_probe_at: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
-          type: 'rss' | 'newsapi' | 'web_scraper'
+          type: 'rss' | 'newsapi' | 'web_scraper' | 'ical'
           name: string
           url?: string | null
           active?: boolean
+          schedule?: string | null
+          breaker_state?: 'closed' | 'open' | 'half_open'
+          consecutive_failures?: number
+          consecutive_empty_runs?: number
+          breaker_opened_at?: string | null
+          breaker_next_probe_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
-          type?: 'rss' | 'newsapi' | 'web_scraper'
+          type?: 'rss' | 'newsapi' | 'web_scraper' | 'ical'
           name?: string
           url?: string | null
           active?: boolean
+          schedule?: string | null
+          breaker_state?: 'closed' | 'open' | 'half_open'
+          consecutive_failures?: number
+          consecutive_empty_runs?: number
+          breaker_opened_at?: string | null
+          breaker_next_probe_at?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       ingestion_logs: {
         Row: {
@@ -175,7 +248,232 @@ export interface Database {
           message?: string | null
           created_at?: string
         }
+        Relationships: []
       }
+      event_occurrences: {
+        Row: {
+          id: string
+          event_id: string
+          start_time_utc: string
+          end_time_utc: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          start_time_utc: string
+          end_time_utc?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          start_time_utc?: string
+          end_time_utc?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'event_occurrences_event_id_fkey'
+            columns: ['event_id']
+            isOneToOne: false
+            referencedRelation: 'events'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      event_revisions: {
+        Row: {
+          id: string
+          event_id: string
+          ingestion_run_id: string | null
+          source_id: string | null
+          changed_fields: string[]
+          changes: Record<string, { from: unknown; to: unknown }>
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          ingestion_run_id?: string | null
+          source_id?: string | null
+          changed_fields: string[]
+          changes?: Record<string, { from: unknown; to: unknown }>
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          ingestion_run_id?: string | null
+          source_id?: string | null
+          changed_fields?: string[]
+          changes?: Record<string, { from: unknown; to: unknown }>
+          created_at?: string
+        }
+        Relationships: []
+      }
+      ingestion_runs: {
+        Row: {
+          id: string
+          status: 'running' | 'success' | 'partial' | 'failed'
+          source_filter: string[] | null
+          started_at: string
+          finished_at: string | null
+          duration_ms: number | null
+          events_processed: number
+          events_added: number
+          events_updated: number
+          events_unchanged: number
+          events_merged: number
+          error_count: number
+        }
+        Insert: {
+          id: string
+          status?: 'running' | 'success' | 'partial' | 'failed'
+          source_filter?: string[] | null
+          started_at?: string
+          finished_at?: string | null
+          duration_ms?: number | null
+          events_processed?: number
+          events_added?: number
+          events_updated?: number
+          events_unchanged?: number
+          events_merged?: number
+          error_count?: number
+        }
+        Update: {
+          id?: string
+          status?: 'running' | 'success' | 'partial' | 'failed'
+          source_filter?: string[] | null
+          started_at?: string
+          finished_at?: string | null
+          duration_ms?: number | null
+          events_processed?: number
+          events_added?: number
+          events_updated?: number
+          events_unchanged?: number
+          events_merged?: number
+          error_count?: number
+        }
+        Relationships: []
+      }
+      ingestion_run_sources: {
+        Row: {
+          id: string
+          run_id: string
+          source_id: string | null
+          status: 'success' | 'failed'
+          started_at: string
+          duration_ms: number
+          raw_count: number
+          normalized_count: number
+          added_count: number
+          updated_count: number
+          skipped_count: number
+          error_count: number
+          used_browser_fallback: boolean
+          error_breakdown: Record<string, number>
+          message: string | null
+          baseline_count: number | null
+          anomalous: boolean
+          rejected_count: number
+          rejection_breakdown: Record<string, number>
+        }
+        Insert: {
+          id?: string
+          run_id: string
+          source_id?: string | null
+          status: 'success' | 'failed'
+          started_at?: string
+          duration_ms?: number
+          raw_count?: number
+          normalized_count?: number
+          added_count?: number
+          updated_count?: number
+          skipped_count?: number
+          error_count?: number
+          used_browser_fallback?: boolean
+          error_breakdown?: Record<string, number>
+          message?: string | null
+          baseline_count?: number | null
+          anomalous?: boolean
+          rejected_count?: number
+          rejection_breakdown?: Record<string, number>
+        }
+        Update: {
+          id?: string
+          run_id?: string
+          source_id?: string | null
+          status?: 'success' | 'failed'
+          started_at?: string
+          duration_ms?: number
+          raw_count?: number
+          normalized_count?: number
+          added_count?: number
+          updated_count?: number
+          skipped_count?: number
+          error_count?: number
+          used_browser_fallback?: boolean
+          error_breakdown?: Record<string, number>
+          message?: string | null
+          baseline_count?: number | null
+          anomalous?: boolean
+          rejected_count?: number
+          rejection_breakdown?: Record<string, number>
+        }
+        Relationships: []
+      }
+      calendar_feed_tokens: {
+        Row: {
+          id: string
+          user_id: string
+          token_hash: string
+          name: string
+          categories: string[]
+          sources: string[]
+          created_at: string
+          rotated_at: string | null
+          last_used_at: string | null
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          token_hash: string
+          name?: string
+          categories?: string[]
+          sources?: string[]
+          created_at?: string
+          rotated_at?: string | null
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          token_hash?: string
+          name?: string
+          categories?: string[]
+          sources?: string[]
+          created_at?: string
+          rotated_at?: string | null
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      [_ in never]: never
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
\ No newline at end of file
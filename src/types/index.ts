@@ -4,14 +4,17 @@ export interface User {
   name?: string
   city?: string
   country?: string
+  role?: 'user' | 'admin'
   createdAt: string
   updatedAt: string
 }
 
 export interface Event {
   id: string
-  source: 'rss' | 'newsapi' | 'web_scraper'
+  source: 'rss' | 'newsapi' | 'web_scraper' | 'ical'
   sourceId: string
+  legacySourceId?: string          // sourceId it was stored under before SHA-256 source IDs; ingestion re-keys that row
+  legacySourceIdPrefix?: string    // prefix of the throwaway sourceIds it was stored under before; ingestion matches those rows by externalUrl and title
   title: string
   description?: string
   longDescription?: string
@@ -29,6 +32,60 @@ export interface Event {
   organizerName?: string
   externalUrl?: string
   lastSeenAt: string
+  canonicalEventId?: string
+  sourceUrls?: string[]
+  archivedAt?: string
+  archivedReason?: 'stale' | 'past' | 'source_removed' | 'manual'
+  occurrences?: EventOccurrence[]  // separate dates of a multi-date event; empty or absent for one continuous run
+  dateParse?: DateParseInfo        // how the source's date text was read; absent for feeds with structured dates
+  needsReview?: boolean
+}
+
+export interface EventOccurrence {
+  id?: string
+  eventId?: string
+  startTime: string
+  endTime?: string
+}
+
+export type DateParseRule =
+  | 'month_day_range'    // "Sep 5-28"
+  | 'month_day_list'     // "Sep 6, 13, 20, Oct 1 & 6"
+  | 'day_range'          // "27-28 September 2025"
+  | 'day_month_year'     // "15 March 2025"
+  | 'month_day_year'     // "March 15, 2025"
+  | 'day_month'          // "15 March"
+  | 'month_day'          // "Mar 15"
+  | 'iso_date'           // "2025-03-15"
+  | 'numeric_date'       // "15/03/2025"
+  | 'numeric_date_range' // "15/03/2025 - 18/03/2025"
+  | 'zh_date'            // "2025年9月13日", "9月13日"
+  | 'zh_date_range'      // "9月6日至28日"
+  | 'zh_until'           // "展期至9月13日", from the reference date
+  | 'pt_date'            // "13 de Setembro de 2025"
+  | 'pt_date_range'      // "6 a 28 de Setembro"
+  | 'weekly'             // "每逢星期六", "aos sábados": the next such day
+  | 'weekly_range'       // "9月6日至28日每逢星期六": each such day in the range
+  | 'relative'           // "Today", "Tomorrow"
+  | 'schema_org'         // JSON-LD startDate
+  | 'none'
+
+export interface DateParseInfo {
+  rule: DateParseRule
+  timeKnown: boolean     // false when only a day was given; the UI shows "time TBA"
+  yearInferred: boolean  // the year was not in the text and was guessed
+  endInferred: boolean   // the end is a default duration rather than from the source
+  confidence: number     // 0-1
+}
+
+export interface EventRevision {
+  id: string
+  eventId: string
+  ingestionRunId?: string
+  sourceId?: string
+  changedFields: string[]
+  changes: Record<string, { from: unknown; to: unknown }>
+  createdAt: string
 }
 
 export interface SavedEvent {